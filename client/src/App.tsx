@@ -1,8 +1,8 @@
 /*
   App.tsx
 
-  Application root: sets up global providers (React Query, UI providers)
-  and the router used by the single-page application. Small and focused
+  Application root: sets up global providers (React Query, auth, UI
+  providers) and the router used by the single-page application. Small and focused
   so most app logic lives in the routed pages (e.g. Home.tsx).
 */
 import { Switch, Route } from "wouter";
@@ -10,13 +10,23 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
+import AuthPage from "@/pages/AuthPage";
+import TeacherDashboard from "@/pages/TeacherDashboard";
+import TournamentLobby from "@/pages/TournamentLobby";
+import TournamentView from "@/pages/TournamentView";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/admin" component={TeacherDashboard} />
+      <ProtectedRoute path="/tournaments" component={TournamentLobby} />
+      <ProtectedRoute path="/tournaments/:id" component={TournamentView} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -25,10 +35,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,140 @@
+/*
+  AccessCodeManager.tsx
+
+  Admin view of the access codes that unlock the game: issue a code for a
+  class (valid until the end of the day, or for several days, with an
+  optional usage limit) and revoke codes that leaked. With `classId`,
+  issued codes also enroll whoever redeems them in that class (the
+  teacher dashboard passes the class's codes only). Presentational: the
+  parent loads the codes and performs the requests (see
+  `hooks/useAccess.ts`).
+*/
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import type { CreateAccessCodeRequest } from "@shared/schema";
+import type { AccessCodeView } from "@/hooks/useAccess";
+
+interface AccessCodeManagerProps {
+  codes: AccessCodeView[];
+  onIssue: (request: CreateAccessCodeRequest) => void;
+  onRevoke: (id: string) => void;
+  isIssuing?: boolean;
+  classId?: string;
+  // Prefills the label, e.g. with the class name
+  defaultLabel?: string;
+}
+
+// Midnight at the end of the `days`-th day, counting today as the first
+function endOfDay(days: number) {
+  const date = new Date();
+  date.setHours(24 * days, 0, 0, 0);
+  return date;
+}
+
+function codeState(code: AccessCodeView, now: number): { label: string; live: boolean } {
+  if (code.revoked) return { label: "Revoked", live: false };
+  if (new Date(code.expiresAt).getTime() <= now) return { label: "Expired", live: false };
+  if (code.maxUses !== null && code.uses >= code.maxUses) return { label: "Used up", live: false };
+  return { label: "Active", live: true };
+}
+
+export default function AccessCodeManager({
+  codes,
+  onIssue,
+  onRevoke,
+  isIssuing = false,
+  classId,
+  defaultLabel = "",
+}: AccessCodeManagerProps) {
+  const [label, setLabel] = useState(defaultLabel);
+  const [days, setDays] = useState(1);
+  const [maxUses, setMaxUses] = useState("");
+  const [customCode, setCustomCode] = useState("");
+  const now = Date.now();
+
+  const handleIssue = () => {
+    if (!label.trim()) return;
+    const limit = parseInt(maxUses, 10);
+    onIssue({
+      label: label.trim(),
+      expiresAt: endOfDay(Math.max(1, days)),
+      maxUses: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+      code: customCode || undefined,
+      classId,
+    });
+    setCustomCode("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          data-testid="input-access-label"
+          placeholder="Class or group"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          className="col-span-2"
+        />
+        <label className="text-sm text-muted-foreground">
+          Valid for (days)
+          <Input
+            data-testid="input-access-days"
+            type="number"
+            min={1}
+            max={365}
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10) || 1)}
+          />
+        </label>
+        <label className="text-sm text-muted-foreground">
+          Max uses (optional)
+          <Input
+            data-testid="input-access-max-uses"
+            type="number"
+            min={1}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+          />
+        </label>
+        <Input
+          data-testid="input-access-custom-code"
+          placeholder="Custom code (optional)"
+          maxLength={16}
+          value={customCode}
+          onChange={(e) => setCustomCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ""))}
+        />
+        <Button onClick={handleIssue} disabled={!label.trim() || isIssuing} data-testid="button-issue-access-code">
+          Issue code
+        </Button>
+      </div>
+
+      <ul className="divide-y divide-zinc-800 max-h-72 overflow-auto" data-testid="list-access-codes">
+        {codes.length === 0 && <li className="py-2 text-sm text-muted-foreground">No access codes yet.</li>}
+        {codes.map((code) => {
+          const state = codeState(code, now);
+          return (
+            <li key={code.id} className="flex items-center gap-3 py-2" data-testid={`row-access-code-${code.id}`}>
+              <span className="font-mono font-bold neon-text">{code.code}</span>
+              <span className="flex-1 truncate text-sm">
+                {code.label}
+                <span className="block text-xs text-muted-foreground">
+                  {code.uses}
+                  {code.maxUses !== null && ` / ${code.maxUses}`} uses · expires{" "}
+                  {new Date(code.expiresAt).toLocaleString()}
+                </span>
+              </span>
+              <Badge variant={state.live ? "secondary" : "outline"}>{state.label}</Badge>
+              {state.live && (
+                <Button size="sm" variant="ghost" onClick={() => onRevoke(code.id)} data-testid={`button-revoke-${code.id}`}>
+                  Revoke
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
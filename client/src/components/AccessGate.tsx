@@ -0,0 +1,71 @@
+/*
+  AccessGate.tsx
+
+  Entry screen shown by `Home` until the session has redeemed an access
+  code. Codes are issued by an admin (usually one per class per day) and
+  checked by the server (`POST /api/access`); this component only
+  collects the code. Presentational: the parent submits it.
+*/
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ACCESS_CODE_PATTERN } from "@shared/schema";
+
+interface AccessGateProps {
+  onSubmit: (code: string) => void;
+  isSubmitting?: boolean;
+  // Why the last code was refused
+  error?: string;
+}
+
+export default function AccessGate({ onSubmit, isSubmitting = false, error }: AccessGateProps) {
+  const [code, setCode] = useState("");
+  const [isInputFocused, setIsInputFocused] = useState(false);
+  const isValid = ACCESS_CODE_PATTERN.test(code);
+
+  const submit = () => {
+    if (isValid && !isSubmitting) onSubmit(code);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 home-container">
+      <Card className="w-full max-w-md neon-container terminal-panel">
+        <CardContent className="p-6 text-center">
+          <h2 className="text-2xl neon-heading mb-2">Enter access code</h2>
+          <p className="muted text-sm mb-4">Ask your teacher for your class's code to continue</p>
+          <div className={`terminal-input-wrapper ${isInputFocused || code.length > 0 ? "focused typing" : ""}`}>
+            <input
+              data-testid="input-access-code"
+              autoComplete="off"
+              maxLength={16}
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ""))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") submit();
+              }}
+              onFocus={() => setIsInputFocused(true)}
+              onBlur={() => setIsInputFocused(false)}
+              placeholder="CODE"
+              className="mx-auto text-center"
+            />
+            <span className="terminal-underline" />
+            <span className="caret" />
+          </div>
+          {error && (
+            <p className="text-sm text-destructive mt-3" data-testid="text-access-error">
+              {error}
+            </p>
+          )}
+          <div className="mt-4 flex gap-2 justify-center">
+            <Button onClick={submit} disabled={!isValid || isSubmitting} data-testid="button-submit-access-code">
+              {isSubmitting ? "Checking..." : "Submit"}
+            </Button>
+            <Button variant="ghost" onClick={() => setCode("")}>
+              Clear
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
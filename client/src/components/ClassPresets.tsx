@@ -0,0 +1,103 @@
+/*
+  ClassPresets.tsx
+
+  Room presets on the teacher dashboard: saved room configs a teacher
+  starts class rooms from with one click (e.g. "Warm-up: 5 easy math
+  questions" or "Friday battle: 30 players, timed"). Lists the class's
+  presets with Start and Remove buttons and a small form to add one
+  (`RoomConfigForm` plus a name). Presentational: the parent saves the
+  list and creates the room.
+*/
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Play, Trash2 } from "lucide-react";
+import type { RoomConfig, RoomPreset } from "@shared/schema";
+import RoomConfigForm from "@/components/RoomConfigForm";
+
+interface ClassPresetsProps {
+  presets: RoomPreset[];
+  // Modules offered in the form (those with questions)
+  modules: string[];
+  onSave: (presets: RoomPreset[]) => void;
+  onStart: (preset: RoomPreset) => void;
+  isSaving?: boolean;
+  isStarting?: boolean;
+}
+
+function describe(config: RoomConfig) {
+  const parts = [
+    config.modules.join(", "),
+    `${config.numQuestions} questions`,
+    config.maxPlayers > 2 ? `up to ${config.maxPlayers} players` : "duel",
+  ];
+  if (config.timeLimitSeconds) parts.push(`${config.timeLimitSeconds}s per question`);
+  if (config.adaptive) parts.push("adaptive");
+  return parts.join(" · ");
+}
+
+export default function ClassPresets({
+  presets,
+  modules,
+  onSave,
+  onStart,
+  isSaving = false,
+  isStarting = false,
+}: ClassPresetsProps) {
+  const [name, setName] = useState("");
+
+  const handleAdd = (config: RoomConfig) => {
+    if (!name.trim()) return;
+    onSave([...presets, { name: name.trim(), config }]);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-zinc-800" data-testid="list-presets">
+        {presets.length === 0 && <li className="py-2 text-sm text-muted-foreground">No presets yet.</li>}
+        {presets.map((preset, index) => (
+          <li key={`${preset.name}-${index}`} className="flex items-center gap-3 py-2" data-testid={`row-preset-${index}`}>
+            <span className="flex-1 truncate">
+              <span className="font-semibold neon-heading">{preset.name}</span>
+              <span className="block text-xs text-muted-foreground">{describe(preset.config)}</span>
+            </span>
+            {preset.config.adaptive && <Badge variant="secondary">Adaptive</Badge>}
+            <Button size="sm" onClick={() => onStart(preset)} disabled={isStarting} data-testid={`button-start-preset-${index}`}>
+              <Play className="w-4 h-4 mr-1" />
+              Start room
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onSave(presets.filter((_, i) => i !== index))}
+              disabled={isSaving}
+              data-testid={`button-remove-preset-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-zinc-800 pt-4">
+        <RoomConfigForm
+          modules={modules}
+          submitLabel="Add preset"
+          onSubmit={handleAdd}
+          disabled={!name.trim() || isSaving}
+          defaultPlayers={30}
+        >
+          <Input
+            data-testid="input-preset-name"
+            placeholder="Preset name"
+            maxLength={40}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </RoomConfigForm>
+      </div>
+    </div>
+  );
+}
@@ -3,69 +3,132 @@
 
   Small presentational component used as the initial lobby screen.
   Responsibilities:
-  - Allow the user to enter a room code or generate one
-  - Trigger `onCreateRoom` or `onJoinRoom` callbacks passed from the
-    parent (Home.tsx). This component does not know about Firebase.
+  - Allow the user to enter a room code to join; codes for new rooms are
+    allocated when the room is created, not here
+  - Trigger `onCreateRoom`, `onJoinRoom`, `onWatchRoom`, `onPlayRanked`
+    or `onPractice` callbacks passed from the parent (Home.tsx). This component does not
+    know about Firebase.
 
   Keep changes here light-weight — the heavy lifting is in Home.tsx and
-  useGameRoom hook which perform the network/database work.
+  useGameRoom hook which perform the network/database work. Module and
+  skill options and the dashboard come from the question bank summary
+  (`GET /api/questions/summary`).
 */
 import { useState, useMemo } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Trophy } from "lucide-react";
-import { satQuestions } from "@shared/questions";
+import { Trophy, Swords, BookOpen, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useQuestionBankSummary } from "@/hooks/useQuestions";
+import SkillSelect from "@/components/SkillSelect";
+
+export type LobbyConfig = {
+  modules?: string[];
+  difficulties?: string[];
+  numQuestions?: number;
+  skills?: string[];
+  maxPlayers?: number;
+  answerQuorum?: number;
+  timeLimitSeconds?: number;
+  speedBonus?: boolean;
+  adaptive?: boolean;
+};
 
 interface GameLobbyProps {
-  onCreateRoom: (roomCode: string, config?: { 
-    modules?: string[];
-    difficulties?: string[];
-    numQuestions?: number;
-    skills?: string[];
-  }) => void;
+  onCreateRoom: (config?: LobbyConfig) => void;
   onJoinRoom: (roomCode: string) => void;
+  // Watch the entered room as a spectator; the button is hidden without it
+  onWatchRoom?: (roomCode: string) => void;
+  // Start single-player practice with the selected filters; the button
+  // is hidden without it
+  onPractice?: (config: LobbyConfig) => void;
+  // Enter the ranked matchmaking queue; the button is hidden without it
+  onPlayRanked?: () => void;
+  rating?: number;
 }
 
-export default function GameLobby({ onCreateRoom, onJoinRoom }: GameLobbyProps) {
+export default function GameLobby({
+  onCreateRoom,
+  onJoinRoom,
+  onWatchRoom,
+  onPlayRanked,
+  onPractice,
+  rating,
+}: GameLobbyProps) {
   const [roomCode, setRoomCode] = useState("");
   const [error, setError] = useState("");
   const [selectedModules, setSelectedModules] = useState<string[]>([]);
   const [selectedDifficulties, setSelectedDifficulties] = useState<string[]>([]);
   const [numQuestions, setNumQuestions] = useState<number>(10);
+  // 2 = duel; more turns the room into a classroom battle
+  const [maxPlayers, setMaxPlayers] = useState<number>(2);
+  const [answerQuorum, setAnswerQuorum] = useState<number>(1);
+  // 0 = untimed
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState<number>(0);
+  const [speedBonus, setSpeedBonus] = useState(false);
+  const [adaptive, setAdaptive] = useState(false);
+  const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
 
   const { toast } = useToast();
+  const summary = useQuestionBankSummary();
 
-  // Compute supported modules from available questions so we don't offer modules with no data
-  const supportedModules = useMemo(() => {
-    const set = new Set<string>();
-    Object.values(satQuestions).forEach((q) => set.add((q.module || "").toLowerCase()));
-    return Array.from(set).filter(Boolean);
-  }, []);
+  // Offer only modules that have questions
+  const supportedModules = useMemo(() => Object.keys(summary?.byModule ?? {}), [summary]);
 
-  const handleCreateRoom = () => {
-    const code = roomCode || Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    setError("");
-    const config: { 
-      modules?: string[];
-      difficulties?: string[];
-      numQuestions?: number;
-      skills?: string[];
-    } = {};
+  // Skills per module, limited to the selected modules (all when none are selected)
+  const skillsByModule = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(summary?.skillsByModule ?? {}).filter(
+          ([module]) => selectedModules.length === 0 || selectedModules.includes(module),
+        ),
+      ),
+    [summary, selectedModules],
+  );
+
+  // Drop selected skills that no longer belong to a selected module
+  const availableSkills = useMemo(() => new Set(Object.values(skillsByModule).flat()), [skillsByModule]);
+  const activeSkills = selectedSkills.filter((skill) => availableSkills.has(skill));
+
+  // Collect the selected filters; returns null (after a toast) when they are invalid
+  const buildConfig = (): LobbyConfig | null => {
+    const config: LobbyConfig = {};
     // Validate selected modules: do not allow creating rooms with unsupported modules
     if (selectedModules.length > 0) {
       const invalid = selectedModules.filter(m => !supportedModules.includes(m.toLowerCase()));
       if (invalid.length > 0) {
         // show toast and stop
         toast({ title: "Unsupported module", description: `Module(s) not available: ${invalid.join(", ")}`, variant: "destructive" });
-        return;
+        return null;
       }
       config.modules = selectedModules;
     }
     if (selectedDifficulties.length > 0) config.difficulties = selectedDifficulties;
-    if (numQuestions && Number.isFinite(numQuestions)) config.numQuestions = numQuestions;
-    onCreateRoom(code, config);
+    if (activeSkills.length > 0) config.skills = activeSkills;
+    // The room config takes 1 to 50 questions, whole numbers only
+    if (numQuestions && Number.isFinite(numQuestions)) config.numQuestions = Math.min(50, Math.max(1, Math.round(numQuestions)));
+    if (Number.isFinite(maxPlayers)) {
+      config.maxPlayers = Math.min(30, Math.max(2, Math.round(maxPlayers)));
+      if (config.maxPlayers > 2) config.answerQuorum = answerQuorum;
+    }
+    if (timeLimitSeconds > 0) {
+      config.timeLimitSeconds = timeLimitSeconds;
+      config.speedBonus = speedBonus;
+    }
+    if (adaptive) config.adaptive = true;
+    return config;
+  };
+
+  const handleCreateRoom = () => {
+    setError("");
+    const config = buildConfig();
+    if (config) onCreateRoom(config);
+  };
+
+  const handlePractice = () => {
+    const config = buildConfig();
+    if (config && onPractice) onPractice(config);
   };
 
   const handleJoinRoom = () => {
@@ -77,6 +140,15 @@ export default function GameLobby({ onCreateRoom, onJoinRoom }: GameLobbyProps)
     onJoinRoom(roomCode);
   };
 
+  const handleWatchRoom = () => {
+    if (!roomCode.trim()) {
+      setError("Please enter a room code");
+      return;
+    }
+    setError("");
+    onWatchRoom?.(roomCode);
+  };
+
   const invalidSelectedModules = selectedModules.filter(m => !supportedModules.includes(m.toLowerCase()));
 
   // Render lobby and a live dashboard with stats from the question bank
@@ -97,10 +169,10 @@ export default function GameLobby({ onCreateRoom, onJoinRoom }: GameLobbyProps)
             <div className="space-y-2">
               <Input
                 data-testid="input-room-code"
-                placeholder="Enter room code (optional)"
+                placeholder="Room code to join"
                 value={roomCode}
                 onChange={(e) => {
-                  setRoomCode(e.target.value);
+                  setRoomCode(e.target.value.toUpperCase());
                   setError("");
                 }}
                 className="h-12 text-center text-lg"
@@ -160,12 +232,92 @@ export default function GameLobby({ onCreateRoom, onJoinRoom }: GameLobbyProps)
                 <input
                   type="number"
                   min={1}
+                  max={50}
+                  step={1}
                   value={numQuestions}
                   onChange={(e) => setNumQuestions(Number(e.target.value))}
                   className="w-28 rounded-md border px-2 py-2 text-center"
                   data-testid="input-num-questions"
                 />
               </div>
+
+              <div className="mt-4">
+                <label className="text-sm muted mb-1 block">Skills</label>
+                <SkillSelect
+                  skillsByModule={skillsByModule}
+                  selected={activeSkills}
+                  onChange={setSelectedSkills}
+                />
+              </div>
+
+              <label className="flex items-center gap-2 mt-4">
+                <input
+                  type="checkbox"
+                  checked={adaptive}
+                  onChange={(e) => setAdaptive(e.target.checked)}
+                  data-testid="checkbox-adaptive"
+                />
+                <span className="text-sm">Adaptive: focus on weak skills and adjust difficulty as you play</span>
+              </label>
+
+              <div className="mt-4 grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-sm muted mb-1 block">Players (2 = duel, up to 30)</label>
+                  <input
+                    type="number"
+                    min={2}
+                    max={30}
+                    value={maxPlayers}
+                    onChange={(e) => setMaxPlayers(Number(e.target.value))}
+                    className="w-28 rounded-md border px-2 py-2 text-center"
+                    data-testid="input-max-players"
+                  />
+                </div>
+                {maxPlayers > 2 && (
+                  <div>
+                    <label className="text-sm muted mb-1 block">Next question when</label>
+                    <select
+                      value={answerQuorum}
+                      onChange={(e) => setAnswerQuorum(Number(e.target.value))}
+                      className="rounded-md border px-2 py-2"
+                      data-testid="select-answer-quorum"
+                    >
+                      <option value={1}>Everyone answered</option>
+                      <option value={0.75}>75% answered</option>
+                      <option value={0.5}>Half answered</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-4 grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-sm muted mb-1 block">Time per question</label>
+                  <select
+                    value={timeLimitSeconds}
+                    onChange={(e) => setTimeLimitSeconds(Number(e.target.value))}
+                    className="rounded-md border px-2 py-2"
+                    data-testid="select-time-limit"
+                  >
+                    <option value={0}>No timer</option>
+                    <option value={15}>15 seconds</option>
+                    <option value={30}>30 seconds</option>
+                    <option value={60}>60 seconds</option>
+                    <option value={90}>90 seconds</option>
+                  </select>
+                </div>
+                {timeLimitSeconds > 0 && (
+                  <label className="flex items-center gap-2 mt-6">
+                    <input
+                      type="checkbox"
+                      checked={speedBonus}
+                      onChange={(e) => setSpeedBonus(e.target.checked)}
+                      data-testid="checkbox-speed-bonus"
+                    />
+                    <span className="text-sm">Speed bonus points</span>
+                  </label>
+                )}
+              </div>
               {error && (
                 <p className="text-sm text-destructive text-center" data-testid="text-error">
                   {error}
@@ -192,6 +344,43 @@ export default function GameLobby({ onCreateRoom, onJoinRoom }: GameLobbyProps)
                 Join Room
               </Button>
             </div>
+            {onWatchRoom && (
+              <Button
+                data-testid="button-watch-room"
+                onClick={handleWatchRoom}
+                variant="ghost"
+                size="lg"
+                className="w-full h-12"
+              >
+                <Eye className="w-4 h-4 mr-2" />
+                Watch Room
+              </Button>
+            )}
+            {onPlayRanked && (
+              <Button
+                data-testid="button-play-ranked"
+                onClick={onPlayRanked}
+                variant="secondary"
+                size="lg"
+                className="w-full h-12"
+              >
+                <Swords className="w-4 h-4 mr-2" />
+                Play Ranked{rating !== undefined && ` (rating ${rating})`}
+              </Button>
+            )}
+            {onPractice && (
+              <Button
+                data-testid="button-practice"
+                onClick={handlePractice}
+                variant="ghost"
+                size="lg"
+                className="w-full h-12"
+                disabled={invalidSelectedModules.length > 0}
+              >
+                <BookOpen className="w-4 h-4 mr-2" />
+                Practice Solo
+              </Button>
+            )}
           </CardContent>
         </Card>
 
@@ -203,16 +392,8 @@ export default function GameLobby({ onCreateRoom, onJoinRoom }: GameLobbyProps)
           </CardHeader>
           <CardContent>
             {(() => {
-              const total = satQuestions.length;
-              const byModule: Record<string, number> = {};
-              const byDifficulty: Record<string, number> = { E: 0, M: 0, H: 0 };
-              const bySkill: Record<string, number> = {};
-              satQuestions.forEach((q) => {
-                const m = (q.module || "unknown").toLowerCase();
-                byModule[m] = (byModule[m] || 0) + 1;
-                if (q.difficulty) byDifficulty[q.difficulty] = (byDifficulty[q.difficulty] || 0) + 1;
-                if (q.skill_desc) bySkill[q.skill_desc] = (bySkill[q.skill_desc] || 0) + 1;
-              });
+              if (!summary) return <p className="text-sm muted">Loading question bank...</p>;
+              const { total, byModule, byDifficulty, bySkill } = summary;
 
               return (
                 <div className="space-y-4">
@@ -1,32 +1,81 @@
 /*
   GameOver.tsx
 
-  Final results screen shown after the duel ends. Displays the
-  final scores and provides actions to play again or create a new room.
+  Final results screen shown after the game ends. Displays the final
+  scores (two cards for a duel, a full ranking when `standings` has more
+  than two players), notes when a duel ended by forfeit and provides
+  actions to review the answers, play again or create a new room. Play
+  Again asks for a rematch, which starts once every player has asked;
+  until then the button shows who is still to accept. A tournament match
+  offers a way back to its bracket instead of a replay.
   This component is presentational and synchronous — logic to reset
   scores and prepare a new game is driven by the parent (Home.tsx).
 */
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trophy, Home, RotateCcw } from "lucide-react";
+import { Trophy, Home, RotateCcw, ListChecks, Swords, Loader2 } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import type { PlayerStanding } from "@shared/schema";
 
 interface GameOverProps {
   playerScore: number;
   opponentScore: number;
   totalQuestions: number;
+  // Highest reachable score when it differs from one point per question
+  // (e.g. with speed bonus points)
+  maxScore?: number;
   onPlayAgain: () => void;
   onNewRoom: () => void;
+  // Opens the per-question review; the button is hidden without it
+  onReview?: () => void;
+  // Ranked duels: the player's rating before and after this match
+  ratingChange?: { before: number; after: number };
+  // Final ranking of every player; used instead of the two score cards
+  // when more than two players took part
+  standings?: PlayerStanding[];
+  playerId?: string;
+  // Duel only: names and avatar seeds for the two score cards
+  playerName?: string;
+  opponentName?: string;
+  playerAvatar?: string;
+  opponentAvatar?: string;
+  // Duel ended early because a player stayed disconnected
+  forfeitedBy?: "player" | "opponent";
+  // Tournament matches: replaces Play Again
+  onBackToTournament?: () => void;
+  // Rematch votes: whether this player asked and the names of the other
+  // players who did. `unavailable` explains why the room can't be
+  // replayed (ranked duel, everyone else left) and disables the button.
+  rematch?: { requested: boolean; requestedBy: string[]; unavailable?: string };
 }
 
 export default function GameOver({
   playerScore,
   opponentScore,
   totalQuestions,
+  maxScore = totalQuestions,
   onPlayAgain,
   onNewRoom,
+  onReview,
+  ratingChange,
+  standings,
+  playerId,
+  playerName = "You",
+  opponentName = "Opponent",
+  playerAvatar,
+  opponentAvatar,
+  forfeitedBy,
+  onBackToTournament,
+  rematch,
 }: GameOverProps) {
-  const isWinner = playerScore > opponentScore;
-  const isTie = playerScore === opponentScore;
+  const isGroup = (standings?.length ?? 0) > 2;
+  const ownRank = standings?.find((s) => s.playerId === playerId)?.rank;
+  const sharedFirst = (standings?.filter((s) => s.rank === 1).length ?? 0) > 1;
+
+  const isWinner = isGroup
+    ? ownRank === 1 && !sharedFirst
+    : forfeitedBy ? forfeitedBy === "opponent" : playerScore > opponentScore;
+  const isTie = isGroup ? ownRank === 1 && sharedFirst : !forfeitedBy && playerScore === opponentScore;
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-background">
@@ -42,41 +91,138 @@ export default function GameOver({
             </div>
           </div>
           <CardTitle className="text-3xl font-bold" data-testid="text-result-title">
-            {isWinner ? "Victory! 🎉" : isTie ? "It's a Tie! 🤝" : "Good Try! 💪"}
+            {isWinner
+              ? "Victory! 🎉"
+              : isTie
+                ? "It's a Tie! 🤝"
+                : isGroup && ownRank
+                  ? `You placed #${ownRank} 💪`
+                  : "Good Try! 💪"}
           </CardTitle>
+          {forfeitedBy && (
+            <p className="text-center text-sm text-muted-foreground" data-testid="text-forfeit">
+              {forfeitedBy === "opponent"
+                ? `${opponentName} disconnected and forfeited the duel.`
+                : "You were disconnected too long and forfeited the duel."}
+            </p>
+          )}
+          {ratingChange && (
+            <p className="text-center text-sm text-muted-foreground" data-testid="text-rating-change">
+              Rating {ratingChange.before} → {ratingChange.after}{" "}
+              <span
+                className={`font-semibold ${
+                  ratingChange.after >= ratingChange.before ? "text-emerald-500" : "text-red-500"
+                }`}
+              >
+                ({ratingChange.after >= ratingChange.before ? "+" : ""}
+                {ratingChange.after - ratingChange.before})
+              </span>
+            </p>
+          )}
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="text-center p-6 bg-primary/5 rounded-lg border border-primary/20">
-              <p className="text-sm text-muted-foreground mb-2">Your Score</p>
-              <p className="text-5xl font-bold text-primary" data-testid="text-final-player-score">
-                {playerScore}
-              </p>
-              <p className="text-sm text-muted-foreground mt-2">
-                out of {totalQuestions}
-              </p>
-            </div>
-            <div className="text-center p-6 bg-muted/50 rounded-lg border">
-              <p className="text-sm text-muted-foreground mb-2">Opponent</p>
-              <p className="text-5xl font-bold" data-testid="text-final-opponent-score">
-                {opponentScore}
-              </p>
-              <p className="text-sm text-muted-foreground mt-2">
-                out of {totalQuestions}
-              </p>
+          {isGroup ? (
+            <ol className="space-y-2 max-h-80 overflow-auto" data-testid="list-final-standings">
+              {standings!.map(({ playerId: id, score, rank, displayName, avatar }) => (
+                <li
+                  key={id}
+                  className={`flex items-center gap-3 p-3 rounded-lg border ${
+                    id === playerId ? "bg-primary/5 border-primary/20" : "bg-muted/50"
+                  }`}
+                >
+                  <span className="w-8 font-bold text-primary">#{rank}</span>
+                  <PlayerAvatar seed={avatar} size={28} />
+                  <span className="flex-1 truncate">
+                    {displayName || id}
+                    {id === playerId && " (You)"}
+                  </span>
+                  <span className="font-bold">
+                    {score} / {maxScore}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="text-center p-6 bg-primary/5 rounded-lg border border-primary/20">
+                <PlayerAvatar seed={playerAvatar} className="mx-auto mb-2" />
+                <p className="text-sm text-muted-foreground mb-2" data-testid="text-final-player-name">{playerName}</p>
+                <p className="text-5xl font-bold text-primary" data-testid="text-final-player-score">
+                  {playerScore}
+                </p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  out of {maxScore}
+                </p>
+              </div>
+              <div className="text-center p-6 bg-muted/50 rounded-lg border">
+                <PlayerAvatar seed={opponentAvatar} className="mx-auto mb-2" />
+                <p className="text-sm text-muted-foreground mb-2" data-testid="text-final-opponent-name">{opponentName}</p>
+                <p className="text-5xl font-bold" data-testid="text-final-opponent-score">
+                  {opponentScore}
+                </p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  out of {maxScore}
+                </p>
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="space-y-3 pt-4">
-            <Button
-              data-testid="button-play-again"
-              onClick={onPlayAgain}
-              className="w-full h-12"
-              size="lg"
-            >
-              <RotateCcw className="w-4 h-4 mr-2" />
-              Play Again
-            </Button>
+            {onReview && (
+              <Button
+                data-testid="button-review"
+                onClick={onReview}
+                variant="secondary"
+                className="w-full h-12"
+                size="lg"
+              >
+                <ListChecks className="w-4 h-4 mr-2" />
+                Review Answers
+              </Button>
+            )}
+            {onBackToTournament ? (
+              <Button
+                data-testid="button-back-to-tournament"
+                onClick={onBackToTournament}
+                className="w-full h-12"
+                size="lg"
+              >
+                <Swords className="w-4 h-4 mr-2" />
+                Back to Tournament
+              </Button>
+            ) : (
+              <>
+                {rematch && !rematch.requested && rematch.requestedBy.length > 0 && (
+                  <p className="text-center text-sm font-medium text-primary" data-testid="text-rematch-offer">
+                    {rematch.requestedBy.join(", ")} {rematch.requestedBy.length === 1 ? "wants" : "want"} a rematch!
+                  </p>
+                )}
+                {rematch?.unavailable && (
+                  <p className="text-center text-sm text-muted-foreground" data-testid="text-rematch-unavailable">
+                    {rematch.unavailable}
+                  </p>
+                )}
+                <Button
+                  data-testid="button-play-again"
+                  onClick={onPlayAgain}
+                  className="w-full h-12"
+                  size="lg"
+                  disabled={rematch && (rematch.requested || rematch.unavailable !== undefined)}
+                >
+                  {rematch?.requested && !rematch.unavailable ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Waiting for {isGroup ? "the others" : opponentName}...
+                    </>
+                  ) : (
+                    <>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      {rematch && rematch.requestedBy.length > 0 ? "Accept Rematch" : "Play Again"}
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
             <Button
               data-testid="button-new-room"
               onClick={onNewRoom}
@@ -0,0 +1,202 @@
+/*
+  GameReview.tsx
+
+  Post-game review reached from `GameOver`. Walks through every question
+  the room drew (in order) and shows, per question:
+  - the stimulus and stem, with each answer option
+  - the correct option and which players picked which option (for
+    grid-in questions, the accepted answers and what each player typed)
+  - difficulty, skill (`skill_desc`) and the rationale HTML
+
+  Data comes from the room's `rounds` history (or a saved match), so the
+  review works the same for duels and classroom rooms. Questions are
+  redacted; answer keys and rationales come from each round's `reveal`. Presentational
+  only; `onBack` returns to the results screen.
+*/
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ArrowLeft, Check, X, Minus } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import { CHOICE_LABELS } from "@/components/QuestionDisplay";
+import type { PlayerProfile, Question, RedactedQuestion, RoundRecord } from "@shared/schema";
+import { isGridIn } from "@shared/gridIn";
+import "@/styles/questions.css";
+
+interface GameReviewProps {
+  // Questions in the order the room asked them
+  questions: RedactedQuestion[];
+  rounds: RoundRecord[];
+  players: string[];
+  profiles?: Record<string, PlayerProfile>;
+  playerId: string;
+  onBack: () => void;
+}
+
+const DIFFICULTY_LABELS: Record<Question["difficulty"], string> = { E: "Easy", M: "Medium", H: "Hard" };
+
+export default function GameReview({
+  questions,
+  rounds,
+  players,
+  profiles = {},
+  playerId,
+  onBack,
+}: GameReviewProps) {
+  const roundsById = new Map(rounds.map((round) => [round.questionId, round]));
+  const nameOf = (id: string) => (id === playerId ? "You" : profiles[id]?.displayName ?? id);
+
+  return (
+    <div className="min-h-screen p-4 home-container">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onBack} data-testid="button-review-back">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to results
+          </Button>
+        </div>
+
+        <Card className="neon-container terminal-panel">
+          <CardHeader>
+            <CardTitle className="text-2xl neon-heading">Game Review</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Accordion type="multiple" className="space-y-2">
+              {questions.map((question, index) => {
+                const round = roundsById.get(question.id);
+                const own = round?.answers[playerId];
+                const ownCorrect = round?.correct[playerId];
+                const reveal = round?.reveal;
+
+                return (
+                  <AccordionItem
+                    key={question.id}
+                    value={question.id}
+                    className="border border-zinc-800 rounded-lg px-3"
+                    data-testid={`review-question-${index}`}
+                  >
+                    <AccordionTrigger className="hover:no-underline">
+                      <div className="flex flex-1 items-center gap-2 text-left">
+                        {!round || own === undefined ? (
+                          <Minus className="w-4 h-4 text-muted-foreground" />
+                        ) : ownCorrect ? (
+                          <Check className="w-4 h-4 text-emerald-500" />
+                        ) : (
+                          <X className="w-4 h-4 text-red-500" />
+                        )}
+                        <span className="font-semibold">Question {index + 1}</span>
+                        <Badge variant="outline" className="capitalize">{question.module}</Badge>
+                        <Badge variant="outline">{DIFFICULTY_LABELS[question.difficulty]}</Badge>
+                        {question.skill_desc && (
+                          <span className="text-xs muted truncate hidden md:inline">{question.skill_desc}</span>
+                        )}
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      {question.skill_desc && (
+                        <p className="text-sm muted" data-testid="text-skill">Skill: {question.skill_desc}</p>
+                      )}
+
+                      <div className="question-content prose dark:prose-invert max-w-none">
+                        {question.content.stimulus && (
+                          <div
+                            className="question-stimulus prose-sm max-w-none mb-4"
+                            dangerouslySetInnerHTML={{ __html: question.content.stimulus }}
+                          />
+                        )}
+                        <div className="question-stem" dangerouslySetInnerHTML={{ __html: question.content.stem }} />
+                      </div>
+
+                      <div className="space-y-2">
+                        {question.content.answerOptions.map((choice, optionIndex) => {
+                          const isCorrect = !!reveal?.correct_answer.includes(choice);
+                          const pickedBy = players.filter((id) => round?.answers[id] === optionIndex);
+
+                          return (
+                            <div
+                              key={optionIndex}
+                              className={`flex items-start gap-3 p-3 rounded-lg border ${
+                                isCorrect ? "border-emerald-500/60 bg-emerald-500/5" : "border-zinc-800"
+                              }`}
+                              data-testid={`review-option-${index}-${optionIndex}`}
+                            >
+                              <Badge variant="outline" className="font-bold min-w-[2rem] justify-center">
+                                {CHOICE_LABELS[optionIndex]}
+                              </Badge>
+                              <span
+                                className="flex-1 prose-sm question-content"
+                                dangerouslySetInnerHTML={{ __html: String(choice) }}
+                              />
+                              {pickedBy.length > 0 && (
+                                <div className="flex flex-wrap gap-1 justify-end max-w-[50%]">
+                                  {pickedBy.map((id) => (
+                                    <Badge key={id} variant="secondary" className="gap-1">
+                                      <PlayerAvatar seed={profiles[id]?.avatar} size={16} />
+                                      {nameOf(id)}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              {isCorrect && <Check className="w-5 h-5 text-emerald-500 flex-shrink-0" />}
+                            </div>
+                          );
+                        })}
+                      </div>
+
+                      {isGridIn(question) && (
+                        <div className="space-y-2">
+                          {reveal && (
+                            <p className="text-sm" data-testid={`review-accepted-${index}`}>
+                              <span className="muted">Accepted answers:</span> {reveal.correct_answer.join(", ")}
+                            </p>
+                          )}
+                          {round &&
+                            players
+                              .filter((id) => typeof round.answers[id] === "string")
+                              .map((id) => (
+                                <div
+                                  key={id}
+                                  className="flex items-center gap-2 text-sm"
+                                  data-testid={`review-entry-${index}-${id}`}
+                                >
+                                  <PlayerAvatar seed={profiles[id]?.avatar} size={16} />
+                                  <span>{nameOf(id)}:</span>
+                                  <span className="font-mono">{round.answers[id]}</span>
+                                  {round.correct[id] ? (
+                                    <Check className="w-4 h-4 text-emerald-500" />
+                                  ) : (
+                                    <X className="w-4 h-4 text-red-500" />
+                                  )}
+                                </div>
+                              ))}
+                        </div>
+                      )}
+
+                      {round && players.some((id) => round.answers[id] === undefined) && (
+                        <p className="text-xs muted">
+                          No answer: {players.filter((id) => round.answers[id] === undefined).map(nameOf).join(", ")}
+                        </p>
+                      )}
+                      {!round && <p className="text-xs muted">This question was not played.</p>}
+
+                      {reveal?.rationale && (
+                        <div>
+                          <h3 className="font-semibold mb-2 text-emerald-500 neon-text">Explanation:</h3>
+                          <div
+                            className="prose prose-sm max-w-none question-content"
+                            dangerouslySetInnerHTML={{ __html: reveal.rationale }}
+                          />
+                        </div>
+                      )}
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
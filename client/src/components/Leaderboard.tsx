@@ -0,0 +1,71 @@
+/*
+  Leaderboard.tsx
+
+  Live ranking used instead of the two-card `ScoreBoard` when a room has
+  more than two players (classroom battles). Shows every player's rank
+  and score, highlights the current player, and marks who has already
+  locked in an answer for the current question. Presentational only.
+*/
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Target, Check, Loader2 } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import type { PlayerStanding } from "@shared/schema";
+import "@/styles/scoreboard.css";
+
+interface LeaderboardProps {
+  standings: PlayerStanding[];
+  playerId: string;
+  currentQuestion: number;
+  totalQuestions: number;
+  // Players who have answered the current question
+  answeredIds?: string[];
+}
+
+export default function Leaderboard({
+  standings,
+  playerId,
+  currentQuestion,
+  totalQuestions,
+  answeredIds = [],
+}: LeaderboardProps) {
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 space-y-4 scoreboard-container">
+      <div className="flex items-center justify-center gap-2 mb-2">
+        <Target className="w-5 h-5 neon-text" />
+        <Badge variant="secondary" className="text-sm font-medium neon-text" data-testid="text-question-progress">
+          Question {currentQuestion} / {totalQuestions}
+        </Badge>
+        <Badge variant="outline" className="text-sm" data-testid="text-answered-count">
+          {answeredIds.length} / {standings.length} answered
+        </Badge>
+      </div>
+
+      <Card className="scoreboard-card divide-y divide-zinc-800 max-h-72 overflow-auto">
+        {standings.map(({ playerId: id, score, rank, displayName, avatar }) => {
+          const isYou = id === playerId;
+          return (
+            <div
+              key={id}
+              className="flex items-center gap-3 px-4 py-2"
+              data-testid={`row-leaderboard-${id}`}
+            >
+              <span className="w-8 text-right font-bold neon-text">#{rank}</span>
+              <PlayerAvatar seed={avatar} size={28} />
+              <span className={`flex-1 truncate ${isYou ? "you-label" : ""}`}>
+                {displayName || id}
+                {isYou && " (You)"}
+              </span>
+              {answeredIds.includes(id) ? (
+                <Check className="w-4 h-4 text-emerald-500" />
+              ) : (
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              )}
+              <span className="w-12 text-right text-xl font-bold score-value">{score}</span>
+            </div>
+          );
+        })}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+/*
+  MatchmakingQueue.tsx
+
+  "Searching for an opponent" screen shown while the player waits in the
+  ranked queue. Shows their rating and how long they have waited; the
+  parent (Home.tsx) polls the queue and moves on once a duel is found.
+  Presentational only.
+*/
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Swords } from "lucide-react";
+
+interface MatchmakingQueueProps {
+  rating?: number;
+  // Local clock (epoch ms) when the player entered the queue
+  queuedAt?: number;
+  onCancel: () => void;
+}
+
+export default function MatchmakingQueue({ rating, queuedAt, onCancel }: MatchmakingQueueProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const waitedSeconds = queuedAt ? Math.max(0, Math.floor((now - queuedAt) / 1000)) : 0;
+  const waited = `${Math.floor(waitedSeconds / 60)}:${String(waitedSeconds % 60).padStart(2, "0")}`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 home-container">
+      <Card className="w-full max-w-md neon-container terminal-panel">
+        <CardHeader className="text-center space-y-4 neon-text">
+          <div className="flex justify-center">
+            <div className="w-16 h-16 rounded-full glass flex items-center justify-center cyber-outline">
+              <Swords className="w-8 h-8" style={{ color: 'var(--cyber-primary)' }} />
+            </div>
+          </div>
+          <CardTitle className="text-2xl neon-heading">Finding an Opponent</CardTitle>
+          <CardDescription className="muted">
+            You'll be paired with a player of similar rating
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-center gap-2">
+            {rating !== undefined && (
+              <Badge variant="secondary" className="badge-accent" data-testid="text-rating">
+                Rating {rating}
+              </Badge>
+            )}
+            <Badge variant="outline" data-testid="text-queue-time">
+              {waited}
+            </Badge>
+          </div>
+
+          <div className="flex items-center justify-center gap-2 py-4">
+            <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'var(--cyber-primary)' }} />
+            <p className="text-sm muted" data-testid="text-searching">Searching...</p>
+          </div>
+
+          <Button data-testid="button-cancel-queue" onClick={onCancel} variant="outline" className="w-full">
+            Cancel
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
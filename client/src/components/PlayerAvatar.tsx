@@ -0,0 +1,54 @@
+/*
+  PlayerAvatar.tsx
+
+  Round avatar drawn from a profile's avatar seed (see `lib/avatar.ts`).
+  Falls back to a generic user icon for players without a profile.
+  Presentational only.
+*/
+import { User } from "lucide-react";
+import { AVATAR_GRID, avatarPattern } from "@/lib/avatar";
+
+interface PlayerAvatarProps {
+  seed?: string;
+  // Diameter in pixels
+  size?: number;
+  className?: string;
+}
+
+export default function PlayerAvatar({ seed, size = 40, className = "" }: PlayerAvatarProps) {
+  if (!seed) {
+    return (
+      <div
+        className={`rounded-full bg-primary/10 flex items-center justify-center shrink-0 ${className}`}
+        style={{ width: size, height: size }}
+      >
+        <User className="text-primary" style={{ width: size / 2, height: size / 2 }} />
+      </div>
+    );
+  }
+
+  const { hue, cells } = avatarPattern(seed);
+
+  return (
+    <div
+      className={`rounded-full overflow-hidden shrink-0 ${className}`}
+      style={{ width: size, height: size, background: `hsl(${hue} 40% 18%)` }}
+      data-testid="img-player-avatar"
+    >
+      <svg viewBox={`-1 -1 ${AVATAR_GRID + 2} ${AVATAR_GRID + 2}`} width={size} height={size}>
+        {cells.map((filled, i) =>
+          filled ? (
+            <rect
+              key={i}
+              x={i % AVATAR_GRID}
+              y={Math.floor(i / AVATAR_GRID)}
+              width={1}
+              height={1}
+              fill={`hsl(${hue} 85% 60%)`}
+            />
+          ) : null,
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/*
+  PracticeSession.tsx
+
+  Single-player practice against the question bank: no room and no
+  opponent. Reuses `QuestionDisplay`, reveals the correct answer and the
+  rationale after every answer, and keeps a session score that is shown
+  in a short summary at the end.
+
+  The parent draws `questions` (same module/difficulty filters as rooms,
+  redacted), supplies `checkAnswer` (the server keeps the answer keys)
+  and decides what "Practice Again" and "Back to Lobby" do.
+*/
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Target, ArrowRight, RotateCcw, Home } from "lucide-react";
+import QuestionDisplay from "@/components/QuestionDisplay";
+import type { AnswerValue, PracticeAnswerResult, RedactedQuestion } from "@shared/schema";
+
+interface PracticeSessionProps {
+  questions: RedactedQuestion[];
+  // Checks one answer and returns the question's reveal
+  checkAnswer: (questionId: string, answer: AnswerValue) => Promise<PracticeAnswerResult>;
+  onRestart: () => void;
+  onExit: () => void;
+}
+
+export default function PracticeSession({ questions, checkAnswer, onRestart, onExit }: PracticeSessionProps) {
+  const [index, setIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerValue | undefined>();
+  const [result, setResult] = useState<PracticeAnswerResult | null>(null);
+  const [checkFailed, setCheckFailed] = useState(false);
+  const [score, setScore] = useState(0);
+  const [finished, setFinished] = useState(false);
+
+  const question = questions[index];
+  const answered = result !== null || checkFailed;
+
+  const handleAnswer = async (answer: AnswerValue) => {
+    if (selectedAnswer !== undefined) return;
+    setSelectedAnswer(answer);
+    try {
+      const checked = await checkAnswer(question.id, answer);
+      setResult(checked);
+      if (checked.correct) setScore((s) => s + 1);
+    } catch (error) {
+      console.error("Error checking answer:", error);
+      setCheckFailed(true);
+    }
+  };
+
+  const handleNext = () => {
+    if (index + 1 >= questions.length) {
+      setFinished(true);
+      return;
+    }
+    setIndex(index + 1);
+    setSelectedAnswer(undefined);
+    setResult(null);
+    setCheckFailed(false);
+  };
+
+  if (finished || !question) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 home-container">
+        <Card className="w-full max-w-md neon-container terminal-panel">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl neon-heading">Practice Complete</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6 text-center">
+            <p className="text-5xl font-bold text-primary" data-testid="text-practice-score">
+              {score} / {questions.length}
+            </p>
+            <div className="space-y-3">
+              <Button data-testid="button-practice-again" onClick={onRestart} className="w-full h-12" size="lg">
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Practice Again
+              </Button>
+              <Button
+                data-testid="button-practice-exit"
+                onClick={onExit}
+                variant="outline"
+                className="w-full h-12"
+                size="lg"
+              >
+                <Home className="w-4 h-4 mr-2" />
+                Back to Lobby
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 space-y-4 home-container">
+      <div className="flex items-center justify-center gap-2">
+        <Target className="w-5 h-5 neon-text" />
+        <Badge variant="secondary" className="text-sm font-medium neon-text" data-testid="text-question-progress">
+          Practice {index + 1} / {questions.length}
+        </Badge>
+        <Badge variant="outline" className="text-sm" data-testid="text-session-score">
+          Score {score}
+        </Badge>
+        <Button variant="ghost" size="sm" onClick={onExit} data-testid="button-end-practice">
+          End
+        </Button>
+      </div>
+      <QuestionDisplay
+        question={question}
+        onAnswer={handleAnswer}
+        selectedAnswer={selectedAnswer}
+        isWaiting={selectedAnswer !== undefined && !answered}
+        showResult={result !== null}
+        isCorrect={result?.correct ?? false}
+        reveal={result?.reveal}
+        showExplanation={result !== null}
+      />
+      {checkFailed && (
+        <p className="text-center text-sm text-destructive" data-testid="text-check-failed">
+          Could not check this answer. It won't count toward your score.
+        </p>
+      )}
+      {answered && (
+        <div className="max-w-2xl mx-auto px-4">
+          <Button data-testid="button-next-question" onClick={handleNext} className="w-full h-12" size="lg">
+            {index + 1 >= questions.length ? "See Results" : "Next Question"}
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/*
+  ProfileSetup.tsx
+
+  Profile step shown before the lobby until the player has picked a
+  display name, and again whenever they choose to edit it. The avatar is
+  generated from a random seed; "Shuffle" draws a new one. Saving is
+  delegated to the parent through `onSave`.
+*/
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Shuffle } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import { randomAvatarSeed } from "@/lib/avatar";
+import type { PlayerProfile } from "@shared/schema";
+
+interface ProfileSetupProps {
+  initialProfile?: Partial<PlayerProfile>;
+  onSave: (profile: PlayerProfile) => void;
+  // Shown only when editing an existing profile
+  onCancel?: () => void;
+  isSaving?: boolean;
+}
+
+export default function ProfileSetup({ initialProfile, onSave, onCancel, isSaving = false }: ProfileSetupProps) {
+  const [displayName, setDisplayName] = useState(initialProfile?.displayName ?? "");
+  const [avatar, setAvatar] = useState(() => initialProfile?.avatar || randomAvatarSeed());
+  const trimmed = displayName.trim();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 home-container">
+      <Card className="w-full max-w-md neon-container terminal-panel">
+        <CardHeader className="text-center space-y-2">
+          <div className="flex justify-center mb-2">
+            <PlayerAvatar seed={avatar} size={80} className="cyber-outline" />
+          </div>
+          <CardTitle className="text-2xl neon-heading">Your Profile</CardTitle>
+          <CardDescription className="muted">This is how other players will see you</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Display name"
+            maxLength={24}
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="h-12 text-center text-lg"
+            data-testid="input-display-name"
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setAvatar(randomAvatarSeed())}
+            data-testid="button-shuffle-avatar"
+          >
+            <Shuffle className="w-4 h-4 mr-2" />
+            Shuffle Avatar
+          </Button>
+          <Button
+            className="w-full"
+            disabled={!trimmed || isSaving}
+            onClick={() => onSave({ displayName: trimmed, avatar })}
+            data-testid="button-save-profile"
+          >
+            Save
+          </Button>
+          {onCancel && (
+            <Button variant="ghost" className="w-full" onClick={onCancel} data-testid="button-cancel-profile">
+              Cancel
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
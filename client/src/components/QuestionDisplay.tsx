@@ -4,38 +4,54 @@
   Presents a single question and the four choices to the player.
   Responsibilities:
   - Render the question text, category badge, and four choice buttons
+    (or a numeric entry field for grid-in questions)
   - Accept a callback `onAnswer` to report the player's selection
   - Optionally display waiting state and immediate result indicators
 
   Important props:
-  - question: the `Question` object (id, question, choices, correct)
-  - onAnswer: function called with the selected choice index
-  - selectedAnswer: externally-provided selected index (for syncing)
+  - question: the question being asked, redacted (no answer key)
+  - onAnswer: function called with the selected choice index, or the
+    typed entry for grid-in questions
+  - selectedAnswer: externally-provided selected answer (for syncing)
   - isWaiting: displays an animated waiting indicator while opponent answers
   - showResult / isCorrect: used to show correct/incorrect feedback
+  - reveal: the answer key and rationale, available once the round has
+    resolved; highlights the correct choice and feeds the explanation
+  - deadline / timeLimitSeconds: in timed rooms, the moment (local clock,
+    epoch ms) the question closes; shows a countdown and locks the
+    choices once it runs out
+  - readOnly: spectators see the question and, once resolved, the
+    correct choice, but can't answer and get no personal result
 */
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, type FormEvent } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Check, X, Loader2 } from "lucide-react";
-import { Question } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import { Check, X, Loader2, Timer } from "lucide-react";
+import { GRID_IN_MAX_LENGTH, type AnswerValue, type QuestionReveal, type RedactedQuestion } from "@shared/schema";
+import { isGridIn, parseGridInValue } from "@shared/gridIn";
 import { setupImageThemeDetection } from "@/lib/utils/imageTheme";
 import "@/styles/neon.css";
 import "@/styles/questions.css";
 import "@/styles/question-display.css";
 
 interface QuestionDisplayProps {
-  question: Question;
-  onAnswer: (answerIndex: number) => void;
-  selectedAnswer?: number;
+  question: RedactedQuestion;
+  onAnswer: (answer: AnswerValue) => void;
+  selectedAnswer?: AnswerValue;
   isWaiting?: boolean;
   showResult?: boolean;
   isCorrect?: boolean;
+  reveal?: QuestionReveal;
   showExplanation?: boolean;
+  deadline?: number;
+  timeLimitSeconds?: number;
+  readOnly?: boolean;
 }
 
-const CHOICE_LABELS = ["A", "B", "C", "D"];
+export const CHOICE_LABELS = ["A", "B", "C", "D"];
 
 export default function QuestionDisplay({
   question,
@@ -44,9 +60,18 @@ export default function QuestionDisplay({
   isWaiting = false,
   showResult = false,
   isCorrect = false,
+  reveal,
   showExplanation = false,
+  deadline,
+  timeLimitSeconds,
+  readOnly = false,
 }: QuestionDisplayProps) {
-  const [localSelected, setLocalSelected] = useState<number | undefined>(selectedAnswer);
+  const [localSelected, setLocalSelected] = useState<AnswerValue | undefined>(selectedAnswer);
+  const [entry, setEntry] = useState("");
+  const [remainingMs, setRemainingMs] = useState<number | undefined>(
+    deadline !== undefined ? Math.max(0, deadline - Date.now()) : undefined,
+  );
+  const timeUp = remainingMs !== undefined && remainingMs <= 0;
 
   // Determine if this question includes an image (in stem or stimulus).
   // Simple heuristic: look for <img, <svg, or data:image in the HTML strings.
@@ -63,8 +88,21 @@ export default function QuestionDisplay({
   // Reset when question changes
   useEffect(() => {
     setLocalSelected(undefined);
+    setEntry("");
   }, [question.id]);
 
+  // Tick the countdown while a deadline is set
+  useEffect(() => {
+    if (deadline === undefined) {
+      setRemainingMs(undefined);
+      return;
+    }
+    const tick = () => setRemainingMs(Math.max(0, deadline - Date.now()));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
   // Set up image theme detection when question content changes
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -73,10 +111,21 @@ export default function QuestionDisplay({
     return () => clearTimeout(timer);
   }, [question.content.stem]);
 
-  const handleSelect = (index: number) => {
-    if (localSelected !== undefined || isWaiting) return;
-    setLocalSelected(index);
-    onAnswer(index);
+  const locked = readOnly || localSelected !== undefined || isWaiting || showResult || timeUp;
+
+  const handleSelect = (answer: AnswerValue) => {
+    // Once the round is revealed (e.g. the quorum answered first) it's too late to answer
+    if (locked) return;
+    setLocalSelected(answer);
+    onAnswer(answer);
+  };
+
+  const gridIn = isGridIn(question);
+  const entryValid = parseGridInValue(entry) !== null;
+
+  const handleGridInSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (entryValid) handleSelect(entry.trim());
   };
 
   return (
@@ -92,6 +141,16 @@ export default function QuestionDisplay({
                 {question.difficulty === 'E' ? 'Easy' : question.difficulty === 'M' ? 'Medium' : 'Hard'}
               </Badge>
             )}
+            {remainingMs !== undefined && !showResult && (
+              <Badge
+                variant="outline"
+                className={`w-fit gap-1 ${remainingMs <= 5000 ? "text-red-500" : "neon-text"}`}
+                data-testid="text-countdown"
+              >
+                <Timer className="w-3 h-3" />
+                {Math.ceil(remainingMs / 1000)}s
+              </Badge>
+            )}
             {isWaiting && (
               <div className="flex items-center gap-2 ml-auto">
                 <Loader2 className="w-4 h-4 animate-spin text-emerald-500" />
@@ -99,6 +158,9 @@ export default function QuestionDisplay({
               </div>
             )}
           </div>
+          {remainingMs !== undefined && timeLimitSeconds && !showResult && (
+            <Progress value={(remainingMs / (timeLimitSeconds * 1000)) * 100} className="h-1" />
+          )}
           <div className="question-content prose dark:prose-invert max-w-none" data-testid="text-question">
             {/* Render stimulus (passage/figure) first when present, then the stem */}
             {question.content.stimulus && (
@@ -112,18 +174,48 @@ export default function QuestionDisplay({
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {gridIn && (
+            <form onSubmit={handleGridInSubmit} className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  value={typeof localSelected === "string" ? localSelected : entry}
+                  onChange={(e) => setEntry(e.target.value)}
+                  maxLength={GRID_IN_MAX_LENGTH}
+                  inputMode="decimal"
+                  placeholder="e.g. 3/4 or .75"
+                  disabled={locked}
+                  className={`text-lg font-mono ${showResult ? (isCorrect ? "neon-border" : "border-red-500") : ""}`}
+                  data-testid="input-grid-in"
+                />
+                <Button type="submit" disabled={locked || !entryValid} data-testid="button-submit-grid-in">
+                  Submit
+                </Button>
+              </div>
+              {!locked && entry.trim() !== "" && !entryValid && (
+                <p className="text-sm text-red-500" data-testid="text-grid-in-invalid">
+                  Enter a number, decimal or fraction (up to {GRID_IN_MAX_LENGTH} characters)
+                </p>
+              )}
+              {showResult && reveal && (
+                <p className="text-sm muted" data-testid="text-accepted-answers">
+                  Accepted answers: {reveal.correct_answer.join(", ")}
+                </p>
+              )}
+            </form>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {question.content.answerOptions.map((choice, index) => {
               const isSelected = localSelected === index;
-              const isCorrectAnswer = showResult && question.content.correct_answer.includes(choice);
-              const isWrongAnswer = showResult && isSelected && !question.content.correct_answer.includes(choice);
+              const isCorrectAnswer = showResult && !!reveal?.correct_answer.includes(choice);
+              const isWrongAnswer = showResult && isSelected && !isCorrect;
 
               return (
                 <button
                   key={index}
                   data-testid={`button-choice-${index}`}
                   onClick={() => handleSelect(index)}
-                  disabled={localSelected !== undefined || isWaiting}
+                  disabled={locked}
                   className={`answer-option ${isSelected ? 'selected' : ''} 
                     ${isCorrectAnswer ? 'correct neon-border' : ''} 
                     ${isWrongAnswer ? 'incorrect' : ''}`}
@@ -148,7 +240,13 @@ export default function QuestionDisplay({
             })}
           </div>
 
-          {showResult && (
+          {timeUp && !showResult && !readOnly && localSelected === undefined && (
+            <p className="text-center font-semibold text-red-500" data-testid="text-time-up">
+              Time's up!
+            </p>
+          )}
+
+          {showResult && !readOnly && (
             <div className="pt-4 border-t border-zinc-800">
               <p
                 className={`text-center font-semibold ${
@@ -161,14 +259,14 @@ export default function QuestionDisplay({
             </div>
           )}
 
-          {showExplanation && question.content.rationale && (
+          {showExplanation && reveal?.rationale && (
             <div className="max-w-2xl mx-auto mt-4">
               <Card className="bg-zinc-950/70 border-zinc-800">
                 <CardContent className="pt-4">
                   <h3 className="font-semibold mb-2 text-emerald-500 neon-text">Explanation:</h3>
                   <div
                     className="prose prose-sm max-w-none question-content"
-                    dangerouslySetInnerHTML={{ __html: question.content.rationale }}
+                    dangerouslySetInnerHTML={{ __html: reveal.rationale }}
                   />
                 </CardContent>
               </Card>
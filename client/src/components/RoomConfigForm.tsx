@@ -0,0 +1,155 @@
+/*
+  RoomConfigForm.tsx
+
+  Compact room config form for rooms set up ahead of time: class presets
+  (`ClassPresets`) and tournament matches (`TournamentLobby`).
+  Covers modules, difficulty, question count, players, timer and
+  adaptive selection; the lobby keeps its own fuller form. Extra fields
+  (e.g. a name) are passed as children and shown first. Presentational:
+  `onSubmit` receives a complete `RoomConfig`.
+*/
+import { useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Question, RoomConfig } from "@shared/schema";
+
+interface RoomConfigFormProps {
+  // Modules offered (those with questions); none selected means all of them
+  modules: string[];
+  submitLabel: string;
+  onSubmit: (config: RoomConfig) => void;
+  disabled?: boolean;
+  // Hide the players field for rooms whose size is fixed (tournament duels)
+  showPlayers?: boolean;
+  defaultPlayers?: number;
+  children?: ReactNode;
+}
+
+const DIFFICULTIES: { value: Question["difficulty"]; label: string }[] = [
+  { value: "E", label: "Easy" },
+  { value: "M", label: "Medium" },
+  { value: "H", label: "Hard" },
+];
+
+const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+  checked ? [...list, value] : list.filter((item) => item !== value);
+
+export default function RoomConfigForm({
+  modules,
+  submitLabel,
+  onSubmit,
+  disabled = false,
+  showPlayers = true,
+  defaultPlayers = 2,
+  children,
+}: RoomConfigFormProps) {
+  const [selectedModules, setSelectedModules] = useState<string[]>([]);
+  const [difficulties, setDifficulties] = useState<Question["difficulty"][]>(["E", "M", "H"]);
+  const [numQuestions, setNumQuestions] = useState(10);
+  const [maxPlayers, setMaxPlayers] = useState(defaultPlayers);
+  // 0 = untimed
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState(0);
+  const [adaptive, setAdaptive] = useState(false);
+
+  const chosenModules = selectedModules.length > 0 ? selectedModules : modules;
+  const isValid = chosenModules.length > 0 && difficulties.length > 0;
+
+  const handleSubmit = () => {
+    if (!isValid || disabled) return;
+    onSubmit({
+      modules: chosenModules,
+      difficulties,
+      numQuestions: Math.min(50, Math.max(1, Math.round(numQuestions) || 10)),
+      maxPlayers: showPlayers ? Math.min(30, Math.max(2, Math.round(maxPlayers) || 2)) : defaultPlayers,
+      answerQuorum: 1,
+      timeLimitSeconds: timeLimitSeconds > 0 ? timeLimitSeconds : undefined,
+      speedBonus: false,
+      adaptive: adaptive || undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {children}
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div>
+          <span className="text-muted-foreground block mb-1">Modules (none = all)</span>
+          {modules.map((module) => (
+            <label key={module} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedModules.includes(module)}
+                onChange={(e) => setSelectedModules(toggle(selectedModules, module, e.target.checked))}
+              />
+              <span className="capitalize">{module}</span>
+            </label>
+          ))}
+        </div>
+        <div>
+          <span className="text-muted-foreground block mb-1">Difficulty</span>
+          {DIFFICULTIES.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={difficulties.includes(value)}
+                onChange={(e) => setDifficulties(toggle(difficulties, value, e.target.checked))}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        <label className="text-muted-foreground">
+          Questions
+          <Input
+            type="number"
+            min={1}
+            max={50}
+            value={numQuestions}
+            onChange={(e) => setNumQuestions(Number(e.target.value))}
+            data-testid="input-config-questions"
+          />
+        </label>
+        {showPlayers && (
+          <label className="text-muted-foreground">
+            Players (2 = duel)
+            <Input
+              type="number"
+              min={2}
+              max={30}
+              value={maxPlayers}
+              onChange={(e) => setMaxPlayers(Number(e.target.value))}
+              data-testid="input-config-players"
+            />
+          </label>
+        )}
+        <label className="text-muted-foreground">
+          Time per question
+          <select
+            value={timeLimitSeconds}
+            onChange={(e) => setTimeLimitSeconds(Number(e.target.value))}
+            className="block w-full rounded-md border px-2 py-2"
+            data-testid="select-config-time-limit"
+          >
+            <option value={0}>No timer</option>
+            <option value={15}>15 seconds</option>
+            <option value={30}>30 seconds</option>
+            <option value={60}>60 seconds</option>
+            <option value={90}>90 seconds</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 mt-5">
+          <input
+            type="checkbox"
+            checked={adaptive}
+            onChange={(e) => setAdaptive(e.target.checked)}
+            data-testid="checkbox-config-adaptive"
+          />
+          <span>Adaptive</span>
+        </label>
+      </div>
+      <Button onClick={handleSubmit} disabled={!isValid || disabled} data-testid="button-submit-config">
+        {submitLabel}
+      </Button>
+    </div>
+  );
+}
@@ -2,14 +2,17 @@
   ScoreBoard.tsx
 
   Displays the current scores for both players and the progress
-  (which question is currently active). This component is presentational
-  only and receives all data via props.
+  (which question is currently active). When the opponent's connection
+  drops, a banner counts down to the moment they forfeit. Spectators see
+  both players by name with whether each has locked in an answer. This
+  component is presentational only and receives all data via props.
 */
 import { Card } from "@/components/ui/card";
 import { useState, useEffect } from "react";
 import "@/styles/scoreboard.css";
 import { Badge } from "@/components/ui/badge";
-import { User, Target } from "lucide-react";
+import { Target, WifiOff } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
 
 interface ScoreBoardProps {
   playerScore: number;
@@ -18,6 +21,25 @@ interface ScoreBoardProps {
   totalQuestions: number;
   playerName?: string;
   opponentName?: string;
+  // Avatar seeds from the players' profiles
+  playerAvatar?: string;
+  opponentAvatar?: string;
+  // Local time (epoch ms) the disconnected opponent forfeits at; unset
+  // while they are connected
+  opponentForfeitsAt?: number;
+  // Captions above the names ("You" / "Opponent" for players)
+  playerLabel?: string;
+  opponentLabel?: string;
+  // Spectators: whether each player has answered the current question
+  lockedIn?: { player: boolean; opponent: boolean };
+}
+
+function LockInBadge({ locked }: { locked: boolean }) {
+  return (
+    <Badge variant={locked ? "secondary" : "outline"} className={locked ? "neon-text" : "text-muted-foreground"}>
+      {locked ? "Locked in" : "Thinking..."}
+    </Badge>
+  );
 }
 
 export default function ScoreBoard({
@@ -27,9 +49,24 @@ export default function ScoreBoard({
   totalQuestions,
   playerName = "You",
   opponentName = "Opponent",
+  playerAvatar,
+  opponentAvatar,
+  opponentForfeitsAt,
+  playerLabel = "You",
+  opponentLabel = "Opponent",
+  lockedIn,
 }: ScoreBoardProps) {
   const [playerPulse, setPlayerPulse] = useState(false);
   const [opponentPulse, setOpponentPulse] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the forfeit countdown while the opponent is away
+  useEffect(() => {
+    if (opponentForfeitsAt === undefined) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [opponentForfeitsAt]);
 
   // Pulse animation when scores change
   useEffect(() => {
@@ -55,17 +92,30 @@ export default function ScoreBoard({
           Question {currentQuestion} / {totalQuestions}
         </Badge>
       </div>
-      
+
+      {opponentForfeitsAt !== undefined && (
+        <div
+          className="flex items-center justify-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-500"
+          data-testid="banner-opponent-disconnected"
+        >
+          <WifiOff className="w-4 h-4" />
+          <span>
+            {opponentName} disconnected. They forfeit in{" "}
+            <span className="font-semibold">{Math.max(0, Math.ceil((opponentForfeitsAt - now) / 1000))}s</span>{" "}
+            unless they reconnect.
+          </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <Card className="p-6 scoreboard-card">
           <div className="flex items-center gap-3 mb-3">
-            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-              <User className="w-5 h-5 text-primary" />
-            </div>
+            <PlayerAvatar seed={playerAvatar} />
             <div className="flex-1">
-              <p className="text-sm you-label">You</p>
+              <p className="text-sm you-label">{playerLabel}</p>
               <p className="font-semibold" data-testid="text-player-name">{playerName}</p>
             </div>
+            {lockedIn && <LockInBadge locked={lockedIn.player} />}
           </div>
           <div className="text-center">
             <p className={`text-4xl font-bold score-value ${playerPulse ? 'score-pulse' : ''}`} data-testid="text-player-score">
@@ -77,13 +127,12 @@ export default function ScoreBoard({
 
   <Card className="p-6 scoreboard-card">
           <div className="flex items-center gap-3 mb-3">
-            <div className="w-10 h-10 rounded-full bg-accent/50 flex items-center justify-center">
-              <User className="w-5 h-5 text-accent-foreground" />
-            </div>
+            <PlayerAvatar seed={opponentAvatar} />
             <div className="flex-1">
-              <p className="text-sm text-muted-foreground">Opponent</p>
+              <p className="text-sm text-muted-foreground">{opponentLabel}</p>
               <p className="font-semibold" data-testid="text-opponent-name">{opponentName}</p>
             </div>
+            {lockedIn && <LockInBadge locked={lockedIn.opponent} />}
           </div>
           <div className="text-center">
             <p className={`text-4xl font-bold score-value ${opponentPulse ? 'score-pulse' : ''}`} data-testid="text-opponent-score">
@@ -0,0 +1,91 @@
+/*
+  SkillSelect.tsx
+
+  Searchable multi-select for question skills (`skill_desc`), grouped by
+  module. Used by `GameLobby` to narrow a room to specific skills; an
+  empty selection means "all skills". Presentational: the parent owns
+  the selection and passes the available skills per module.
+*/
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+
+interface SkillSelectProps {
+  // module -> skills available in it
+  skillsByModule: Record<string, string[]>;
+  selected: string[];
+  onChange: (skills: string[]) => void;
+}
+
+export default function SkillSelect({ skillsByModule, selected, onChange }: SkillSelectProps) {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (skill: string) => {
+    onChange(selected.includes(skill) ? selected.filter((s) => s !== skill) : [...selected, skill]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between"
+            data-testid="button-skill-select"
+          >
+            {selected.length > 0 ? `${selected.length} skill${selected.length === 1 ? "" : "s"} selected` : "All skills"}
+            <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-[320px]" align="start">
+          <Command>
+            <CommandInput placeholder="Search skills..." data-testid="input-skill-search" />
+            <CommandList>
+              <CommandEmpty>No skills found.</CommandEmpty>
+              {Object.entries(skillsByModule).map(([module, skills]) => (
+                <CommandGroup key={module} heading={module.charAt(0).toUpperCase() + module.slice(1)}>
+                  {skills.map((skill) => (
+                    <CommandItem
+                      key={`${module}:${skill}`}
+                      value={`${module} ${skill}`}
+                      onSelect={() => toggle(skill)}
+                      data-testid={`option-skill-${skill}`}
+                    >
+                      <Check className={`w-4 h-4 mr-2 ${selected.includes(skill) ? "opacity-100" : "opacity-0"}`} />
+                      {skill}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map((skill) => (
+            <Badge key={skill} variant="secondary" className="gap-1">
+              {skill}
+              <button type="button" onClick={() => toggle(skill)} aria-label={`Remove ${skill}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+/*
+  SpectatorView.tsx
+
+  Read-only view of a live room for spectators, e.g. a duel projected in
+  class. Follows the room through every stage: the players waiting to
+  start, then the current question (`QuestionDisplay` in read-only mode,
+  revealing the correct choice once the round resolves) under the live
+  scores with each player's lock-in status (`ScoreBoard` for duels,
+  `Leaderboard` for classroom rooms), then the final result.
+
+  Spectators never join the room, so they don't take a seat or count as
+  present, and the server rejects any write from them. Like players they
+  get the redacted room, so lock-in status comes from `answeredPlayers`
+  and nobody's pick is visible before the reveal. Presentational:
+  `Home` subscribes to the room and loads its questions.
+*/
+import { useMemo } from "react";
+import { Eye, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import ScoreBoard from "@/components/ScoreBoard";
+import Leaderboard from "@/components/Leaderboard";
+import QuestionDisplay from "@/components/QuestionDisplay";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import { answeredPlayers, getStandings } from "@shared/gameRules";
+import type { GameRoom, RedactedQuestion } from "@shared/schema";
+
+interface SpectatorViewProps {
+  roomCode: string;
+  // null until the first update arrives
+  room: GameRoom | null;
+  questions: RedactedQuestion[];
+  // Room clock minus local clock, to show the question deadline
+  clockOffsetMs?: number;
+  onLeave: () => void;
+}
+
+export default function SpectatorView({ roomCode, room, questions, clockOffsetMs = 0, onLeave }: SpectatorViewProps) {
+  const standings = useMemo(() => (room ? getStandings(room) : []), [room?.players, room?.scores]);
+
+  const header = (
+    <div className="max-w-4xl mx-auto px-4 flex items-center gap-3">
+      <Eye className="w-5 h-5 neon-text" />
+      <span className="flex-1 neon-heading" data-testid="text-spectating">
+        Watching room <span className="font-mono font-bold">{roomCode}</span>
+      </span>
+      <Button variant="outline" className="neon-hover neon-text" onClick={onLeave} data-testid="button-stop-watching">
+        Stop watching
+      </Button>
+    </div>
+  );
+
+  if (!room) {
+    return (
+      <div className="min-h-screen bg-gradient-dark py-8 space-y-6">
+        {header}
+        <div className="flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin neon-text" />
+        </div>
+      </div>
+    );
+  }
+
+  const isDuel = room.config.maxPlayers <= 2;
+  const [first, second] = room.players;
+  const answeredIds = answeredPlayers(room);
+  const safeIndex = Math.max(0, Math.min(room.currentQuestion, questions.length - 1));
+  const question = questions[safeIndex];
+  const reveal = room.roundResults
+    ? room.rounds?.find((round) => round.questionId === question?.id)?.reveal
+    : undefined;
+  const nameOf = (playerId?: string) => (playerId ? room.profiles?.[playerId]?.displayName : undefined);
+
+  const board = isDuel ? (
+    <ScoreBoard
+      playerScore={first ? room.scores[first] ?? 0 : 0}
+      opponentScore={second ? room.scores[second] ?? 0 : 0}
+      currentQuestion={safeIndex + 1}
+      totalQuestions={room.questions.length}
+      playerName={nameOf(first) ?? "Waiting..."}
+      opponentName={nameOf(second) ?? "Waiting..."}
+      playerAvatar={first ? room.profiles?.[first]?.avatar : undefined}
+      opponentAvatar={second ? room.profiles?.[second]?.avatar : undefined}
+      playerLabel="Player 1"
+      opponentLabel="Player 2"
+      lockedIn={
+        room.started && !room.finished
+          ? { player: answeredIds.includes(first ?? ""), opponent: answeredIds.includes(second ?? "") }
+          : undefined
+      }
+    />
+  ) : (
+    <Leaderboard
+      standings={standings}
+      playerId=""
+      currentQuestion={safeIndex + 1}
+      totalQuestions={room.questions.length}
+      answeredIds={answeredIds}
+    />
+  );
+
+  if (!room.started) {
+    return (
+      <div className="min-h-screen bg-gradient-dark py-8 space-y-6">
+        {header}
+        <Card className="neon-container max-w-2xl mx-auto">
+          <CardContent className="p-6 space-y-4 text-center">
+            <p className="text-lg neon-text" data-testid="text-spectator-waiting">
+              Waiting for the game to start ({room.players.length}/{room.config.maxPlayers} players)
+            </p>
+            <ul className="flex flex-wrap justify-center gap-3">
+              {room.players.map((playerId) => (
+                <li key={playerId} className="flex items-center gap-2">
+                  <PlayerAvatar seed={room.profiles?.[playerId]?.avatar} size={28} />
+                  <span>{nameOf(playerId) ?? "Player"}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (room.finished) {
+    const winners = standings.filter((standing) => standing.rank === 1);
+    const forfeitWinner = room.forfeitedBy ? room.players.find((id) => id !== room.forfeitedBy) : undefined;
+    const result = forfeitWinner
+      ? `${nameOf(forfeitWinner) ?? "A player"} wins by forfeit`
+      : winners.length === 1
+        ? `${winners[0].displayName || "A player"} wins!`
+        : "It's a tie!";
+    return (
+      <div className="min-h-screen bg-gradient-dark py-8 space-y-6">
+        {header}
+        <p className="text-center text-2xl font-bold neon-heading" data-testid="text-spectator-result">
+          Game over: {result}
+        </p>
+        {board}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-dark py-8 space-y-6">
+      {header}
+      {board}
+      {question ? (
+        <QuestionDisplay
+          question={question}
+          onAnswer={() => {}}
+          readOnly
+          showResult={Boolean(room.roundResults)}
+          reveal={reveal}
+          // Convert the room clock deadline to the local clock
+          deadline={room.questionDeadline !== undefined ? room.questionDeadline - clockOffsetMs : undefined}
+          timeLimitSeconds={room.config.timeLimitSeconds}
+        />
+      ) : (
+        <div className="flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin neon-text" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/*
+  StudentProgressList.tsx
+
+  Teacher dashboard view of a class's students: one row per student with
+  games played, wins, overall accuracy and rating. Opening a row shows
+  accuracy per skill (weakest first) and the student's recent games.
+  Figures cover each student's latest saved matches (see
+  `server/classes.ts`). Presentational only.
+*/
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import type { StudentProgress } from "@shared/schema";
+
+interface StudentProgressListProps {
+  students: StudentProgress[];
+}
+
+function percent(correct: number, attempts: number) {
+  return attempts === 0 ? 0 : Math.round((correct / attempts) * 100);
+}
+
+export default function StudentProgressList({ students }: StudentProgressListProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (students.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-students">
+        No students yet. Students join by entering one of this class's access codes.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-zinc-800" data-testid="list-students">
+      {students.map((student) => {
+        const isOpen = openId === student.userId;
+        return (
+          <li key={student.userId} className="py-2" data-testid={`row-student-${student.userId}`}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-3 text-left"
+              onClick={() => setOpenId(isOpen ? null : student.userId)}
+              data-testid={`button-student-${student.userId}`}
+            >
+              {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              <PlayerAvatar seed={student.avatar ?? undefined} size={28} />
+              <span className="flex-1 truncate">
+                {student.displayName ?? student.username}
+                <span className="block text-xs text-muted-foreground">@{student.username}</span>
+              </span>
+              <span className="text-sm text-muted-foreground w-24 text-right">
+                {student.matchesPlayed} games · {student.wins} won
+              </span>
+              <span className="w-14 text-right font-bold neon-text">
+                {student.attempts > 0 ? `${percent(student.correct, student.attempts)}%` : "–"}
+              </span>
+              <Badge variant="outline">{student.rating}</Badge>
+            </button>
+
+            {isOpen && (
+              <div className="mt-3 ml-7 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Accuracy by skill</p>
+                  {student.skills.length === 0 && <p className="text-sm muted">No answers yet.</p>}
+                  <div className="space-y-2">
+                    {student.skills.map(({ skill, correct, attempts }) => (
+                      <div key={skill} className="text-sm" data-testid={`skill-${student.userId}-${skill || "other"}`}>
+                        <div className="flex justify-between">
+                          <span className="truncate">{skill || "Other"}</span>
+                          <span className="text-muted-foreground">
+                            {correct}/{attempts} ({percent(correct, attempts)}%)
+                          </span>
+                        </div>
+                        <Progress value={percent(correct, attempts)} className="h-2" />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Recent games</p>
+                  {student.recentMatches.length === 0 && <p className="text-sm muted">No games yet.</p>}
+                  <ul className="space-y-1 text-sm">
+                    {student.recentMatches.map((match) => (
+                      <li key={match.matchId} className="flex items-center gap-2" data-testid={`match-${match.matchId}`}>
+                        <span className="text-muted-foreground w-24">{new Date(match.finishedAt).toLocaleDateString()}</span>
+                        <span className="flex-1">
+                          #{match.rank} of {match.playerCount}
+                          {match.ranked && " · ranked"}
+                        </span>
+                        <span>
+                          {match.correct}/{match.questions} correct
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
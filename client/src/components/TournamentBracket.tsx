@@ -0,0 +1,162 @@
+/*
+  TournamentBracket.tsx
+
+  Bracket of a running or finished tournament. Elimination formats show
+  one column per round for the winners bracket, then the losers bracket
+  and the grand final (double elimination); Swiss shows the standings
+  (points, then Buchholz, see `shared/brackets.ts`) above its rounds.
+  Each match lists both players with their scores, highlighting the
+  winner. The signed-in player's open match gets a Play button.
+  Presentational: the parent opens the match room.
+*/
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Play } from "lucide-react";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import { swissStandings } from "@shared/brackets";
+import type { Tournament, TournamentFormat, TournamentMatch } from "@shared/schema";
+
+interface TournamentBracketProps {
+  tournament: Tournament;
+  currentUserId: string;
+  onPlay: (match: TournamentMatch) => void;
+}
+
+export const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+  swiss: "Swiss",
+};
+
+const BRACKET_TITLES: Record<TournamentMatch["bracket"], string> = {
+  winners: "Winners bracket",
+  losers: "Losers bracket",
+  final: "Grand final",
+  swiss: "Rounds",
+};
+
+function roundsOf(matches: TournamentMatch[]): TournamentMatch[][] {
+  const rounds = new Map<number, TournamentMatch[]>();
+  for (const match of matches) rounds.set(match.round, [...(rounds.get(match.round) ?? []), match]);
+  return Array.from(rounds.keys())
+    .sort((a, b) => a - b)
+    .map((round) => rounds.get(round)!);
+}
+
+export default function TournamentBracket({ tournament, currentUserId, onPlay }: TournamentBracketProps) {
+  const nameOf = (playerId: string) => tournament.profiles[playerId]?.displayName ?? "Player";
+  const seedOf = (playerId: string) => tournament.players.indexOf(playerId) + 1;
+
+  const renderSlot = (match: TournamentMatch, playerId: string | null) => {
+    if (!playerId) {
+      return (
+        <div className="flex items-center gap-2 px-2 py-1 text-muted-foreground italic">
+          {match.status === "finished" ? "Bye" : "TBD"}
+        </div>
+      );
+    }
+    const won = match.status === "finished" && match.winnerId === playerId;
+    const lost = match.status === "finished" && match.winnerId !== playerId;
+    return (
+      <div className={`flex items-center gap-2 px-2 py-1 ${won ? "neon-text font-semibold" : ""} ${lost ? "opacity-60" : ""}`}>
+        <span className="w-5 text-xs text-muted-foreground">{seedOf(playerId)}</span>
+        <PlayerAvatar seed={tournament.profiles[playerId]?.avatar} size={20} />
+        <span className="flex-1 truncate">
+          {nameOf(playerId)}
+          {playerId === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+        </span>
+        <span className="w-6 text-right">{match.scores?.[playerId] ?? ""}</span>
+      </div>
+    );
+  };
+
+  const renderMatch = (match: TournamentMatch) => {
+    const canPlay = match.status === "playing" && match.roomId && match.players.includes(currentUserId);
+    return (
+      <div key={match.id} className="rounded-md border border-zinc-800 text-sm w-56" data-testid={`card-match-${match.id}`}>
+        <div className="flex items-center justify-between px-2 py-1 border-b border-zinc-800 text-xs text-muted-foreground">
+          <span>{match.id}</span>
+          {match.status === "playing" && <Badge variant="secondary">Live</Badge>}
+          {match.walkover && match.players[0] && match.players[1] && <span>walkover</span>}
+          {match.status === "finished" && match.winnerId === null && match.players[1] && <span>draw</span>}
+        </div>
+        {renderSlot(match, match.players[0])}
+        {renderSlot(match, match.players[1])}
+        {canPlay && (
+          <div className="p-2 border-t border-zinc-800">
+            <Button size="sm" className="w-full" onClick={() => onPlay(match)} data-testid={`button-play-${match.id}`}>
+              <Play className="w-4 h-4 mr-1" />
+              Play your match
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderRounds = (matches: TournamentMatch[], label: (round: number) => string) => (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {roundsOf(matches).map((round) => (
+        <div key={round[0].round} className="space-y-3 shrink-0">
+          <div className="text-xs uppercase tracking-wide text-muted-foreground">{label(round[0].round)}</div>
+          {round.map(renderMatch)}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (tournament.format === "swiss") {
+    const standings = swissStandings(tournament);
+    return (
+      <div className="space-y-6" data-testid="bracket-swiss">
+        <table className="w-full text-sm" data-testid="table-standings">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1">#</th>
+              <th>Player</th>
+              <th className="text-right">Points</th>
+              <th className="text-right">Buchholz</th>
+              <th className="text-right">W-D-L</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((standing, index) => (
+              <tr key={standing.playerId} className="border-t border-zinc-800" data-testid={`row-standing-${standing.playerId}`}>
+                <td className="py-1">{index + 1}</td>
+                <td className={standing.playerId === currentUserId ? "neon-text" : ""}>{nameOf(standing.playerId)}</td>
+                <td className="text-right font-semibold">{standing.points}</td>
+                <td className="text-right">{standing.buchholz}</td>
+                <td className="text-right">
+                  {standing.wins}-{standing.draws}-{standing.losses}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div>
+          <h3 className="font-semibold neon-heading mb-2">
+            {BRACKET_TITLES.swiss} ({tournament.swissRounds ?? "?"} in total)
+          </h3>
+          {renderRounds(tournament.matches, (round) => `Round ${round}`)}
+        </div>
+      </div>
+    );
+  }
+
+  const brackets = (["winners", "losers", "final"] as const)
+    .map((bracket) => ({ bracket, matches: tournament.matches.filter((match) => match.bracket === bracket) }))
+    .filter(({ matches }) => matches.length > 0);
+
+  return (
+    <div className="space-y-6" data-testid="bracket-elimination">
+      {brackets.map(({ bracket, matches }) => (
+        <div key={bracket}>
+          <h3 className="font-semibold neon-heading mb-2">
+            {tournament.format === "single_elimination" ? "Bracket" : BRACKET_TITLES[bracket]}
+          </h3>
+          {renderRounds(matches, (round) => (bracket === "final" ? (round === 1 ? "Final" : "Reset") : `Round ${round}`))}
+        </div>
+      ))}
+    </div>
+  );
+}
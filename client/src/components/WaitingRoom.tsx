@@ -2,25 +2,48 @@
   WaitingRoom.tsx
 
   Simple UI shown after a room is created and the first player is waiting
-  for an opponent to join. This component is purely presentational and
-  exposes an `onCancel` callback to allow the parent to clean up the room.
+  for an opponent to join. It lists who has joined (name and avatar from
+  `profiles`), and for classroom rooms (`maxPlayers` > 2) lets the host
+  start the game via `onStart`. The host can also fill empty seats with
+  bots through `onAddBot`.
+  This component is purely presentational and exposes an `onCancel`
+  callback to allow the parent to clean up the room.
   It also provides an easy "copy room code" affordance using the
   browser clipboard API so the player can share the code with a friend.
 */
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Users, Copy, Loader2 } from "lucide-react";
+import { Users, Copy, Loader2, Play, Bot } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import type { BotLevel, PlayerProfile } from "@shared/schema";
 
 interface WaitingRoomProps {
   roomCode: string;
   onCancel: () => void;
+  players?: string[];
+  profiles?: Record<string, PlayerProfile>;
+  maxPlayers?: number;
+  isHost?: boolean;
+  onStart?: () => void;
+  onAddBot?: (level: BotLevel) => void;
 }
 
-export default function WaitingRoom({ roomCode, onCancel }: WaitingRoomProps) {
+export default function WaitingRoom({
+  roomCode,
+  onCancel,
+  players = [],
+  profiles = {},
+  maxPlayers = 2,
+  isHost = false,
+  onStart,
+  onAddBot,
+}: WaitingRoomProps) {
+  const isClassroom = maxPlayers > 2;
   const [copied, setCopied] = useState(false);
+  const [botLevel, setBotLevel] = useState<BotLevel>("medium");
   const { toast } = useToast();
 
   const handleCopy = () => {
@@ -42,9 +65,13 @@ export default function WaitingRoom({ roomCode, onCancel }: WaitingRoomProps) {
               <Users className="w-8 h-8" style={{ color: 'var(--cyber-primary)' }} />
             </div>
           </div>
-          <CardTitle className="text-2xl neon-heading">Waiting for Opponent</CardTitle>
+          <CardTitle className="text-2xl neon-heading">
+            {isClassroom ? "Waiting for Players" : "Waiting for Opponent"}
+          </CardTitle>
           <CardDescription className="muted">
-            Share the room code with your opponent to start the duel
+            {isClassroom
+              ? "Share the room code with your group; the host starts the battle"
+              : "Share the room code with your opponent to start the duel"}
           </CardDescription>
         </CardHeader>
   <CardContent className="space-y-6">
@@ -70,13 +97,71 @@ export default function WaitingRoom({ roomCode, onCancel }: WaitingRoomProps) {
             </div>
           </div>
 
+          {players.length > 0 && (
+            <div className="space-y-2">
+              {isClassroom && (
+                <p className="text-sm muted text-center" data-testid="text-player-count">
+                  {players.length} / {maxPlayers} players
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2 justify-center max-h-32 overflow-auto">
+                {players.map((id) => (
+                  <Badge
+                    key={id}
+                    variant="outline"
+                    className="badge-accent gap-2 py-1"
+                    data-testid={`badge-player-${id}`}
+                  >
+                    <PlayerAvatar seed={profiles[id]?.avatar} size={20} />
+                    {profiles[id]?.displayName ?? id}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex items-center justify-center gap-2 py-4">
             <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'var(--cyber-primary)' }} />
             <p className="text-sm muted" data-testid="text-waiting">
-              Waiting for player to join...
+              {isClassroom && !isHost ? "Waiting for the host to start..." : "Waiting for player to join..."}
             </p>
           </div>
 
+          {isHost && onAddBot && players.length < maxPlayers && (
+            <div className="flex items-center gap-2">
+              <select
+                value={botLevel}
+                onChange={(e) => setBotLevel(e.target.value as BotLevel)}
+                className="rounded-md border px-2 py-2 flex-1"
+                data-testid="select-bot-level"
+              >
+                <option value="easy">Easy bot</option>
+                <option value="medium">Medium bot</option>
+                <option value="hard">Hard bot</option>
+              </select>
+              <Button
+                data-testid="button-add-bot"
+                variant="secondary"
+                onClick={() => onAddBot(botLevel)}
+              >
+                <Bot className="w-4 h-4 mr-2" />
+                Add Bot
+              </Button>
+            </div>
+          )}
+
+          {isClassroom && isHost && (
+            <Button
+              data-testid="button-start-game"
+              onClick={onStart}
+              className="w-full"
+              disabled={players.length < 2}
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Start Game
+            </Button>
+          )}
+
           <Button
             data-testid="button-cancel"
             onClick={onCancel}
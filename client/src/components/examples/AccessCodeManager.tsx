@@ -0,0 +1,19 @@
+import AccessCodeManager from '../AccessCodeManager';
+
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+export default function AccessCodeManagerExample() {
+  return (
+    <div className="p-4 bg-background max-w-lg">
+      <AccessCodeManager
+        codes={[
+          { id: '1', code: 'K7M2QX', label: 'Period 3 Algebra', expiresAt: tomorrow, maxUses: 30, uses: 12, revoked: false, createdBy: 'admin', createdAt: yesterday, classId: null },
+          { id: '2', code: '4821', label: 'SAT Club', expiresAt: yesterday, maxUses: null, uses: 18, revoked: false, createdBy: 'admin', createdAt: yesterday, classId: null },
+        ]}
+        onIssue={(request) => console.log('Issue code:', request)}
+        onRevoke={(id) => console.log('Revoke code:', id)}
+      />
+    </div>
+  );
+}
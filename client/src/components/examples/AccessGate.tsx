@@ -0,0 +1,10 @@
+import AccessGate from '../AccessGate';
+
+export default function AccessGateExample() {
+  return (
+    <AccessGate
+      onSubmit={(code) => console.log('Access code submitted:', code)}
+      error="This access code is invalid, expired or used up"
+    />
+  );
+}
@@ -0,0 +1,23 @@
+import ClassPresets from '../ClassPresets';
+
+export default function ClassPresetsExample() {
+  return (
+    <div className="p-4 bg-background max-w-2xl">
+      <ClassPresets
+        presets={[
+          {
+            name: 'Warm-up',
+            config: { modules: ['math'], difficulties: ['E'], numQuestions: 5, maxPlayers: 30, answerQuorum: 1, speedBonus: false },
+          },
+          {
+            name: 'Friday battle',
+            config: { modules: ['math', 'reading'], difficulties: ['M', 'H'], numQuestions: 15, maxPlayers: 30, answerQuorum: 0.75, timeLimitSeconds: 30, speedBonus: false, adaptive: true },
+          },
+        ]}
+        modules={['math', 'reading']}
+        onSave={(presets) => console.log('Save presets:', presets)}
+        onStart={(preset) => console.log('Start room from:', preset.name)}
+      />
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import GameLobby from '../GameLobby';
 export default function GameLobbyExample() {
   return (
     <GameLobby
-      onCreateRoom={(code) => console.log('Create room:', code)}
+      onCreateRoom={(config) => console.log('Create room:', config)}
       onJoinRoom={(code) => console.log('Join room:', code)}
     />
   );
@@ -6,8 +6,15 @@ export default function GameOverExample() {
       playerScore={8}
       opponentScore={6}
       totalQuestions={10}
+      playerName="Ada"
+      opponentName="Challenger"
+      playerAvatar="k3j9x2ab"
+      opponentAvatar="q8w7e6rt"
       onPlayAgain={() => console.log('Play again clicked')}
       onNewRoom={() => console.log('New room clicked')}
+      onReview={() => console.log('Review clicked')}
+      ratingChange={{ before: 1200, after: 1216 }}
+      rematch={{ requested: false, requestedBy: ['Challenger'] }}
     />
   );
 }
@@ -0,0 +1,38 @@
+import GameReview from '../GameReview';
+
+export default function GameReviewExample() {
+  return (
+    <GameReview
+      questions={[
+        {
+          id: 'q1',
+          module: 'math',
+          difficulty: 'M',
+          skill_desc: 'Linear equations in one variable',
+          content: {
+            stem: '<p>If 3x + 2 = 11, what is x?</p>',
+            answerOptions: ['2', '3', '4', '5'],
+          },
+        },
+      ]}
+      rounds={[
+        {
+          questionId: 'q1',
+          answers: { player_1: 1, player_2: 0 },
+          correct: { player_1: true, player_2: false },
+          timesMs: { player_1: 4200, player_2: 6100 },
+          points: { player_1: 1, player_2: 0 },
+          reveal: {
+            questionId: 'q1',
+            correct_answer: ['3'],
+            rationale: '<p>Subtract 2 from both sides and divide by 3.</p>',
+          },
+        },
+      ]}
+      players={['player_1', 'player_2']}
+      profiles={{ player_2: { displayName: 'Challenger', avatar: 'q8w7e6rt' } }}
+      playerId="player_1"
+      onBack={() => console.log('Back clicked')}
+    />
+  );
+}
@@ -0,0 +1,20 @@
+import Leaderboard from '../Leaderboard';
+
+export default function LeaderboardExample() {
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <Leaderboard
+        standings={[
+          { playerId: 'player_1', score: 6, rank: 1, displayName: 'Ada', avatar: 'k3j9x2ab' },
+          { playerId: 'player_2', score: 5, rank: 2 },
+          { playerId: 'player_3', score: 5, rank: 2 },
+          { playerId: 'player_4', score: 2, rank: 4 },
+        ]}
+        playerId="player_3"
+        currentQuestion={8}
+        totalQuestions={10}
+        answeredIds={['player_1', 'player_3']}
+      />
+    </div>
+  );
+}
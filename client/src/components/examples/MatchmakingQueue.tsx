@@ -0,0 +1,11 @@
+import MatchmakingQueue from '../MatchmakingQueue';
+
+export default function MatchmakingQueueExample() {
+  return (
+    <MatchmakingQueue
+      rating={1234}
+      queuedAt={Date.now() - 17000}
+      onCancel={() => console.log('Cancel clicked')}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+import PlayerAvatar from '../PlayerAvatar';
+
+export default function PlayerAvatarExample() {
+  return (
+    <div className="flex gap-4 p-4 bg-background">
+      <PlayerAvatar seed="k3j9x2ab" />
+      <PlayerAvatar seed="q8w7e6rt" size={64} />
+      <PlayerAvatar />
+    </div>
+  );
+}
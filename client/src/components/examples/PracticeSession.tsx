@@ -0,0 +1,30 @@
+import PracticeSession from '../PracticeSession';
+
+export default function PracticeSessionExample() {
+  return (
+    <PracticeSession
+      questions={[
+        {
+          id: 'q1',
+          module: 'math',
+          difficulty: 'E',
+          skill_desc: 'Linear equations in one variable',
+          content: {
+            stem: '<p>If 3x + 2 = 11, what is x?</p>',
+            answerOptions: ['2', '3', '4', '5'],
+          },
+        },
+      ]}
+      checkAnswer={async (questionId, answer) => ({
+        correct: answer === 1,
+        reveal: {
+          questionId,
+          correct_answer: ['3'],
+          rationale: '<p>Subtract 2 from both sides and divide by 3.</p>',
+        },
+      })}
+      onRestart={() => console.log('Restart clicked')}
+      onExit={() => console.log('Exit clicked')}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+import ProfileSetup from '../ProfileSetup';
+
+export default function ProfileSetupExample() {
+  return (
+    <ProfileSetup
+      initialProfile={{ displayName: 'Ada' }}
+      onSave={(profile) => console.log('Save profile', profile)}
+      onCancel={() => console.log('Cancel clicked')}
+    />
+  );
+}
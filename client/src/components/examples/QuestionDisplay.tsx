@@ -1,12 +1,20 @@
 import QuestionDisplay from '../QuestionDisplay';
-import { satQuestions } from '@shared/questions';
 
 export default function QuestionDisplayExample() {
   return (
     <div className="min-h-screen bg-background py-8">
       <QuestionDisplay
-        question={satQuestions[0]}
-        onAnswer={(index) => console.log('Selected answer:', index)}
+        question={{
+          id: 'example',
+          module: 'math',
+          difficulty: 'M',
+          skill_desc: 'Linear equations in one variable',
+          content: {
+            stem: '<p>If 3x + 5 = 14, what is the value of x?</p>',
+            answerOptions: ['2', '3', '4', '5'],
+          },
+        }}
+        onAnswer={(answer) => console.log('Selected answer:', answer)}
       />
     </div>
   );
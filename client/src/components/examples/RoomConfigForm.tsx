@@ -0,0 +1,13 @@
+import RoomConfigForm from '../RoomConfigForm';
+
+export default function RoomConfigFormExample() {
+  return (
+    <div className="p-4 bg-background max-w-md">
+      <RoomConfigForm
+        modules={['math', 'reading']}
+        submitLabel="Save"
+        onSubmit={(config) => console.log('Config:', config)}
+      />
+    </div>
+  );
+}
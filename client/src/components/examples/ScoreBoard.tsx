@@ -8,8 +8,11 @@ export default function ScoreBoardExample() {
         opponentScore={5}
         currentQuestion={8}
         totalQuestions={10}
-        playerName="You"
+        playerName="Ada"
         opponentName="Challenger"
+        playerAvatar="k3j9x2ab"
+        opponentAvatar="q8w7e6rt"
+        opponentForfeitsAt={Date.now() + 20_000}
       />
     </div>
   );
@@ -0,0 +1,19 @@
+import { useState } from 'react';
+import SkillSelect from '../SkillSelect';
+
+export default function SkillSelectExample() {
+  const [selected, setSelected] = useState<string[]>(['Linear equations in one variable']);
+
+  return (
+    <div className="p-4 bg-background max-w-sm">
+      <SkillSelect
+        skillsByModule={{
+          math: ['Linear equations in one variable', 'Nonlinear functions'],
+          reading: ['Central Ideas and Details', 'Words in Context'],
+        }}
+        selected={selected}
+        onChange={setSelected}
+      />
+    </div>
+  );
+}
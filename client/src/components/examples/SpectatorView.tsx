@@ -0,0 +1,30 @@
+import SpectatorView from '../SpectatorView';
+
+export default function SpectatorViewExample() {
+  return (
+    <SpectatorView
+      roomCode="4821"
+      room={{
+        roomId: '4821',
+        currentQuestion: 2,
+        started: true,
+        finished: false,
+        players: ['p1', 'p2'],
+        scores: { p1: 2, p2: 1 },
+        answered: ['p1'],
+        questions: ['q1', 'q2', 'q3'],
+        config: { modules: ['math'], difficulties: ['M'], numQuestions: 3, maxPlayers: 2, answerQuorum: 1, speedBonus: false },
+        profiles: {
+          p1: { displayName: 'Ada', avatar: 'k3j9x2ab' },
+          p2: { displayName: 'Grace', avatar: 'q8w7e6rt' },
+        },
+      }}
+      questions={[
+        { id: 'q1', module: 'math', difficulty: 'M', content: { stem: '<p>What is 2 + 2?</p>', answerOptions: ['3', '4', '5', '6'] } },
+        { id: 'q2', module: 'math', difficulty: 'M', content: { stem: '<p>What is 3 × 3?</p>', answerOptions: ['6', '8', '9', '12'] } },
+        { id: 'q3', module: 'math', difficulty: 'M', content: { stem: '<p>What is 10 − 4?</p>', answerOptions: ['4', '5', '6', '7'] } },
+      ]}
+      onLeave={() => console.log('Stop watching')}
+    />
+  );
+}
@@ -0,0 +1,50 @@
+import StudentProgressList from '../StudentProgressList';
+
+const now = Date.now();
+const day = 24 * 60 * 60 * 1000;
+
+export default function StudentProgressListExample() {
+  return (
+    <div className="p-4 bg-background max-w-3xl">
+      <StudentProgressList
+        students={[
+          {
+            userId: 'u1',
+            username: 'ada',
+            displayName: 'Ada',
+            avatar: 'k3j9x2ab',
+            rating: 1264,
+            joinedAt: now - 7 * day,
+            matchesPlayed: 6,
+            wins: 4,
+            correct: 41,
+            attempts: 55,
+            skills: [
+              { skill: 'Nonlinear functions', correct: 4, attempts: 9 },
+              { skill: 'Linear equations in one variable', correct: 14, attempts: 16 },
+              { skill: '', correct: 23, attempts: 30 },
+            ],
+            recentMatches: [
+              { matchId: 'm1', roomId: '4821', finishedAt: now - day, playerCount: 2, score: 8, rank: 1, correct: 8, questions: 10, ranked: true },
+              { matchId: 'm2', roomId: 'K7M2Q', finishedAt: now - 2 * day, playerCount: 24, score: 5, rank: 6, correct: 5, questions: 10, ranked: false },
+            ],
+          },
+          {
+            userId: 'u2',
+            username: 'grace_h',
+            displayName: null,
+            avatar: null,
+            rating: 1200,
+            joinedAt: now - day,
+            matchesPlayed: 0,
+            wins: 0,
+            correct: 0,
+            attempts: 0,
+            skills: [],
+            recentMatches: [],
+          },
+        ]}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import TournamentBracket from '../TournamentBracket';
+
+export default function TournamentBracketExample() {
+  return (
+    <div className="p-4 bg-background">
+      <TournamentBracket
+        tournament={{
+          id: 't1',
+          name: 'Spring cup',
+          format: 'single_elimination',
+          config: { modules: ['math'], difficulties: ['M', 'H'], numQuestions: 5, maxPlayers: 2, answerQuorum: 1, speedBonus: false },
+          hostId: 'p1',
+          status: 'running',
+          maxPlayers: 8,
+          players: ['p1', 'p2', 'p3'],
+          profiles: {
+            p1: { displayName: 'Ada', avatar: 'k3j9x2ab' },
+            p2: { displayName: 'Grace', avatar: 'q8w7e6rt' },
+            p3: { displayName: 'Alan', avatar: 'z1x2c3v4' },
+          },
+          ratings: { p1: 1320, p2: 1250, p3: 1180 },
+          matches: [
+            { id: 'W1-1', bracket: 'winners', round: 1, players: ['p1', null], status: 'finished', winnerId: 'p1', loserId: null, walkover: true },
+            { id: 'W1-2', bracket: 'winners', round: 1, players: ['p2', 'p3'], status: 'finished', scores: { p2: 4, p3: 3 }, winnerId: 'p2', loserId: 'p3' },
+            { id: 'W2-1', bracket: 'winners', round: 2, players: ['p1', 'p2'], status: 'playing', roomId: 'ABC123' },
+          ],
+          createdAt: Date.now() - 600_000,
+          startedAt: Date.now() - 300_000,
+        }}
+        currentUserId="p1"
+        onPlay={(match) => console.log('Play match:', match.id)}
+      />
+    </div>
+  );
+}
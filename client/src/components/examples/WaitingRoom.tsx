@@ -5,6 +5,9 @@ export default function WaitingRoomExample() {
     <WaitingRoom
       roomCode="4287"
       onCancel={() => console.log('Cancel clicked')}
+      players={['player_1']}
+      isHost
+      onAddBot={(level) => console.log('Add bot', level)}
     />
   );
 }
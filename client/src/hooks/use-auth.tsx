@@ -0,0 +1,111 @@
+/*
+  use-auth.tsx
+
+  Auth context for the signed-in account. `AuthProvider` loads the
+  current user from `GET /api/user` (null when signed out) and exposes
+  login / register / logout / profile mutations that keep that query in
+  sync.
+  The account id doubles as the player id in game rooms.
+*/
+import { createContext, type ReactNode, useContext } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser, InsertUser, PlayerProfile } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  updateProfileMutation: UseMutationResult<PublicUser, Error, PlayerProfile>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSignedIn = (user: PublicUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Login failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Registration failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (profile: PlayerProfile) => {
+      const res = await apiRequest("PATCH", "/api/user/profile", profile);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Could not save profile", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+        updateProfileMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
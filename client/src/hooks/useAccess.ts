@@ -0,0 +1,57 @@
+/*
+  useAccess.ts
+
+  React Query hooks around the access gate (`/api/access`, see
+  `server/access.ts`). `useAccess` tells `Home` whether this session may
+  play and redeems codes; `useAccessCodes` lists, issues and revokes
+  codes for admins.
+*/
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { AccessCode, AccessStatus, CreateAccessCodeRequest } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const ACCESS_KEY = ["/api/access"];
+const ACCESS_CODES_KEY = ["/api/access/codes"];
+
+export function useAccess() {
+  const { data: status, isLoading } = useQuery<AccessStatus>({ queryKey: ACCESS_KEY, staleTime: 0 });
+
+  const redeemMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/access", { code });
+      return (await res.json()) as AccessStatus;
+    },
+    onSuccess: (next) => {
+      queryClient.setQueryData(ACCESS_KEY, next);
+      // Queries made while the gate was closed failed with 403
+      queryClient.invalidateQueries({ predicate: (query) => query.state.status === "error" });
+    },
+  });
+
+  return { status, isLoading, redeemMutation };
+}
+
+// Dates arrive as ISO strings
+export type AccessCodeView = Omit<AccessCode, "expiresAt" | "createdAt"> & { expiresAt: string; createdAt: string };
+
+export function useAccessCodes(enabled: boolean) {
+  const { data: codes = [], isLoading } = useQuery<AccessCodeView[]>({ queryKey: ACCESS_CODES_KEY, enabled });
+
+  const issueMutation = useMutation({
+    mutationFn: async (request: CreateAccessCodeRequest) => {
+      const res = await apiRequest("POST", "/api/access/codes", request);
+      return (await res.json()) as AccessCodeView;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ACCESS_CODES_KEY }),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/access/codes/${id}`);
+      return (await res.json()) as AccessCodeView;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ACCESS_CODES_KEY }),
+  });
+
+  return { codes, isLoading, issueMutation, revokeMutation };
+}
@@ -0,0 +1,48 @@
+/*
+  useClasses.ts
+
+  React Query hooks for the teacher dashboard (`/api/classes`, see
+  `server/classes.ts`). `useClasses` lists and creates the teacher's
+  classes; `useClassProgress` loads one class with its students'
+  progress and saves its room presets.
+*/
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { ClassProgress, ClassSummary, RoomPreset } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const CLASSES_KEY = ["/api/classes"];
+
+export function useClasses() {
+  const { data: classes = [], isLoading } = useQuery<ClassSummary[]>({ queryKey: CLASSES_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/classes", { name });
+      return (await res.json()) as ClassSummary;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CLASSES_KEY }),
+  });
+
+  return { classes, isLoading, createMutation };
+}
+
+export function useClassProgress(classId: string | null) {
+  // Students join and play while the dashboard is open
+  const { data: progress, isLoading } = useQuery<ClassProgress>({
+    queryKey: ["/api/classes", classId],
+    enabled: classId !== null,
+    staleTime: 0,
+    refetchInterval: 30_000,
+  });
+
+  const updatePresetsMutation = useMutation({
+    mutationFn: async (presets: RoomPreset[]) => {
+      const res = await apiRequest("PUT", `/api/classes/${classId}/presets`, { presets });
+      return (await res.json()) as ClassSummary;
+    },
+    // The list query is a prefix of the class query, so both refresh
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CLASSES_KEY }),
+  });
+
+  return { progress, isLoading, updatePresetsMutation };
+}
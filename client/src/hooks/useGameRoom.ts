@@ -1,301 +1,163 @@
 /*
   useGameRoom.ts
 
-  React hook that wraps the minimal Firebase Realtime Database operations
-  used by the game. This hook provides a simple, focused API for the
-  UI code in `Home.tsx` to create/join/leave rooms and to submit answers.
+  React hook exposing the room operations used by `Home.tsx`: create,
+  join, start and leave rooms, add bots, submit answers, advance
+  questions and ask for a rematch. Spectators only use the subscription: passing a room they
+  are not in watches it, since every write is rejected for non-players.
+  The actual reads/writes go through a `RoomTransport` (see
+  `lib/transports`), so the same API runs against our own server or
+  Firebase.
 
-  Data shape (GameRoomData):
-    - currentQuestion: number
-    - started: boolean
-    - players: string[]
-    - answers: Record<playerId, choiceIndex>
-    - scores: Record<playerId, score>
+  Rules (question selection, correctness, scores) are never decided
+  here: every write is an intent the transport may reject.
 
   Important details:
-  - The hook listens with `onValue` to the `rooms/{roomId}` path and
-    updates `roomData` whenever the DB changes.
-  - All write operations (create/join/submit/next/leave) are performed
-    against the same `rooms/{roomId}` path.
-  - Errors are logged to console for visibility during development.
+  - Room state only comes from the transport subscription, which
+    delivers changes in order. Write results are not applied directly so
+    an older response can never overwrite a newer broadcast.
+  - Each method resolves to `true`/`false` (or nothing; `createRoom`
+    resolves to the allocated code or `null`) and logs errors to the
+    console for visibility during development.
 */
-import { useState, useEffect, useCallback } from "react";
-import { database, ref, set, update, onValue, get, remove } from "@/lib/firebase";
-
-interface GameRoomData {
-  currentQuestion: number;
-  started: boolean;
-  players: string[];
-  answers?: Record<string, number>;
-  scores?: Record<string, number>;
-  config?: {
-    // allow either a legacy single-category or the new multi-module config
-    category?: "Math" | "Reading" | "Writing";
-    modules?: Array<"math" | "reading" | "writing">;
-    difficulties?: Array<"E" | "M" | "H">;
-    numQuestions?: number;
-  };
-  questions?: string[];
-}
-import { satQuestions } from "@shared/questions";
-
-export function useGameRoom(roomId: string | null, playerId: string) {
-  const [roomData, setRoomData] = useState<GameRoomData | null>(null);
+import { useState, useEffect, useCallback, useRef } from "react";
+import { roomTransport, type RoomTransport } from "@/lib/transports";
+import type { AnswerValue, BotLevel, GameRoom, PlayerProfile, RoomConfig } from "@shared/schema";
+
+export function useGameRoom(
+  roomId: string | null,
+  playerId: string,
+  profile?: PlayerProfile,
+  transport: RoomTransport = roomTransport,
+) {
+  const [roomData, setRoomData] = useState<GameRoom | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  // The transport reported that the room doesn't exist (or no longer does)
+  const [isMissing, setIsMissing] = useState(false);
+  // Room clock minus local clock; add to Date.now() to compare with deadlines
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const roomRef = useRef<GameRoom | null>(null);
 
   // Subscribe to realtime updates for the given roomId.
   useEffect(() => {
-    if (!roomId || !database) return;
-
-    const roomRef = ref(database, `rooms/${roomId}`);
-    let cleanupFn: (() => void) | undefined;
-
-    const setupRoom = async () => {
-      try {
-        // Subscribe to room changes
-        const unsub = onValue(roomRef, (snapshot) => {
-          const data = snapshot.val();
-          setRoomData(data);
-          setIsConnected(true);
-        });
-
-        // Setup cleanup handlers
-        await update(roomRef, {
-          [`cleanup/${playerId}`]: {
-            timestamp: Date.now(),
-            actions: {
-              players: playerId,
-              scores: playerId,
-              answers: playerId
-            }
-          }
-        });
-
-        cleanupFn = () => {
-          unsub();
-          void update(roomRef, {
-            [`cleanup/${playerId}`]: null
-          });
-        };
-      } catch (error) {
-        console.error("Error setting up room:", error);
-        setIsConnected(false);
-      }
-    };
-
-    void setupRoom();
-
-    return () => {
-      if (cleanupFn) {
-        cleanupFn();
-      }
-    };
-    
-    const unsubscribe = onValue(roomRef, (snapshot) => {
-      const data = snapshot.val();
-      // Debug: log room updates to help trace white-screen runtime issues
-      // (kept at debug level so it can be filtered in production logs)
-      // eslint-disable-next-line no-console
-      console.debug("useGameRoom: room update ->", data);
-      if (data) {
-        setRoomData(data);
-        setIsConnected(true);
-      } else {
-        setRoomData(null);
-        setIsConnected(false);
-      }
+    roomRef.current = null;
+    setRoomData(null);
+    setIsConnected(false);
+    setIsMissing(false);
+    if (!roomId) return;
+
+    return transport.subscribe(roomId, (room, offset) => {
+      roomRef.current = room;
+      setRoomData(room);
+      setIsConnected(room !== null);
+      setIsMissing(room === null);
+      setClockOffsetMs(offset);
     });
+  }, [roomId, transport]);
 
-    // Clean up listener on unmount or when roomId changes
-    return () => unsubscribe();
-  }, [roomId]);
-
-  // Create a new room with the current player as the first participant
-  const createRoom = useCallback(async (newRoomId: string, config?: {
-    modules?: string[];
-    difficulties?: string[];
-    numQuestions?: number;
-    skills?: string[];
-  }) => {
-    if (!database) return false;
-
+  // Create a new room with the current player as the first participant.
+  // Questions are drawn from the config and the code is allocated by the
+  // transport; resolves to the new room's code, or null on failure.
+  const createRoom = useCallback(async (config: RoomConfig): Promise<string | null> => {
     try {
-      const roomRef = ref(database, `rooms/${newRoomId}`);
-
-      // Normalize config for reliable filtering
-      const modulesLower = config?.modules?.map(m => String(m).toLowerCase()) || [];
-      const difficulties = config?.difficulties || [];
-      const num = config?.numQuestions || 10;
-
-      // Filter questions deterministically on the server-side (creator client)
-      let filtered = satQuestions.slice();
-      if (modulesLower.length > 0) {
-        filtered = filtered.filter((q) => modulesLower.includes((q.module || "").toLowerCase()));
-      }
-      if (difficulties.length > 0) {
-        filtered = filtered.filter((q) => q.difficulty && difficulties.includes(q.difficulty));
-      }
-
-      // Shuffle (non-cryptographic) and pick requested number
-      const shuffled = filtered.sort(() => Math.random() - 0.5).slice(0, num);
-
-      if (shuffled.length === 0) {
-        console.error("No questions available for selected criteria");
-        return false;
-      }
-
-      // Persist the room and the selected question order so all clients use the same list
-      await set(roomRef, {
-        currentQuestion: 0,
-        started: false,
-        players: [playerId],
-        scores: { [playerId]: 0 },
-        config: config || undefined,
-        questions: shuffled.map((q) => q.id),
-      });
-
-      return true;
+      const room = await transport.createRoom(playerId, config, profile);
+      return room.roomId;
     } catch (error) {
       console.error("Error creating room:", error);
-      return false;
+      return null;
     }
-  }, [playerId]);
+  }, [playerId, profile, transport]);
 
   // Join an existing room if it exists and is not full
   const joinRoom = useCallback(async (roomCode: string) => {
-    if (!database) {
-      console.error("Firebase not initialized");
+    try {
+      await transport.joinRoom(roomCode, playerId, profile);
+      return true;
+    } catch (error) {
+      console.error("Error joining room:", error);
       return false;
     }
+  }, [playerId, profile, transport]);
 
+  // Start a classroom room (host only); duels start on their own
+  const startGame = useCallback(async (roomCode: string) => {
     try {
-      const roomRef = ref(database, `rooms/${roomCode}`);
-      const snapshot = await get(roomRef);
-      
-      if (!snapshot.exists()) {
-        return false;
-      }
-
-      const data = snapshot.val();
-      const players = data.players || [];
-      
-      if (players.includes(playerId)) {
-        // already joined
-        return true;
-      }
-
-      if (players.length >= 2) {
-        // this simple app limits rooms to two players
-        return false;
-      }
-
-      await update(roomRef, {
-        players: [...players, playerId],
-        started: true,
-        scores: { ...data.scores, [playerId]: 0 },
-      });
-
+      await transport.startGame(roomCode, playerId);
       return true;
     } catch (error) {
-      console.error("Error joining room:", error);
+      console.error("Error starting game:", error);
       return false;
     }
-  }, [playerId]);
-
-  // Submit the player's answer to the room's 'answers' map
-  const submitAnswer = useCallback(async (roomCode: string, answerIndex: number) => {
-    if (!database) return false;
+  }, [playerId, transport]);
 
+  // Add a computer opponent (host only); a duel starts once it joins
+  const addBot = useCallback(async (roomCode: string, level: BotLevel) => {
     try {
-      const roomRef = ref(database, `rooms/${roomCode}`);
-      const snapshot = await get(roomRef);
-      
-      if (!snapshot.exists()) {
-        throw new Error("Room not found");
-      }
+      await transport.addBot(roomCode, playerId, level);
+      return true;
+    } catch (error) {
+      console.error("Error adding bot:", error);
+      return false;
+    }
+  }, [playerId, transport]);
 
-      const data = snapshot.val();
-      const questionId = data.questions[data.currentQuestion];
-      const question = satQuestions.find(q => q.id === questionId);
-      
-      if (!question) {
-        throw new Error("Question not found");
-      }
+  // Lock in the player's answer for the question the room is currently on
+  const submitAnswer = useCallback(async (roomCode: string, answer: AnswerValue) => {
+    const room = roomRef.current;
+    if (!room) return false;
 
-      const answerRef = ref(database, `rooms/${roomCode}/answers/${playerId}`);
-      await set(answerRef, answerIndex);
+    try {
+      await transport.submitAnswer(roomCode, playerId, room.currentQuestion, answer);
       return true;
     } catch (error) {
       console.error("Error submitting answer:", error);
       return false;
     }
-  }, [playerId]);
+  }, [playerId, transport]);
 
-  // Move the room to a new currentQuestion and clear existing answers
+  // Ask for the room to move to `questionIndex`. Safe to call from every
+  // client: only the first request for a given index advances the room.
   const nextQuestion = useCallback(async (roomCode: string, questionIndex: number) => {
-    if (!database) return;
-
     try {
-      const roomRef = ref(database, `rooms/${roomCode}`);
-      await update(roomRef, {
-        currentQuestion: questionIndex,
-        answers: null,
-      });
+      await transport.advance(roomCode, playerId, questionIndex);
     } catch (error) {
       console.error("Error moving to next question:", error);
     }
-  }, []);
+  }, [playerId, transport]);
 
-  // Remove the room entirely (used for cleanup on cancel/leave)
+  // Leave the room; it is deleted once the last player is gone
   const leaveRoom = useCallback(async (roomCode: string) => {
-    if (!database) return;
-
     try {
-      // Remove player from the room first
-      const roomRef = ref(database, `rooms/${roomCode}`);
-      const snapshot = await get(roomRef);
-      
-      if (snapshot.exists()) {
-        const data = snapshot.val();
-        const players = data.players || [];
-        
-        if (players.length === 1 && players.includes(playerId)) {
-          // Last player leaving, remove the entire room
-          await remove(roomRef);
-        } else {
-          // Just remove this player
-          await update(roomRef, {
-            players: players.filter((id: string) => id !== playerId),
-            [`scores/${playerId}`]: null,
-            [`answers/${playerId}`]: null,
-          });
-        }
-      }
+      await transport.leaveRoom(roomCode, playerId);
     } catch (error) {
       console.error("Error leaving room:", error);
     }
-  }, [playerId]);
-
-  // Update one or more player scores (merges into the existing scores map)
-  const setScores = useCallback(async (roomCode: string, scoresObj: Record<string, number>) => {
-    if (!database) return;
+  }, [playerId, transport]);
 
+  // Ask to replay the finished room; the new game arrives through the
+  // subscription once every player has asked
+  const requestRematch = useCallback(async (roomCode: string) => {
     try {
-      const scoresRef = ref(database, `rooms/${roomCode}/scores`);
-      await update(scoresRef, scoresObj);
+      await transport.requestRematch(roomCode, playerId);
+      return true;
     } catch (error) {
-      console.error("Error updating scores:", error);
+      console.error("Error requesting rematch:", error);
+      return false;
     }
-  }, []);
+  }, [playerId, transport]);
 
   return {
     roomData,
     isConnected,
+    isMissing,
+    clockOffsetMs,
     createRoom,
     joinRoom,
+    startGame,
+    addBot,
     submitAnswer,
     nextQuestion,
     leaveRoom,
-    setScores,
+    requestRematch,
   };
 }
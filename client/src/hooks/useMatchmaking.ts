@@ -0,0 +1,43 @@
+/*
+  useMatchmaking.ts
+
+  React hook around the ranked matchmaking endpoints
+  (`/api/matchmaking`). While `active`, the queue status is polled every
+  couple of seconds; polling is also what lets the server pair waiting
+  players, so it must keep running until the status is "matched".
+*/
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { MatchmakingStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const POLL_INTERVAL_MS = 2000;
+
+export function useMatchmaking(active: boolean) {
+  const { data: status } = useQuery<MatchmakingStatus>({
+    queryKey: ["/api/matchmaking"],
+    enabled: active,
+    refetchInterval: active ? POLL_INTERVAL_MS : false,
+    staleTime: 0,
+  });
+
+  const enterMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/matchmaking");
+      return (await res.json()) as MatchmakingStatus;
+    },
+    onSuccess: (next) => queryClient.setQueryData(["/api/matchmaking"], next),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/matchmaking");
+    },
+    onSuccess: () => queryClient.setQueryData<MatchmakingStatus>(["/api/matchmaking"], { status: "idle" }),
+  });
+
+  return {
+    status: active ? status : undefined,
+    enterQueue: enterMutation.mutateAsync,
+    leaveQueue: leaveMutation.mutate,
+  };
+}
@@ -0,0 +1,29 @@
+/*
+  useQuestions.ts
+
+  TanStack Query hooks over the question bank endpoints. Questions never
+  change while the app runs, so results stay cached (the client's
+  default `staleTime` is infinite) and a room's questions are fetched
+  once per set of ids. Room questions are redacted; the answer key for a
+  question arrives with its round's reveal (`room.rounds[i].reveal`).
+*/
+import { useQuery } from "@tanstack/react-query";
+import type { QuestionBankSummary, RedactedQuestion } from "@shared/schema";
+import { fetchQuestionsById } from "@/lib/questions";
+
+// The room's questions in room order; undefined while loading
+export function useRoomQuestions(ids: string[] | undefined) {
+  const { data, isLoading, isError } = useQuery<RedactedQuestion[]>({
+    queryKey: ["/api/questions", { ids }],
+    queryFn: () => fetchQuestionsById(ids ?? []),
+    enabled: !!ids && ids.length > 0,
+  });
+  return { questions: data, isLoading, isError };
+}
+
+export function useQuestionBankSummary() {
+  const { data } = useQuery<QuestionBankSummary>({
+    queryKey: ["/api/questions/summary"],
+  });
+  return data;
+}
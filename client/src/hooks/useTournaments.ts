@@ -0,0 +1,60 @@
+/*
+  useTournaments.ts
+
+  React Query hooks for tournaments (`/api/tournaments`, see
+  `server/tournaments.ts`). `useTournaments` lists and creates them;
+  `useTournament` polls one tournament's bracket (match rooms open and
+  finish on the server while the page is open) and joins, leaves or
+  starts it.
+*/
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { CreateTournamentRequest, Tournament, TournamentSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const TOURNAMENTS_KEY = ["/api/tournaments"];
+
+export function useTournaments() {
+  const { data: tournaments = [], isLoading } = useQuery<TournamentSummary[]>({
+    queryKey: TOURNAMENTS_KEY,
+    staleTime: 0,
+    refetchInterval: 10_000,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateTournamentRequest) => {
+      const res = await apiRequest("POST", "/api/tournaments", request);
+      return (await res.json()) as Tournament;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TOURNAMENTS_KEY }),
+  });
+
+  return { tournaments, isLoading, createMutation };
+}
+
+// join, leave and start all answer with the updated tournament
+function useTournamentAction(id: string, action: "join" | "leave" | "start") {
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${id}/${action}`);
+      return (await res.json()) as Tournament;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/tournaments", id], updated);
+      queryClient.invalidateQueries({ queryKey: TOURNAMENTS_KEY, exact: true });
+    },
+  });
+}
+
+export function useTournament(id: string) {
+  const { data: tournament, isLoading, error } = useQuery<Tournament>({
+    queryKey: ["/api/tournaments", id],
+    staleTime: 0,
+    refetchInterval: 3_000,
+  });
+
+  const joinMutation = useTournamentAction(id, "join");
+  const leaveMutation = useTournamentAction(id, "leave");
+  const startMutation = useTournamentAction(id, "start");
+
+  return { tournament, isLoading, error, joinMutation, leaveMutation, startMutation };
+}
@@ -0,0 +1,42 @@
+/*
+  activeRoom.ts
+
+  Remembers the room this tab is playing in (sessionStorage, so it lasts
+  across reloads but not into other tabs). `Home.tsx` saves the code
+  while a room is open and rejoins it after a reload instead of starting
+  over in the lobby.
+
+  Other pages send the player into a room with a link instead
+  (`roomPath`): `Home.tsx` reads the `room` query parameter and joins it.
+*/
+const ACTIVE_ROOM_KEY = "satDuelActiveRoom";
+
+export function loadActiveRoom(): string | null {
+  try {
+    return sessionStorage.getItem(ACTIVE_ROOM_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveRoom(roomId: string) {
+  try {
+    sessionStorage.setItem(ACTIVE_ROOM_KEY, roomId);
+  } catch {
+    // Storage may be unavailable (private mode); resuming is best effort
+  }
+}
+
+export function clearActiveRoom() {
+  try {
+    sessionStorage.removeItem(ACTIVE_ROOM_KEY);
+  } catch {
+    // See saveActiveRoom
+  }
+}
+
+// Link that opens Home in the given room (e.g. a preset the teacher just
+// started, or a tournament match)
+export function roomPath(roomId: string) {
+  return `/?room=${encodeURIComponent(roomId)}`;
+}
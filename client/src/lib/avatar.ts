@@ -0,0 +1,47 @@
+/*
+  avatar.ts
+
+  Generated avatars. A profile only stores a short random seed; the
+  avatar itself is a symmetric 5x5 pattern (like a GitHub identicon) and
+  a hue, both derived deterministically from the seed so every client
+  draws the same picture.
+*/
+
+export const AVATAR_GRID = 5;
+
+export interface AvatarPattern {
+  hue: number;
+  // Row-major, AVATAR_GRID x AVATAR_GRID; true = filled
+  cells: boolean[];
+}
+
+export function randomAvatarSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// 32-bit FNV-1a
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function avatarPattern(seed: string): AvatarPattern {
+  const hash = hashSeed(seed);
+  const half = Math.ceil(AVATAR_GRID / 2);
+  const cells: boolean[] = [];
+
+  // Pick the left half (including the middle column) from the hash bits
+  // and mirror it to the right
+  for (let row = 0; row < AVATAR_GRID; row++) {
+    for (let col = 0; col < AVATAR_GRID; col++) {
+      const sourceCol = col < half ? col : AVATAR_GRID - 1 - col;
+      cells.push(((hash >>> (row * half + sourceCol)) & 1) === 1);
+    }
+  }
+
+  return { hue: hashSeed(seed + ":hue") % 360, cells };
+}
@@ -10,10 +10,11 @@
   - The project expects a valid `firebaseConfig` object in
     `client/src/lib/firebaseConfig.ts`. If that object is missing or
     invalid the `database` variable will remain `null` and the
-    `useGameRoom` hook will log errors when trying to access Firebase.
+    Firebase room transport (`lib/transports/firebaseTransport.ts`)
+    will reject every room operation.
 */
 import { initializeApp } from "firebase/app";
-import { getDatabase, ref, set, update, onValue, get, remove, Database } from "firebase/database";
+import { getDatabase, ref, set, update, onValue, get, remove, runTransaction, Database } from "firebase/database";
 import { firebaseConfig } from "./firebaseConfig";
 
 // Initialize Firebase app and database reference. Keep database null if
@@ -33,4 +34,4 @@ try {
 }
 
 // Re-export the small subset of database helpers used across the app.
-export { database, ref, set, update, onValue, get, remove };
+export { database, ref, set, update, onValue, get, remove, runTransaction };
@@ -0,0 +1,34 @@
+/*
+  protected-route.tsx
+
+  Route wrapper that renders its component only for a signed-in user
+  and redirects everyone else to `/auth`.
+*/
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: ComponentType;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center home-container">
+          <Loader2 className="h-8 w-8 animate-spin neon-text" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
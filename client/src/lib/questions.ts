@@ -0,0 +1,70 @@
+/*
+  questions.ts
+
+  Client access to the question bank, which is served by
+  `GET /api/questions` rather than bundled. `fetchQuestions` follows the
+  endpoint's pagination until every match is loaded, so callers only
+  download the questions their filters (or a room's ids) select.
+
+  Questions arrive redacted: the answer key and rationale come later in
+  the round's reveal (or from `POST /api/practice/answer`). Only the
+  Firebase transport, which scores rounds on the client, asks for full
+  questions.
+*/
+import { apiRequest } from "@/lib/queryClient";
+import type { Question, QuestionPage, RedactedQuestion } from "@shared/schema";
+
+const PAGE_SIZE = 100;
+
+export interface QuestionFilters {
+  modules?: string[];
+  difficulties?: string[];
+  skills?: string[];
+  ids?: string[];
+}
+
+function questionsUrl({ modules, difficulties, skills, ids }: QuestionFilters, offset: number, answers: boolean) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  modules?.forEach((module) => params.append("module", module));
+  difficulties?.forEach((difficulty) => params.append("difficulty", difficulty));
+  skills?.forEach((skill) => params.append("skill", skill));
+  ids?.forEach((id) => params.append("ids", id));
+  if (answers) params.set("answers", "true");
+  return `/api/questions?${params}`;
+}
+
+async function fetchAll<Q extends RedactedQuestion>(filters: QuestionFilters, answers: boolean): Promise<Q[]> {
+  const questions: Q[] = [];
+  for (;;) {
+    const res = await apiRequest("GET", questionsUrl(filters, questions.length, answers));
+    const page: QuestionPage<Q> = await res.json();
+    questions.push(...page.questions);
+    if (page.questions.length === 0 || questions.length >= page.total) return questions;
+  }
+}
+
+function inIdOrder<Q extends RedactedQuestion>(ids: string[], questions: Q[]): Q[] {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  return ids.map((id) => byId.get(id)).filter((q): q is Q => q !== undefined);
+}
+
+// Every question matching `filters`, in bank order
+export function fetchQuestions(filters: QuestionFilters): Promise<RedactedQuestion[]> {
+  return fetchAll(filters, false);
+}
+
+// The given questions in the order of `ids`; unknown ids are skipped
+export async function fetchQuestionsById(ids: string[]): Promise<RedactedQuestion[]> {
+  if (ids.length === 0) return [];
+  return inIdOrder(ids, await fetchAll({ ids }, false));
+}
+
+// Firebase transport only: questions including their answer keys
+export function fetchFullQuestions(filters: QuestionFilters): Promise<Question[]> {
+  return fetchAll<Question>(filters, true);
+}
+
+export async function fetchFullQuestionsById(ids: string[]): Promise<Question[]> {
+  if (ids.length === 0) return [];
+  return inIdOrder(ids, await fetchAll<Question>({ ids }, true));
+}
@@ -0,0 +1,290 @@
+/*
+  firebaseTransport.ts
+
+  Room transport backed by the hosted Firebase Realtime Database under
+  `rooms/{roomId}`. Every write runs the shared rules from
+  `shared/gameRules.ts` inside a `runTransaction`, so concurrent clients
+  cannot double-advance and scores follow the same rules as the server.
+
+  Notes:
+  - Firebase does not store empty objects, so snapshots are normalized
+    back into a complete `GameRoom` before rules run or the UI sees them.
+  - Transactions first run against the local cache, which is often empty.
+    Returning the empty value (instead of aborting) lets Firebase retry
+    with the real server value.
+  - The rules run on each client, so this transport trusts its players;
+    use `serverTransport` when scores must not be editable.
+  - Bots need a server to run them and are not available here, and
+    neither is presence: nobody watches for dropped players, so rooms
+    never show a disconnected opponent and never end by forfeit.
+  - Expiry is lazy for the same reason: every write stamps
+    `lastActivityAt`, and a room found idle past its TTL when it is
+    opened or written to is deleted (subscribers are shown it as expired
+    first; intents fail with 410). Rooms nobody opens again stay in the
+    database until someone reuses the code.
+  - Room codes are picked at random from `shared/roomCodes.ts` and
+    claimed inside the create transaction, so two clients can never take
+    the same code. Without a count of open rooms, each tier gets a few
+    attempts before moving on to longer codes.
+  - There is no server to enforce question deadlines, so every subscribed
+    client schedules the timeout transaction itself; the rules make the
+    extra calls no-ops. Clocks are aligned with Firebase's
+    `.info/serverTimeOffset`.
+  - The rules need full questions, answer keys included, so this
+    transport can't keep answers hidden from players; the server only
+    hands them out (`GET /api/questions?answers=true`) to players when
+    it runs with `SERVE_ANSWER_KEYS=true`. A room's questions are loaded
+    into a cache on subscribe and before each intent, since transactions
+    must run synchronously.
+*/
+import { database, ref, onValue, get, runTransaction } from "@/lib/firebase";
+import type { GameRoom, Question } from "@shared/schema";
+import { fetchFullQuestions, fetchFullQuestionsById } from "@/lib/questions";
+import {
+  RoomError,
+  selectQuestions,
+  createRoomState,
+  applyJoin,
+  applyStart,
+  applyAnswer,
+  applyAdvance,
+  applyLeave,
+  applyForfeit,
+  applyTimeout,
+  resolveRoundIfReady,
+  isRoomExpired,
+  applyRematchRequest,
+  rematchPool,
+  createRematchState,
+} from "@shared/gameRules";
+import { ROOM_CODE_TIERS, randomRoomCode } from "@shared/roomCodes";
+import type { RoomTransport } from "./types";
+
+const CODE_ATTEMPTS_PER_TIER = 3;
+
+// Local clock -> Firebase server clock, kept up to date by Firebase
+let serverTimeOffset = 0;
+if (database) {
+  onValue(ref(database, ".info/serverTimeOffset"), (snapshot) => {
+    serverTimeOffset = snapshot.val() ?? 0;
+  });
+}
+
+const serverNow = () => Date.now() + serverTimeOffset;
+
+function roomRef(roomId: string) {
+  if (!database) {
+    throw new Error("Firebase not initialized");
+  }
+  return ref(database, `rooms/${roomId}`);
+}
+
+// Questions used by rooms this client has seen, by id
+const questionCache = new Map<string, Question>();
+
+async function loadQuestions(ids: string[]) {
+  const missing = ids.filter((id) => !questionCache.has(id));
+  (await fetchFullQuestionsById(missing)).forEach((q) => questionCache.set(q.id, q));
+}
+
+async function loadRoomQuestions(roomId: string) {
+  const snapshot = await get(roomRef(roomId));
+  const data = snapshot.val();
+  if (data) await loadQuestions(normalizeRoom(roomId, data).questions);
+}
+
+function questionAt(room: GameRoom) {
+  const question = questionCache.get(room.questions[room.currentQuestion]);
+  if (!question) throw new RoomError(500, "Question not found");
+  return question;
+}
+
+function normalizeRoom(roomId: string, data: any): GameRoom {
+  return {
+    ...data,
+    roomId,
+    players: data.players ?? [],
+    scores: data.scores ?? {},
+    answers: data.answers ?? {},
+    questions: data.questions ?? [],
+    finished: data.finished ?? false,
+    rounds: (data.rounds ?? []).map((round: any) => ({
+      ...round,
+      answers: round.answers ?? {},
+      correct: round.correct ?? {},
+      timesMs: round.timesMs ?? {},
+      points: round.points ?? {},
+    })),
+  };
+}
+
+// Run `apply` against the latest room inside a transaction. `apply` may
+// return null to delete the room. Rule violations are rethrown after the
+// transaction is aborted.
+async function transact(
+  roomId: string,
+  apply: (room: GameRoom | null) => GameRoom | null,
+): Promise<GameRoom | null> {
+  let failure: unknown;
+
+  const result = await runTransaction(roomRef(roomId), (current) => {
+    failure = undefined;
+    try {
+      const room = apply(current === null ? null : normalizeRoom(roomId, current));
+      if (room) room.lastActivityAt = serverNow();
+      return room;
+    } catch (err) {
+      failure = err;
+      return undefined; // abort
+    }
+  });
+
+  if (failure) throw failure;
+  const data = result.snapshot.val();
+  return data === null ? null : normalizeRoom(roomId, data);
+}
+
+// Like `transact`, for intents that need an existing room. Rooms idle past
+// their TTL are deleted instead.
+async function transactRoom(roomId: string, apply: (room: GameRoom) => void): Promise<GameRoom> {
+  let missing = false;
+  let expired = false;
+  const room = await transact(roomId, (current) => {
+    missing = current === null;
+    expired = current !== null && isRoomExpired(current, serverNow());
+    if (expired) return null;
+    if (current) apply(current);
+    return current;
+  });
+  if (expired) throw new RoomError(410, "Room has expired");
+  if (missing || !room) throw new RoomError(404, "Room not found");
+  return room;
+}
+
+// Delete the room if it is (still) idle past its TTL
+function removeIfExpired(roomId: string) {
+  return transact(roomId, (current) => (current && isRoomExpired(current, serverNow()) ? null : current));
+}
+
+export const firebaseTransport: RoomTransport = {
+  subscribe(roomId, onRoom) {
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = onValue(roomRef(roomId), (snapshot) => {
+      const data = snapshot.val();
+      const room = data === null ? null : normalizeRoom(roomId, data);
+      if (room && isRoomExpired(room, serverNow())) {
+        clearTimeout(deadlineTimer);
+        onRoom({ ...room, expiredAt: serverNow() }, serverTimeOffset);
+        void removeIfExpired(roomId).catch((error) => console.error("Error removing expired room:", error));
+        return;
+      }
+      onRoom(room, serverTimeOffset);
+      if (room) {
+        void loadQuestions(room.questions).catch((error) => console.error("Error loading questions:", error));
+      }
+
+      clearTimeout(deadlineTimer);
+      if (room?.questionDeadline && !room.roundResults && !room.finished) {
+        const questionIndex = room.currentQuestion;
+        deadlineTimer = setTimeout(() => {
+          void loadQuestions(room.questions)
+            .then(() =>
+              transactRoom(roomId, (current) => {
+                applyTimeout(current, questionIndex, questionAt(current), serverNow());
+              }),
+            )
+            .catch((error) => console.error("Error resolving timed out question:", error));
+        }, Math.max(0, room.questionDeadline - serverNow()));
+      }
+    });
+
+    return () => {
+      clearTimeout(deadlineTimer);
+      unsubscribe();
+    };
+  },
+
+  async createRoom(playerId, config, profile) {
+    const pool = await fetchFullQuestions({ modules: config.modules, difficulties: config.difficulties, skills: config.skills });
+    const questions = selectQuestions(config, pool);
+    questions.forEach((q) => questionCache.set(q.id, q));
+
+    for (const tier of ROOM_CODE_TIERS) {
+      for (let attempt = 0; attempt < CODE_ATTEMPTS_PER_TIER; attempt++) {
+        const roomId = randomRoomCode(tier);
+        try {
+          const room = await transact(roomId, (current) => {
+            if (current && !isRoomExpired(current, serverNow())) throw new RoomError(409, "Room already exists");
+            return createRoomState(roomId, playerId, config, questions, profile);
+          });
+          return room!;
+        } catch (err) {
+          // Taken: try another code
+          if (!(err instanceof RoomError && err.status === 409)) throw err;
+        }
+      }
+    }
+    throw new RoomError(503, "No free room codes, try again shortly");
+  },
+
+  joinRoom(roomId, playerId, profile) {
+    return transactRoom(roomId, (room) => applyJoin(room, playerId, serverNow(), profile));
+  },
+
+  startGame(roomId, playerId) {
+    return transactRoom(roomId, (room) => applyStart(room, playerId, serverNow()));
+  },
+
+  async addBot() {
+    throw new RoomError(501, "Bots are only available with the server transport");
+  },
+
+  async submitAnswer(roomId, playerId, questionIndex, answer) {
+    await loadRoomQuestions(roomId);
+    return transactRoom(roomId, (room) => {
+      applyAnswer(room, playerId, questionIndex, answer, questionAt(room), serverNow());
+    });
+  },
+
+  advance(roomId, playerId, questionIndex) {
+    return transactRoom(roomId, (room) => applyAdvance(room, playerId, questionIndex, serverNow()));
+  },
+
+  async leaveRoom(roomId, playerId) {
+    await loadRoomQuestions(roomId);
+    await transact(roomId, (room) => {
+      if (!room) return null;
+      // Leaving a duel in progress forfeits it
+      if (applyForfeit(room, playerId)) return room;
+      if (applyLeave(room, playerId)) return null;
+      resolveRoundIfReady(room, questionAt(room));
+      return room;
+    });
+  },
+
+  async requestRematch(roomId, playerId) {
+    const snapshot = await get(roomRef(roomId));
+    const data = snapshot.val();
+    if (!data) throw new RoomError(404, "Room not found");
+    const { config } = normalizeRoom(roomId, data);
+    const bank = await fetchFullQuestions({ modules: config.modules, difficulties: config.difficulties, skills: config.skills });
+
+    // The last request replaces the room with the new game in the same
+    // transaction, so both players can't each start one
+    let drawn: Question[] = [];
+    let expired = false;
+    const room = await transact(roomId, (current) => {
+      drawn = [];
+      expired = current !== null && isRoomExpired(current, serverNow());
+      if (!current || expired) return null;
+      if (!applyRematchRequest(current, playerId)) return current;
+      drawn = selectQuestions(current.config, rematchPool(current, bank));
+      return createRematchState(current, drawn, serverNow());
+    });
+    if (expired) throw new RoomError(410, "Room has expired");
+    if (!room) throw new RoomError(404, "Room not found");
+    drawn.forEach((q) => questionCache.set(q.id, q));
+    return room;
+  },
+};
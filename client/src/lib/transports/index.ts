@@ -0,0 +1,15 @@
+/*
+  transports/index.ts
+
+  Picks the room transport used by `useGameRoom`. Our own server is the
+  default; set `VITE_ROOM_TRANSPORT=firebase` to run rooms on the hosted
+  Firebase Realtime Database configured in `lib/firebaseConfig.ts`.
+*/
+import { serverTransport } from "./serverTransport";
+import { firebaseTransport } from "./firebaseTransport";
+import type { RoomTransport } from "./types";
+
+export type { RoomTransport };
+
+export const roomTransport: RoomTransport =
+  import.meta.env.VITE_ROOM_TRANSPORT === "firebase" ? firebaseTransport : serverTransport;
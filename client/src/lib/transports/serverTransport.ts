@@ -0,0 +1,99 @@
+/*
+  serverTransport.ts
+
+  Room transport backed by our own server: intents go to the REST
+  endpoints in `server/routes.ts` and room state arrives over the
+  WebSocket room channel (`server/realtime.ts`). Works fully offline and
+  in test environments since nothing depends on a hosted service.
+
+  The server identifies the player from the session cookie, so the
+  `playerId` and `profile` arguments of the transport interface are not
+  sent.
+
+  The socket reconnects after a short delay if it drops while a
+  subscription is active; the server sends a fresh snapshot on every
+  subscribe so nothing is missed.
+*/
+import { apiRequest } from "@/lib/queryClient";
+import {
+  ROOM_CHANNEL_PATH,
+  type GameRoom,
+  type RoomChannelServerMessage,
+} from "@shared/schema";
+import type { RoomTransport } from "./types";
+
+const RECONNECT_DELAY_MS = 1000;
+
+async function postRoomAction(url: string, body?: Record<string, unknown>): Promise<GameRoom> {
+  const res = await apiRequest("POST", url, body);
+  return res.json();
+}
+
+function channelUrl() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${ROOM_CHANNEL_PATH}`;
+}
+
+export const serverTransport: RoomTransport = {
+  subscribe(roomId, onRoom) {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      socket = new WebSocket(channelUrl());
+      socket.onopen = () => {
+        socket?.send(JSON.stringify({ type: "subscribe", roomId }));
+      };
+      socket.onmessage = (event) => {
+        const message: RoomChannelServerMessage = JSON.parse(event.data);
+        if (message.type === "room" && message.roomId === roomId) {
+          onRoom(message.room, message.serverTime - Date.now());
+        }
+      };
+      socket.onclose = () => {
+        if (!closed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  },
+
+  createRoom(playerId, config) {
+    return postRoomAction("/api/rooms", { config });
+  },
+
+  joinRoom(roomId, playerId) {
+    return postRoomAction(`/api/rooms/${roomId}/join`);
+  },
+
+  startGame(roomId, playerId) {
+    return postRoomAction(`/api/rooms/${roomId}/start`);
+  },
+
+  addBot(roomId, playerId, level) {
+    return postRoomAction(`/api/rooms/${roomId}/bots`, { level });
+  },
+
+  submitAnswer(roomId, playerId, questionIndex, answer) {
+    return postRoomAction(`/api/rooms/${roomId}/answer`, { questionIndex, answer });
+  },
+
+  advance(roomId, playerId, questionIndex) {
+    return postRoomAction(`/api/rooms/${roomId}/advance`, { questionIndex });
+  },
+
+  async leaveRoom(roomId, playerId) {
+    await apiRequest("POST", `/api/rooms/${roomId}/leave`);
+  },
+
+  requestRematch(roomId, playerId) {
+    return postRoomAction(`/api/rooms/${roomId}/rematch`);
+  },
+};
@@ -0,0 +1,38 @@
+/*
+  types.ts
+
+  Contract every room transport implements so `useGameRoom` can run the
+  same game against our own server (`serverTransport`) or a hosted
+  Firebase Realtime Database (`firebaseTransport`).
+
+  Writes reject with an Error describing the broken rule; the hook turns
+  those into `false` results for the UI. Subscriptions deliver the full
+  room state on every change, or `null` when the room does not exist
+  (rooms that expire are delivered with `expiredAt` set before they
+  disappear), together with the estimated offset between the room clock and the
+  local clock (room time = Date.now() + clockOffsetMs) so deadlines can
+  be shown correctly.
+
+  `profile` is the player's name and avatar to store in the room.
+  Transports that know the signed-in user (the server) may ignore it.
+
+  Room codes are allocated by the transport when a room is created; the
+  code is the `roomId` of the returned room.
+*/
+import type { AnswerValue, BotLevel, GameRoom, PlayerProfile, RoomConfig } from "@shared/schema";
+
+export interface RoomTransport {
+  // Returns an unsubscribe function
+  subscribe(roomId: string, onRoom: (room: GameRoom | null, clockOffsetMs: number) => void): () => void;
+  createRoom(playerId: string, config: RoomConfig, profile?: PlayerProfile): Promise<GameRoom>;
+  joinRoom(roomId: string, playerId: string, profile?: PlayerProfile): Promise<GameRoom>;
+  startGame(roomId: string, playerId: string): Promise<GameRoom>;
+  // Host only; bots are run by the server, so not every transport has them
+  addBot(roomId: string, playerId: string, level: BotLevel): Promise<GameRoom>;
+  submitAnswer(roomId: string, playerId: string, questionIndex: number, answer: AnswerValue): Promise<GameRoom>;
+  advance(roomId: string, playerId: string, questionIndex: number): Promise<GameRoom>;
+  leaveRoom(roomId: string, playerId: string): Promise<void>;
+  // Finished rooms only; once every player has asked, the room is
+  // replaced by a new game under the same code
+  requestRematch(roomId: string, playerId: string): Promise<GameRoom>;
+}
@@ -0,0 +1,94 @@
+/*
+  AuthPage.tsx
+
+  Sign-in / sign-up screen shown at `/auth`. Both forms post the same
+  username + password pair through `useAuth`; once a user is signed in
+  the page redirects back to the game.
+*/
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import { Trophy } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+type AuthMode = "login" | "register";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Input
+        placeholder="Username"
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        data-testid="input-username"
+      />
+      <Input
+        type="password"
+        placeholder="Password"
+        autoComplete={mode === "login" ? "current-password" : "new-password"}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        data-testid="input-password"
+      />
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={mutation.isPending || !username.trim() || !password}
+        data-testid={`button-${mode}`}
+      >
+        {mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 home-container">
+      <Card className="w-full max-w-md neon-container terminal-panel">
+        <CardHeader className="text-center space-y-2">
+          <div className="flex justify-center mb-2">
+            <div className="w-16 h-16 rounded-full glass flex items-center justify-center cyber-outline">
+              <Trophy className="w-8 h-8" style={{ color: 'var(--cyber-primary)' }} />
+            </div>
+          </div>
+          <CardTitle className="text-4xl font-bold tracking-tight neon-heading">SAT Duel</CardTitle>
+          <CardDescription className="muted">Sign in to track your games.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+            <TabsList className="grid grid-cols-2 w-full mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Sign up</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">{form}</TabsContent>
+            <TabsContent value="register">
+              {form}
+              <p className="text-xs muted mt-3">
+                Usernames are 3-32 letters, numbers or underscores; passwords need at least 6 characters.
+              </p>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,116 +3,96 @@
 
   Main page for the SAT Duel application. This component is the
   orchestrator for the client-side game flow. Responsibilities:
-  - Maintain UI state (lobby, waiting, playing, gameover)
-  - Create/join/leave rooms through the `useGameRoom` hook
-  - Track player and opponent scores and selected answers
-  - Drive question progression using the shared `satQuestions` list
+  - Maintain UI state (lobby, practice, matchmaking, waiting, playing,
+    gameover, spectating), preceded by the access gate (`AccessGate`, until the
+    session has redeemed an access code) and the profile step (until the
+    player has a display name)
+  - Link admins to the teacher dashboard (`TeacherDashboard`, `/admin`),
+    which manages classes and access codes, and everyone to tournaments
+    (`/tournaments`); a finished tournament match leads back to its
+    bracket
+  - Create/join/leave rooms through the `useGameRoom` hook, or watch one
+    read-only as a spectator (`SpectatorView`), which never joins it
+  - Track player and opponent scores (or the full standings in
+    classroom rooms) and selected answers
+  - Drive question progression using the room's questions, fetched by id
+    from `GET /api/questions`
+  - Join the room named by a `?room=` link (the teacher dashboard and
+    tournaments send players in that way)
+  - Remember the open room for the tab (`lib/activeRoom.ts`) and rejoin
+    it after a reload; the server treats the dropped connection as a
+    disconnect and only forfeits the player after a grace period
 
   Key effects:
-  - Listen for room updates via Firebase (useGameRoom)
-  - When both players answer a question, determine correctness
-    and advance to the next question or show the GameOver screen
+  - Listen for room updates from the server (useGameRoom)
+  - When the server resolves a round, show each player's result and
+    ask the server to advance, or show the GameOver screen once the
+    room is finished (with a per-question `GameReview` from there)
+  - Play Again asks for a rematch; once every player has, the room
+    starts over with new questions and the game over screen gives way
+    to the new game
+  - Show a countdown banner while the duel opponent is disconnected
+  - Return to the lobby when the server expires an idle room
+  - Ask before leaving a duel in progress, which forfeits it (the same
+    outcome as staying disconnected past the grace period)
 
   Notes for contributors:
-  - Room state is stored in Firebase Realtime Database under
-    `rooms/{roomCode}`. The `useGameRoom` hook wraps those reads/writes.
-  - Questions are static and imported from `@shared/questions`.
+  - Room state is owned by the server (`server/rooms.ts`); correctness
+    and scores are computed there, never in this component.
+  - The question bank is served by the API, not bundled; see
+    `hooks/useQuestions.ts` and `lib/questions.ts`.
 */
 import { useState, useEffect, useMemo, useRef } from "react";
-import GameLobby from "@/components/GameLobby";
+import { useLocation, useSearch } from "wouter";
+import GameLobby, { type LobbyConfig } from "@/components/GameLobby";
 import WaitingRoom from "@/components/WaitingRoom";
 import ScoreBoard from "@/components/ScoreBoard";
+import Leaderboard from "@/components/Leaderboard";
 import QuestionDisplay from "@/components/QuestionDisplay";
 import GameOver from "@/components/GameOver";
+import GameReview from "@/components/GameReview";
+import ProfileSetup from "@/components/ProfileSetup";
+import MatchmakingQueue from "@/components/MatchmakingQueue";
+import PracticeSession from "@/components/PracticeSession";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import SpectatorView from "@/components/SpectatorView";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { GameState } from "@shared/schema";
-import { satQuestions } from "@shared/questions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  GameState,
+  type AnswerValue,
+  type BotLevel,
+  type PlayerProfile,
+  type PracticeAnswerResult,
+  type RedactedQuestion,
+  type RoomConfig,
+} from "@shared/schema";
+import { FORFEIT_GRACE_MS, answeredPlayers, getStandings, maxScore } from "@shared/gameRules";
+import { normalizeRoomCode } from "@shared/roomCodes";
+import { useQuestionBankSummary, useRoomQuestions } from "@/hooks/useQuestions";
 import { useGameRoom } from "@/hooks/useGameRoom";
+import { useMatchmaking } from "@/hooks/useMatchmaking";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { clearActiveRoom, loadActiveRoom, saveActiveRoom } from "@/lib/activeRoom";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useAccess } from "@/hooks/useAccess";
+import AccessGate from "@/components/AccessGate";
 
 export default function Home() {
-  // Local lock state — app shows password entry screen until unlocked for the day
-  const [unlocked, setUnlocked] = useState<boolean>(() => {
-    try {
-      const stored = localStorage.getItem("satDuelUnlockedDate");
-      const today = new Date().toISOString().slice(0, 10);
-      return stored === today;
-    } catch (e) {
-      return false;
-    }
-  });
-  const [passwordInput, setPasswordInput] = useState("");
-  const [isInputFocused, setIsInputFocused] = useState(false);
-  const [showAdminPrompt, setShowAdminPrompt] = useState(false);
-
-  const DAILY_SALT = "sat-duel-daily-salt-v1"; // deterministic salt for generating daily code
-
-  // simple seeded hash -> 32bit int (xmur3)
-  const xmur3 = (str: string) => {
-    let h = 1779033703 ^ str.length;
-    for (let i = 0; i < str.length; i++) {
-      h = Math.imul(h ^ str.charCodeAt(i), 3432918353);
-      h = (h << 13) | (h >>> 19);
-    }
-    return () => {
-      h = Math.imul(h ^ (h >>> 16), 2246822507);
-      h = Math.imul(h ^ (h >>> 13), 3266489909);
-      return (h ^= h >>> 16) >>> 0;
-    };
-  };
-
-  const getDailyPassword = (d = new Date()) => {
-    const day = d.toISOString().slice(0, 10); // YYYY-MM-DD
-    const seed = xmur3(day + DAILY_SALT)();
-    const pw = seed % 10000;
-    return pw.toString().padStart(4, "0");
-  };
-
-  // admin code as requested (hard-coded)
-  const ADMIN_CODE = "197577";
-
-  // Check stored unlock expiry on mount and whenever day changes
-  useEffect(() => {
-    const interval = setInterval(() => {
-      try {
-        const stored = localStorage.getItem("satDuelUnlockedDate");
-        const today = new Date().toISOString().slice(0, 10);
-        if (stored !== today) {
-          setUnlocked(false);
-        }
-      } catch (e) {
-        // ignore
-      }
-    }, 60 * 1000); // check every minute
-    return () => clearInterval(interval);
-  }, []);
-
-  const unlockWithPassword = (pw: string) => {
-    const expected = getDailyPassword();
-    if (pw === expected) {
-      const today = new Date().toISOString().slice(0, 10);
-      localStorage.setItem("satDuelUnlockedDate", today);
-      setUnlocked(true);
-      return true;
-    }
-    return false;
-  };
-
-  const handleAdminGetPassword = async () => {
-    const code = window.prompt("Enter admin code to reveal today's password:");
-    if (!code) return;
-    if (code === ADMIN_CODE) {
-      const pass = getDailyPassword();
-      toast({ title: "Daily password", description: `Today's password is ${pass}` });
-    } else {
-      toast({ title: "Invalid admin code", variant: "destructive" });
-    }
-  };
-
   const [gameState, setGameState] = useState<GameState>("lobby");
   const [roomCode, setRoomCode] = useState("");
-  const [selectedAnswer, setSelectedAnswer] = useState<number | undefined>();
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerValue | undefined>();
   const [playerScore, setPlayerScore] = useState(0);
   const [opponentScore, setOpponentScore] = useState(0);
   const [showExplanation, setShowExplanation] = useState(false);
@@ -120,74 +100,104 @@ export default function Home() {
   const [lastRoundResult, setLastRoundResult] = useState<{ playerCorrect: boolean; opponentCorrect: boolean } | null>(null);
   const { toast } = useToast();
   const processedQuestionRef = useRef<number>(-1);
-
-  // Generate a consistent player ID
-  const playerId = useMemo(() => {
-    const stored = localStorage.getItem("satDuelPlayerId");
-    if (stored) return stored;
-    const newId = `player_${Math.floor(Math.random() * 10000)}`;
-    localStorage.setItem("satDuelPlayerId", newId);
-    return newId;
-  }, []);
+  // Advance scheduled after the round of `questionIndex` resolved
+  const advanceTimerRef = useRef<{ questionIndex: number; timer: ReturnType<typeof setTimeout> } | null>(null);
+  // A room opened by a link from another page (`roomPath`) comes first;
+  // otherwise the tab's room is resumed after a reload
+  const search = useSearch();
+  const [linkedCode] = useState(() => new URLSearchParams(search).get("room"));
+  const [resumeCode] = useState(() => (linkedCode ? null : loadActiveRoom()));
+  const rejoiningRef = useRef(false);
+
+  // Home is only routed for signed-in users, so the account id is the player id
+  const { user, logoutMutation, updateProfileMutation } = useAuth();
+  const [, navigate] = useLocation();
+  const playerId = user!.id;
+  const profile = useMemo<PlayerProfile | undefined>(
+    () => (user?.displayName && user.avatar ? { displayName: user.displayName, avatar: user.avatar } : undefined),
+    [user?.displayName, user?.avatar],
+  );
+  const { status: access, isLoading: accessLoading, redeemMutation } = useAccess();
+  const [editingProfile, setEditingProfile] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  // Leaving a duel in progress forfeits it, so the player confirms first
+  const [confirmingLeave, setConfirmingLeave] = useState(false);
+  const [queueStartedAt, setQueueStartedAt] = useState<number>();
+  // Solo practice: the filters it was started with, the drawn questions
+  // and a run counter used to restart the session from scratch
+  const [practice, setPractice] = useState<{ config: RoomConfig; questions: RedactedQuestion[]; run: number } | null>(null);
+  const { status: queueStatus, enterQueue, leaveQueue } = useMatchmaking(gameState === "matchmaking");
 
   const {
     roomData,
     isConnected,
+    isMissing,
+    clockOffsetMs,
     createRoom,
     joinRoom,
+    startGame,
+    addBot,
     submitAnswer,
     nextQuestion,
     leaveRoom,
-    setScores,
-  } = useGameRoom(gameState === "lobby" ? null : roomCode, playerId);
-
-  // Compute supported modules from available questions so default config doesn't include unsupported modules
-  const supportedModules = useMemo(() => {
-    const set = new Set<string>();
-    Object.values(satQuestions).forEach((q) => set.add((q.module || "").toLowerCase()));
-    return Array.from(set).filter(Boolean);
-  }, []);
-
-  // Deterministic shuffle helper (seeded) so fallback ordering matches across clients
-  const seededShuffle = (arr: any[], seedInput: string) => {
-    // simple xmur3 + mulberry32 seeded RNG
-    const xmur3 = (str: string) => {
-      let h = 1779033703 ^ str.length;
-      for (let i = 0; i < str.length; i++) {
-        h = Math.imul(h ^ str.charCodeAt(i), 3432918353);
-        h = (h << 13) | (h >>> 19);
-      }
-      return () => {
-        h = Math.imul(h ^ (h >>> 16), 2246822507);
-        h = Math.imul(h ^ (h >>> 13), 3266489909);
-        return (h ^= h >>> 16) >>> 0;
-      };
-    };
-
-    const mulberry32 = (a: number) => {
-      return () => {
-        let t = (a += 0x6D2B79F5);
-        t = Math.imul(t ^ (t >>> 15), t | 1);
-        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-      };
-    };
-
-    const seed = xmur3(seedInput)();
-    const rand = mulberry32(seed);
-    const copy = arr.slice();
-    for (let i = copy.length - 1; i > 0; i--) {
-      const j = Math.floor(rand() * (i + 1));
-      [copy[i], copy[j]] = [copy[j], copy[i]];
+    requestRematch,
+  } = useGameRoom(gameState === "lobby" ? null : roomCode, playerId, profile);
+
+  // Keep the open room's code for the tab so a reload can come back to it
+  useEffect(() => {
+    if (roomCode && ["waiting", "playing", "gameover"].includes(gameState)) {
+      saveActiveRoom(roomCode);
+    } else {
+      clearActiveRoom();
     }
-    return copy;
-  };
+  }, [roomCode, gameState]);
+
+  // After a reload, rejoin the saved room (joining is a no-op for members).
+  // The transitions below then move on to whatever state the room is in.
+  useEffect(() => {
+    if (!resumeCode) return;
+    joinRoom(resumeCode).then((success) => {
+      if (!success) return;
+      rejoiningRef.current = true;
+      setRoomCode(resumeCode);
+      setGameState("waiting");
+    });
+  }, [resumeCode]);
+
+  // Join the room from a `?room=` link, then drop the parameter so a
+  // reload resumes through the saved room like any other
+  useEffect(() => {
+    if (!linkedCode) return;
+    navigate("/", { replace: true });
+    joinRoom(linkedCode).then((success) => {
+      if (!success) {
+        toast({ title: "Error", description: `Could not open room ${linkedCode}.`, variant: "destructive" });
+        return;
+      }
+      setRoomCode(linkedCode);
+      setGameState("waiting");
+    });
+  }, [linkedCode]);
+
+  // Modules with questions, used when the lobby config doesn't pick any
+  const summary = useQuestionBankSummary();
+  const supportedModules = useMemo(() => Object.keys(summary?.byModule ?? {}), [summary]);
 
   // Determine which question the room is currently on and the opponent's id
   const currentQuestionIndex = roomData?.currentQuestion || 0;
   const opponentId = roomData?.players?.find((id) => id !== playerId);
 
-  // Sync scores from Firebase
+  // Rooms with more than two players use the leaderboard instead of the duel scoreboard
+  const isGroupRoom = (roomData?.config?.maxPlayers ?? 2) > 2;
+  const isHost = roomData?.players?.[0] === playerId;
+  const opponentProfile = opponentId ? roomData?.profiles?.[opponentId] : undefined;
+  // Room clock, converted to the local clock like question deadlines
+  const opponentDisconnectedAt = opponentId ? roomData?.disconnectedAt?.[opponentId] : undefined;
+  const opponentForfeitsAt =
+    opponentDisconnectedAt !== undefined ? opponentDisconnectedAt + FORFEIT_GRACE_MS - clockOffsetMs : undefined;
+  const standings = useMemo(() => (roomData ? getStandings(roomData) : []), [roomData?.players, roomData?.scores]);
+
+  // Sync scores from the room
   useEffect(() => {
     if (roomData?.scores) {
       setPlayerScore(roomData.scores[playerId] || 0);
@@ -195,57 +205,8 @@ export default function Home() {
     }
   }, [roomData?.scores, playerId, opponentId]);
 
-  // Build the questions list according to room config (modules, difficulties, numQuestions)
-  const questions = useMemo(() => {
-    // If the room has a persisted question order, use it so all players see the same questions
-    if (roomData?.questions && Array.isArray(roomData.questions) && roomData.questions.length > 0) {
-      const byId = new Map(Object.values(satQuestions).map((q) => [q.id, q]));
-      const mapped = roomData.questions.map((id) => byId.get(id)).filter(Boolean) as typeof satQuestions;
-      if (mapped.length > 0) return mapped;
-    }
-
-    // Fallback: build list from config (used when no questions were persisted)
-    const all = Object.values(satQuestions);
-    const modules = roomData?.config?.modules;
-    const difficulties = roomData?.config?.difficulties;
-    const num = roomData?.config?.numQuestions;
-    
-    let filtered = all;
-
-    // If no modules selected, use all modules
-    if (modules && modules.length > 0) {
-      filtered = filtered.filter((q) => {
-        const questionModule = q.module.toLowerCase();
-        return modules.some(m => m.toLowerCase() === questionModule);
-      });
-    }
-    
-    if (difficulties && difficulties.length > 0) {
-      filtered = filtered.filter((q) => q.difficulty && difficulties.includes(q.difficulty));
-    }
-
-    // Ensure we have enough questions, if not, add more from other modules
-    if (filtered.length < (num || 10)) {
-      const remainingCount = (num || 10) - filtered.length;
-      const otherQuestions = all
-        .filter(q => !filtered.includes(q))
-        .sort(() => Math.random() - 0.5)
-        .slice(0, remainingCount);
-      filtered = [...filtered, ...otherQuestions];
-    }
-
-  // Randomize the order deterministically using the room code as a seed so both
-  // clients will produce the same fallback order if the persisted `questions`
-  // array hasn't arrived yet.
-  const seed = roomCode || JSON.stringify(roomData?.config) || "default-seed";
-  filtered = seededShuffle(filtered, seed);
-
-    if (num && num > 0) {
-      filtered = filtered.slice(0, num);
-    }
-
-    return filtered.length > 0 ? filtered : all;
-  }, [roomData?.config]);
+  // The room's questions in the order the server drew them
+  const { questions = [], isLoading: questionsLoading } = useRoomQuestions(roomData?.questions);
 
   // Reset selected answer when question changes
   useEffect(() => {
@@ -263,83 +224,137 @@ export default function Home() {
     // eslint-disable-next-line no-console
     console.debug("Home: roomData ->", roomData);
 
-    // Transition from waiting to playing when second player joins
-    if (gameState === "waiting" && roomData.started && roomData.players?.length === 2) {
+    // Transition from waiting to playing once the room starts (duels start
+    // when the second player joins, classroom rooms when the host starts).
+    // A rejoined room may already be over.
+    if (gameState === "waiting" && roomData.finished) {
+      rejoiningRef.current = false;
+      setGameState("gameover");
+    } else if (gameState === "waiting" && roomData.started) {
       setGameState("playing");
-      toast({
-        title: "Opponent joined!",
-        description: "The duel begins now!",
-      });
+      if (rejoiningRef.current) {
+        rejoiningRef.current = false;
+        toast({ title: "Reconnected", description: "You're back in the game." });
+      } else {
+        toast({
+          title: isGroupRoom ? "Battle started!" : "Duel started!",
+          description: isGroupRoom ? "Good luck, everyone!" : "The duel begins now!",
+        });
+      }
     }
-  }, [roomData, gameState, toast]);
 
-  // Handle answer processing
+    // The server marks the room finished once the last round was advanced past
+    if (gameState === "playing" && roomData.finished) {
+      setGameState("gameover");
+    }
+
+    // Everyone accepted the rematch: the room now holds the new game
+    if (gameState === "gameover" && roomData.started && !roomData.finished) {
+      setShowReview(false);
+      setSelectedAnswer(undefined);
+      processedQuestionRef.current = -1;
+      setShowResult(false);
+      setLastRoundResult(null);
+      setGameState("playing");
+      toast({ title: "Rematch started!", description: "New questions, same opponents." });
+    }
+  }, [roomData, gameState, isGroupRoom, toast]);
+
+  // Idle rooms expire on the server; there is nothing left to do in them
+  const roomExpired = roomData?.expiredAt !== undefined;
+  useEffect(() => {
+    if (!roomExpired || gameState === "lobby") return;
+    setShowReview(false);
+    setSelectedAnswer(undefined);
+    processedQuestionRef.current = -1;
+    setRoomCode("");
+    setGameState("lobby");
+    toast({
+      title: "Room expired",
+      description: "This room was closed after being idle for too long.",
+    });
+  }, [roomExpired]);
+
+  // The watched room doesn't exist, or closed while being watched
+  useEffect(() => {
+    if (gameState !== "spectating" || !isMissing) return;
+    setRoomCode("");
+    setGameState("lobby");
+    toast({ title: "Room unavailable", description: "No open room has this code, or it has just closed." });
+  }, [gameState, isMissing]);
+
+  // Matchmaking found a ranked duel: it has already started, so the
+  // waiting -> playing transition above takes over from here
+  useEffect(() => {
+    if (gameState === "matchmaking" && queueStatus?.status === "matched") {
+      setRoomCode(queueStatus.roomId);
+      setGameState("waiting");
+    }
+  }, [gameState, queueStatus]);
+
+  // Ranked results change the player's rating; refresh the signed-in user
+  const ownRatingChange = roomData?.ratingChanges?.[playerId];
+  useEffect(() => {
+    if (ownRatingChange) queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  }, [ownRatingChange?.after]);
+
+  // Show the round result once the server has resolved it, then ask the
+  // server to advance. Both clients send the same request; the server
+  // only acts on the first one. Rebroadcasts of the same round (presence
+  // changes, resubscribe snapshots, players leaving) rerun this effect,
+  // so the pending advance lives in a ref and is only dropped when the
+  // question or game state changes (below).
   useEffect(() => {
     if (!roomData || gameState !== "playing") return;
     if (processedQuestionRef.current === currentQuestionIndex) return;
 
-    const playerAnswer = roomData.answers?.[playerId];
-    const opponentAnswer = roomData.answers?.[opponentId || ""];
-
-    // Both players have answered
-    if (playerAnswer !== undefined && opponentAnswer !== undefined) {
-      processedQuestionRef.current = currentQuestionIndex;
-
-      const safeIndex = Math.max(0, Math.min(currentQuestionIndex, questions.length - 1));
-      const currentQuestion = questions[safeIndex];
-      if (!currentQuestion) return; // defensive
-
-      const playerChoice = currentQuestion.content.answerOptions[playerAnswer];
-      const opponentChoice = currentQuestion.content.answerOptions[opponentAnswer];
-      const playerCorrect = currentQuestion.content.correct_answer.includes(playerChoice);
-      const opponentCorrect = currentQuestion.content.correct_answer.includes(opponentChoice);
-      // Calculate new scores
-      const newPlayerScore = playerScore + (playerCorrect ? 1 : 0);
-      const newOpponentScore = opponentScore + (opponentCorrect ? 1 : 0);
-
-  // Update local scores
-      setPlayerScore(newPlayerScore);
-      setOpponentScore(newOpponentScore);
-
-  // Show result to the user before moving on
-  setLastRoundResult({ playerCorrect, opponentCorrect });
-  setShowResult(true);
-
-      // Persist scores to the room so both clients stay in sync
-      try {
-        if (setScores) {
-          const toUpdate: Record<string, number> = {};
-          toUpdate[playerId] = newPlayerScore;
-          if (opponentId) toUpdate[opponentId] = newOpponentScore;
-          setScores(roomCode, toUpdate);
-        }
-      } catch (err) {
-        // ignore - setScores logs errors
-      }
+    const results = roomData.roundResults;
+    if (!results) return;
+
+    processedQuestionRef.current = currentQuestionIndex;
+    setLastRoundResult({
+      playerCorrect: results[playerId] ?? false,
+      opponentCorrect: results[opponentId || ""] ?? false,
+    });
+    setShowResult(true);
+
+    // Move to next question or end game after delay (give user time to see the correct answer)
+    const questionIndex = currentQuestionIndex;
+    const timer = setTimeout(() => {
+      advanceTimerRef.current = null;
+      setShowResult(false);
+      setLastRoundResult(null);
+      nextQuestion(roomCode, questionIndex + 1);
+    }, 3000);
+    advanceTimerRef.current = { questionIndex, timer };
+  }, [roomData?.roundResults, gameState, currentQuestionIndex, playerId, opponentId, roomCode, nextQuestion]);
+
+  useEffect(
+    () => () => {
+      if (advanceTimerRef.current) clearTimeout(advanceTimerRef.current.timer);
+      advanceTimerRef.current = null;
+    },
+    [currentQuestionIndex, gameState],
+  );
 
-      // Move to next question or end game after delay (give user time to see the correct answer)
-      setTimeout(() => {
-        setShowResult(false);
-        setLastRoundResult(null);
-        if (currentQuestionIndex < questions.length - 1) {
-          nextQuestion(roomCode, currentQuestionIndex + 1);
-        } else {
-          setGameState("gameover");
-        }
-      }, 3000);
-    }
-  }, [roomData?.answers, gameState, currentQuestionIndex, playerId, opponentId, playerScore, opponentScore, roomCode, nextQuestion]);
+  const toRoomConfig = (config?: LobbyConfig): RoomConfig => ({
+    // If the caller supplied modules, use them; otherwise default to supported modules (usually math)
+    modules: config?.modules?.length ? config.modules : supportedModules.length ? supportedModules : ["math"],
+    difficulties: (config?.difficulties || ["E", "M", "H"]) as RoomConfig["difficulties"],
+    numQuestions: config?.numQuestions || 10,
+    skills: config?.skills?.length ? config.skills : undefined,
+    maxPlayers: config?.maxPlayers || 2,
+    answerQuorum: config?.answerQuorum || 1,
+    timeLimitSeconds: config?.timeLimitSeconds,
+    speedBonus: Boolean(config?.timeLimitSeconds && config?.speedBonus),
+    adaptive: config?.adaptive,
+  });
 
-  const handleCreateRoom = async (code: string, config?: { modules?: string[]; difficulties?: string[]; numQuestions?: number }) => {
+  const handleCreateRoom = async (config?: LobbyConfig) => {
     try {
-      const formattedConfig = {
-        // If the caller supplied modules, use them; otherwise default to supported modules (usually math)
-        modules: config?.modules || supportedModules || ["math"],
-        difficulties: config?.difficulties || ["E", "M", "H"],
-        numQuestions: config?.numQuestions || 10
-      };
-      const success = await createRoom(code, formattedConfig);
-      if (success) {
+      const formattedConfig = toRoomConfig(config);
+      const code = await createRoom(formattedConfig);
+      if (code) {
         setRoomCode(code);
         setGameState("waiting");
       } else {
@@ -355,11 +370,67 @@ export default function Home() {
     }
   };
 
-  const handleJoinRoom = async (code: string) => {
+  // Practice has no room: the server draws questions with the same filters
+  // rooms use and reveals each answer once it is submitted
+  const startPractice = async (config: RoomConfig) => {
+    let drawn: RedactedQuestion[];
+    try {
+      const res = await apiRequest("POST", "/api/practice", { config });
+      drawn = (await res.json()).questions;
+    } catch (error) {
+      const noMatch = error instanceof Error && error.message.startsWith("422");
+      if (!noMatch) console.error("Error loading practice questions:", error);
+      toast({
+        title: noMatch ? "No questions" : "Error",
+        description: noMatch
+          ? "No questions match the selected modules and difficulties."
+          : "Could not load questions. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPractice((prev) => ({ config, questions: drawn, run: (prev?.run ?? 0) + 1 }));
+    setGameState("practice");
+  };
+
+  const checkPracticeAnswer = async (questionId: string, answer: AnswerValue): Promise<PracticeAnswerResult> => {
+    const res = await apiRequest("POST", "/api/practice/answer", { questionId, answer });
+    return res.json();
+  };
+
+  const handleExitPractice = () => {
+    setPractice(null);
+    setGameState("lobby");
+  };
+
+  const handlePlayRanked = async () => {
+    setQueueStartedAt(Date.now());
+    setGameState("matchmaking");
+    try {
+      await enterQueue();
+    } catch (error) {
+      console.error("Matchmaking error:", error);
+      setGameState("lobby");
+      toast({
+        title: "Error",
+        description: "Could not join the ranked queue. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancelQueue = () => {
+    leaveQueue();
+    setGameState("lobby");
+  };
+
+  const handleJoinRoom = async (input: string) => {
+    const code = normalizeRoomCode(input);
     const success = await joinRoom(code);
     if (success) {
+      // Stay in the waiting room until the room has started
       setRoomCode(code);
-      setGameState("playing");
+      setGameState("waiting");
       toast({
         title: "Joined room!",
         description: "Get ready to duel!",
@@ -367,30 +438,76 @@ export default function Home() {
     } else {
       toast({
         title: "Error",
-        description: "Room not found or already full. Please check the code.",
+        description: "Room not found, full or already started. Check the code, or watch the room instead.",
         variant: "destructive",
       });
     }
   };
 
-  const handleAnswer = (answerIndex: number) => {
-    setSelectedAnswer(answerIndex);
-    submitAnswer(roomCode, answerIndex);
+  // Spectators only subscribe; the room is never joined
+  const handleWatchRoom = (input: string) => {
+    setRoomCode(normalizeRoomCode(input));
+    setGameState("spectating");
   };
 
-  const handlePlayAgain = () => {
-    setSelectedAnswer(undefined);
-    setPlayerScore(0);
-    setOpponentScore(0);
-    processedQuestionRef.current = -1;
-    nextQuestion(roomCode, 0);
-    setGameState("playing");
+  const handleStopWatching = () => {
+    setRoomCode("");
+    setGameState("lobby");
+  };
+
+  const handleStartGame = async () => {
+    const success = await startGame(roomCode);
+    if (!success) {
+      toast({
+        title: "Error",
+        description: "Could not start the game. At least two players are needed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddBot = async (level: BotLevel) => {
+    const success = await addBot(roomCode, level);
+    if (!success) {
+      toast({
+        title: "Error",
+        description: "Could not add a bot to this room.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAnswer = async (answer: AnswerValue) => {
+    setSelectedAnswer(answer);
+    const success = await submitAnswer(roomCode, answer);
+    if (!success) {
+      // Unlock the choices; the room state shows what happened instead
+      setSelectedAnswer(undefined);
+      toast({
+        title: "Answer not accepted",
+        description: "The round may already be over, or the room has closed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The new game arrives through the subscription (see the transitions above)
+  const handlePlayAgain = async () => {
+    const success = await requestRematch(roomCode);
+    if (!success) {
+      toast({
+        title: "Rematch unavailable",
+        description: "This game can't be replayed. Create a new room instead.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleNewRoom = () => {
     if (roomCode) {
       leaveRoom(roomCode);
     }
+    setShowReview(false);
     setSelectedAnswer(undefined);
     setPlayerScore(0);
     setOpponentScore(0);
@@ -399,6 +516,23 @@ export default function Home() {
     setGameState("lobby");
   };
 
+  // Same outcome as staying disconnected past the grace period, only
+  // right away: the server forfeits a duel in progress on leave
+  const handleLeaveGame = () => {
+    if (!isGroupRoom && roomData?.started && !roomData.finished && roomData.players.length === 2) {
+      setConfirmingLeave(true);
+    } else {
+      handleNewRoom();
+    }
+  };
+
+  const handleBackToTournament = (tournamentId: string) => {
+    leaveRoom(roomCode);
+    // Home unmounts before its effect would forget the room
+    clearActiveRoom();
+    navigate(`/tournaments/${tournamentId}`);
+  };
+
   const handleCancel = () => {
     if (roomCode) {
       leaveRoom(roomCode);
@@ -407,60 +541,118 @@ export default function Home() {
     setRoomCode("");
   };
 
-  // If app locked for the day, show password entry screen before any other UI
-  if (!unlocked) {
+  // The server decides whether this session may play (see `server/access.ts`)
+  if (!access?.granted) {
+    if (accessLoading) return null;
     return (
-      <div className="min-h-screen flex items-center justify-center p-4 home-container">
-        <div style={{ position: 'absolute', top: 16, right: 16 }}>
-          <Button size="sm" variant="outline" onClick={handleAdminGetPassword}>Get password</Button>
-        </div>
-  <Card className="w-full max-w-md neon-container terminal-panel">
-          <CardContent className="p-6 text-center">
-            <h2 className="text-2xl neon-heading mb-2">Enter 4-digit password</h2>
-            <p className="muted text-sm mb-4">Enter today's access code to continue</p>
-            <div className={`terminal-input-wrapper ${isInputFocused || passwordInput.length>0 ? 'focused typing' : ''}`}>
-              <input
-                type="password"
-                inputMode="numeric"
-                maxLength={4}
-                value={passwordInput}
-                onChange={(e) => setPasswordInput(e.target.value.replace(/[^0-9]/g, '').slice(0,4))}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') {
-                    const ok = unlockWithPassword(passwordInput);
-                    if (!ok) toast({ title: 'Incorrect password', variant: 'destructive' });
-                  }
-                }}
-                onFocus={() => setIsInputFocused(true)}
-                onBlur={() => setIsInputFocused(false)}
-                placeholder="0000"
-                className="mx-auto text-center"
-              />
-              <span className="terminal-underline" />
-              <span className="caret" />
-            </div>
-            <div className="mt-4 flex gap-2 justify-center">
-              <Button onClick={() => {
-                const ok = unlockWithPassword(passwordInput);
-                if (!ok) toast({ title: 'Incorrect password', variant: 'destructive' });
-              }}>
-                Submit
-              </Button>
-              <Button variant="ghost" onClick={() => setPasswordInput('')}>Clear</Button>
-            </div>
-            <p className="text-xs muted mt-4">The 4-digit code rotates daily.</p>
-          </CardContent>
-        </Card>
-      </div>
+      <AccessGate
+        onSubmit={(code) => redeemMutation.mutate(code)}
+        isSubmitting={redeemMutation.isPending}
+        error={redeemMutation.error ? "This access code is invalid, expired or used up." : undefined}
+      />
+    );
+  }
+
+  if (gameState === "lobby" && (!profile || editingProfile)) {
+    return (
+      <ProfileSetup
+        initialProfile={profile}
+        isSaving={updateProfileMutation.isPending}
+        onCancel={profile ? () => setEditingProfile(false) : undefined}
+        onSave={(next) =>
+          updateProfileMutation.mutate(next, { onSuccess: () => setEditingProfile(false) })
+        }
+      />
     );
   }
 
   if (gameState === "lobby") {
-    return <GameLobby onCreateRoom={handleCreateRoom} onJoinRoom={handleJoinRoom} />;
+    return (
+      <>
+        <div style={{ position: 'absolute', top: 16, right: 16 }} className="flex items-center gap-2">
+          <PlayerAvatar seed={profile?.avatar} size={32} />
+          <span className="text-sm muted" data-testid="text-username">{profile?.displayName ?? user!.username}</span>
+          <Button size="sm" variant="ghost" onClick={() => setEditingProfile(true)} data-testid="button-edit-profile">
+            Edit profile
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => navigate("/tournaments")} data-testid="button-tournaments">
+            Tournaments
+          </Button>
+          {user!.isAdmin && (
+            <Button size="sm" variant="ghost" onClick={() => navigate("/admin")} data-testid="button-teacher-dashboard">
+              Teacher dashboard
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => logoutMutation.mutate()} data-testid="button-logout">
+            Sign out
+          </Button>
+        </div>
+        <GameLobby
+          onCreateRoom={handleCreateRoom}
+          onJoinRoom={handleJoinRoom}
+          onWatchRoom={handleWatchRoom}
+          onPlayRanked={handlePlayRanked}
+          onPractice={(config) => startPractice(toRoomConfig(config))}
+          rating={user!.rating}
+        />
+      </>
+    );
   }
 
   if (gameState === "waiting") {
-    return <WaitingRoom roomCode={roomCode} onCancel={handleCancel} />;
+    return (
+      <WaitingRoom
+        roomCode={roomCode}
+        onCancel={handleCancel}
+        players={roomData?.players}
+        profiles={roomData?.profiles}
+        maxPlayers={roomData?.config?.maxPlayers}
+        isHost={isHost}
+        onStart={handleStartGame}
+        onAddBot={handleAddBot}
+      />
+    );
+  }
+
+  if (gameState === "spectating") {
+    return (
+      <SpectatorView
+        roomCode={roomCode}
+        room={roomData}
+        questions={questions}
+        clockOffsetMs={clockOffsetMs}
+        onLeave={handleStopWatching}
+      />
+    );
+  }
+
+  if (gameState === "practice" && practice) {
+    return (
+      <PracticeSession
+        key={practice.run}
+        questions={practice.questions}
+        onRestart={() => startPractice(practice.config)}
+        checkAnswer={checkPracticeAnswer}
+        onExit={handleExitPractice}
+      />
+    );
+  }
+
+  if (gameState === "matchmaking") {
+    return <MatchmakingQueue rating={user!.rating} queuedAt={queueStartedAt} onCancel={handleCancelQueue} />;
+  }
+
+  if (gameState === "gameover" && showReview) {
+    return (
+      <GameReview
+        questions={questions}
+        rounds={roomData?.rounds ?? []}
+        players={roomData?.players ?? [playerId]}
+        profiles={roomData?.profiles}
+        playerId={playerId}
+        onBack={() => setShowReview(false)}
+      />
+    );
   }
 
   if (gameState === "gameover") {
@@ -470,16 +662,74 @@ export default function Home() {
         opponentScore={opponentScore}
         // Use the actual quiz length (questions selected for this room) instead
         totalQuestions={questions.length}
+        maxScore={roomData ? maxScore(roomData.config, questions.length) : undefined}
         onPlayAgain={handlePlayAgain}
         onNewRoom={handleNewRoom}
+        onReview={() => setShowReview(true)}
+        ratingChange={ownRatingChange}
+        standings={standings}
+        playerId={playerId}
+        playerName={profile?.displayName}
+        opponentName={opponentProfile?.displayName}
+        playerAvatar={profile?.avatar}
+        opponentAvatar={opponentProfile?.avatar}
+        forfeitedBy={
+          roomData?.forfeitedBy ? (roomData.forfeitedBy === playerId ? "player" : "opponent") : undefined
+        }
+        onBackToTournament={
+          roomData?.tournament ? () => handleBackToTournament(roomData.tournament!.tournamentId) : undefined
+        }
+        rematch={
+          roomData
+            ? {
+                requested: roomData.rematchRequests?.includes(playerId) ?? false,
+                requestedBy: (roomData.rematchRequests ?? [])
+                  .filter((id) => id !== playerId)
+                  .map((id) => roomData.profiles?.[id]?.displayName ?? "A player"),
+                unavailable: roomData.config.ranked
+                  ? "Ranked duels can't be replayed. Queue again for a new ranked match."
+                  : roomData.players.length < 2
+                    ? "Everyone else has left the room."
+                    : undefined,
+              }
+            : undefined
+        }
       />
     );
   }
 
   // Playing state
-  const isWaiting = selectedAnswer !== undefined && !roomData?.answers?.[opponentId || ""];
+  const leaveDialog = (
+    <AlertDialog open={confirmingLeave} onOpenChange={setConfirmingLeave}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Forfeit this duel?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Leaving now ends the duel in {opponentProfile?.displayName ?? "your opponent"}'s favour
+            {roomData?.config.ranked ? " and counts as a ranked loss" : ""}, just like staying disconnected
+            for more than {FORFEIT_GRACE_MS / 1000} seconds.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-keep-playing">Keep playing</AlertDialogCancel>
+          <AlertDialogAction onClick={handleNewRoom} data-testid="button-confirm-forfeit">
+            Forfeit and leave
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  const isWaiting = selectedAnswer !== undefined && !roomData?.roundResults;
   // Defensive: ensure we have at least one question and the index is valid
-  if (!questions || questions.length === 0) {
+  if (questionsLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-dark py-8 flex items-center justify-center">
+        <p className="text-lg neon-text" data-testid="text-loading-questions">Loading questions...</p>
+      </div>
+    );
+  }
+  if (questions.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-dark py-8 flex items-center justify-center">
         <div className="text-center animate-fadeIn">
@@ -487,8 +737,9 @@ export default function Home() {
             <p className="text-lg font-semibold neon-text">No questions available for this room configuration.</p>
             <p className="text-sm text-muted-foreground mt-2">Try changing the room settings or creating a new room.</p>
             <div className="mt-4">
-              <Button variant="outline" className="neon-hover neon-text" onClick={handleNewRoom}>Leave Room</Button>
+              <Button variant="outline" className="neon-hover neon-text" onClick={handleLeaveGame}>Leave Room</Button>
             </div>
+            {leaveDialog}
           </Card>
         </div>
       </div>
@@ -497,35 +748,63 @@ export default function Home() {
 
   const safeIndex = Math.max(0, Math.min(currentQuestionIndex, questions.length - 1));
   const currentQuestion = questions[safeIndex];
+  // The answer key arrives with the resolved round
+  const currentReveal = roomData?.roundResults
+    ? roomData.rounds?.find((round) => round.questionId === currentQuestion.id)?.reveal
+    : undefined;
 
   return (
     <div className="min-h-screen bg-gradient-dark py-8 space-y-6">
       <div className="max-w-2xl mx-auto px-4 mb-4 flex justify-between items-center">
-        <Button variant="outline" className="neon-hover neon-text" onClick={handleNewRoom}>Leave Room</Button>
+        <Button variant="outline" className="neon-hover neon-text" onClick={handleLeaveGame} data-testid="button-leave-game">
+          Leave Room
+        </Button>
       </div>
-      <ScoreBoard
-        playerScore={playerScore}
-        opponentScore={opponentScore}
-        currentQuestion={safeIndex + 1}
-        totalQuestions={questions.length}
-      />
+      {leaveDialog}
+      {isGroupRoom ? (
+        <Leaderboard
+          standings={standings}
+          playerId={playerId}
+          currentQuestion={safeIndex + 1}
+          totalQuestions={questions.length}
+          answeredIds={roomData ? answeredPlayers(roomData) : []}
+        />
+      ) : (
+        <ScoreBoard
+          playerScore={playerScore}
+          opponentScore={opponentScore}
+          currentQuestion={safeIndex + 1}
+          totalQuestions={questions.length}
+          playerName={profile?.displayName}
+          opponentName={opponentProfile?.displayName}
+          playerAvatar={profile?.avatar}
+          opponentAvatar={opponentProfile?.avatar}
+          opponentForfeitsAt={opponentForfeitsAt}
+        />
+      )}
       <QuestionDisplay
         question={currentQuestion}
         onAnswer={handleAnswer}
+        // A teacher running the room follows along without answering
+        readOnly={isHost && Boolean(roomData?.config.hostSpectates)}
         selectedAnswer={selectedAnswer}
         isWaiting={isWaiting}
         showExplanation={showExplanation}
         showResult={showResult}
         isCorrect={lastRoundResult?.playerCorrect ?? false}
+        reveal={currentReveal}
+        // Convert the room clock deadline to the local clock
+        deadline={roomData?.questionDeadline !== undefined ? roomData.questionDeadline - clockOffsetMs : undefined}
+        timeLimitSeconds={roomData?.config?.timeLimitSeconds}
       />
-      {showExplanation && currentQuestion.content.rationale && (
+      {showExplanation && currentReveal?.rationale && (
         <div className="max-w-2xl mx-auto px-4 mt-4 animate-fadeIn">
           <Card className="neon-container">
             <CardContent className="pt-4">
               <h3 className="font-semibold mb-2 neon-text">Explanation:</h3>
               <div 
                 className="prose prose-sm max-w-none question-content" 
-                dangerouslySetInnerHTML={{ __html: currentQuestion.content.rationale }} 
+                dangerouslySetInnerHTML={{ __html: currentReveal.rationale }} 
               />
             </CardContent>
           </Card>
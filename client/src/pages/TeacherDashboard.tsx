@@ -0,0 +1,248 @@
+/*
+  TeacherDashboard.tsx
+
+  Admin area (`/admin`) for teachers. Responsibilities:
+  - Create classes and pick the one to manage
+  - Show each student's progress (games, wins, accuracy per skill and
+    recent games, see `StudentProgressList`)
+  - Issue and revoke the class's access codes; redeeming one enrolls the
+    student in the class (`AccessCodeManager`). Codes without a class are
+    managed in their own panel.
+  - Save room presets and start a class room from one: the room is
+    created here with the teacher as a host who doesn't answer
+    (`config.hostSpectates`), then opened in `Home` through a `?room=`
+    link (`roomPath` in `lib/activeRoom.ts`), which shows its waiting
+    room with the code
+
+  Only admins get the dashboard; everyone else is sent back to `/`. The
+  server enforces the same rule on every endpoint used here.
+*/
+import { useEffect, useMemo, useState } from "react";
+import { Redirect, useLocation } from "wouter";
+import { ArrowLeft, GraduationCap, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { CreateAccessCodeRequest, PlayerProfile, RoomPreset } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useAccessCodes } from "@/hooks/useAccess";
+import { useClasses, useClassProgress } from "@/hooks/useClasses";
+import { useGameRoom } from "@/hooks/useGameRoom";
+import { useQuestionBankSummary } from "@/hooks/useQuestions";
+import { roomPath } from "@/lib/activeRoom";
+import AccessCodeManager from "@/components/AccessCodeManager";
+import ClassPresets from "@/components/ClassPresets";
+import StudentProgressList from "@/components/StudentProgressList";
+
+export default function TeacherDashboard() {
+  const { user } = useAuth();
+  // Routed through ProtectedRoute, so someone is signed in
+  return user!.isAdmin ? <Dashboard /> : <Redirect to="/" />;
+}
+
+function Dashboard() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [newClassName, setNewClassName] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const profile = useMemo<PlayerProfile | undefined>(
+    () => (user?.displayName && user.avatar ? { displayName: user.displayName, avatar: user.avatar } : undefined),
+    [user?.displayName, user?.avatar],
+  );
+  const { classes, isLoading, createMutation } = useClasses();
+  const { progress, updatePresetsMutation } = useClassProgress(selectedId);
+  const accessCodes = useAccessCodes(true);
+  const summary = useQuestionBankSummary();
+  const modules = useMemo(() => Object.keys(summary?.byModule ?? {}), [summary]);
+  // Not subscribed to any room; only used to create one
+  const { createRoom } = useGameRoom(null, user!.id, profile);
+
+  // Open the newest class until the teacher picks one
+  useEffect(() => {
+    if (selectedId === null && classes.length > 0) setSelectedId(classes[0].id);
+  }, [classes, selectedId]);
+
+  const selected = classes.find((schoolClass) => schoolClass.id === selectedId);
+  const classCodes = accessCodes.codes.filter((code) => code.classId === selectedId);
+  const otherCodes = accessCodes.codes.filter((code) => code.classId === null);
+
+  const handleIssue = (request: CreateAccessCodeRequest) =>
+    accessCodes.issueMutation.mutate(request, {
+      onError: (error) => toast({ title: "Could not issue code", description: error.message, variant: "destructive" }),
+    });
+
+  const handleCreateClass = () => {
+    const name = newClassName.trim();
+    if (!name) return;
+    createMutation.mutate(name, {
+      onSuccess: (created) => {
+        setNewClassName("");
+        setSelectedId(created.id);
+      },
+      onError: (error) => toast({ title: "Could not create class", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleSavePresets = (presets: RoomPreset[]) => {
+    updatePresetsMutation.mutate(presets, {
+      onError: (error) => toast({ title: "Could not save presets", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleStartPreset = async (preset: RoomPreset) => {
+    setIsStarting(true);
+    // The teacher runs the room; rounds only wait for the students
+    const code = await createRoom({ ...preset.config, hostSpectates: true });
+    setIsStarting(false);
+    if (!code) {
+      toast({ title: "Error", description: "Could not create room. Please try again.", variant: "destructive" });
+      return;
+    }
+    // Home opens the linked room and shows its waiting room with the code
+    navigate(roomPath(code));
+  };
+
+  return (
+    <div className="min-h-screen p-6 home-container">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <GraduationCap className="w-8 h-8 neon-text" />
+          <h1 className="text-3xl font-bold neon-heading flex-1">Teacher dashboard</h1>
+          <Button variant="outline" onClick={() => navigate("/")} data-testid="button-back-to-game">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to game
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+          <div className="space-y-6">
+            <Card className="neon-container terminal-panel">
+              <CardHeader>
+                <CardTitle className="text-lg neon-heading">Classes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    data-testid="input-class-name"
+                    placeholder="New class name"
+                    maxLength={60}
+                    value={newClassName}
+                    onChange={(e) => setNewClassName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleCreateClass();
+                    }}
+                  />
+                  <Button
+                    onClick={handleCreateClass}
+                    disabled={!newClassName.trim() || createMutation.isPending}
+                    data-testid="button-create-class"
+                  >
+                    Create
+                  </Button>
+                </div>
+                {isLoading && <Loader2 className="h-5 w-5 animate-spin neon-text" />}
+                <ul className="space-y-1" data-testid="list-classes">
+                  {!isLoading && classes.length === 0 && (
+                    <li className="text-sm text-muted-foreground">No classes yet.</li>
+                  )}
+                  {classes.map((schoolClass) => (
+                    <li key={schoolClass.id}>
+                      <Button
+                        variant={schoolClass.id === selectedId ? "secondary" : "ghost"}
+                        className="w-full justify-between"
+                        onClick={() => setSelectedId(schoolClass.id)}
+                        data-testid={`button-class-${schoolClass.id}`}
+                      >
+                        <span className="truncate">{schoolClass.name}</span>
+                        <Badge variant="outline">{schoolClass.studentCount}</Badge>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <Card className="neon-container terminal-panel">
+              <CardHeader>
+                <CardTitle className="text-lg neon-heading">Other access codes</CardTitle>
+                <CardDescription className="muted">Unlock the game without joining a class, e.g. for a club</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccessCodeManager
+                  codes={otherCodes}
+                  isIssuing={accessCodes.issueMutation.isPending}
+                  onIssue={handleIssue}
+                  onRevoke={(id) => accessCodes.revokeMutation.mutate(id)}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="neon-container terminal-panel md:col-span-2">
+            {selected ? (
+              <>
+                <CardHeader>
+                  <CardTitle className="text-2xl neon-heading" data-testid="text-class-name">
+                    {selected.name}
+                  </CardTitle>
+                  <CardDescription className="muted">
+                    {selected.studentCount} {selected.studentCount === 1 ? "student" : "students"} · created{" "}
+                    {new Date(selected.createdAt).toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Tabs defaultValue="students">
+                    <TabsList>
+                      <TabsTrigger value="students" data-testid="tab-students">Students</TabsTrigger>
+                      <TabsTrigger value="codes" data-testid="tab-codes">Access codes</TabsTrigger>
+                      <TabsTrigger value="presets" data-testid="tab-presets">Room presets</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="students" className="pt-4">
+                      {progress ? (
+                        <StudentProgressList students={progress.students} />
+                      ) : (
+                        <Loader2 className="h-5 w-5 animate-spin neon-text" />
+                      )}
+                    </TabsContent>
+                    <TabsContent value="codes" className="pt-4">
+                      <AccessCodeManager
+                        // Remount per class so the label starts from its name
+                        key={selected.id}
+                        classId={selected.id}
+                        defaultLabel={selected.name}
+                        codes={classCodes}
+                        isIssuing={accessCodes.issueMutation.isPending}
+                        onIssue={handleIssue}
+                        onRevoke={(id) => accessCodes.revokeMutation.mutate(id)}
+                      />
+                    </TabsContent>
+                    <TabsContent value="presets" className="pt-4">
+                      <ClassPresets
+                        presets={selected.presets}
+                        modules={modules}
+                        onSave={handleSavePresets}
+                        onStart={handleStartPreset}
+                        isSaving={updatePresetsMutation.isPending}
+                        isStarting={isStarting}
+                      />
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="p-6 text-center text-muted-foreground">
+                Create a class to issue its access codes and follow its students.
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
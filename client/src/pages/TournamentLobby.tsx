@@ -0,0 +1,189 @@
+/*
+  TournamentLobby.tsx
+
+  Tournament list (`/tournaments`): open, running and recently finished
+  tournaments, newest first, each linking to its page
+  (`TournamentView`). Any player with access can host one: a name, a
+  format (single or double elimination, or Swiss with a number of
+  rounds), a player limit and the rules of every match
+  (`RoomConfigForm`; matches are always duels). The new tournament opens
+  right away so the host can join it and share the page. Tournaments
+  need access like the game itself, so players without it go to `/`.
+*/
+import { useMemo, useState } from "react";
+import { Redirect, useLocation } from "wouter";
+import { ArrowLeft, Loader2, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { RoomConfig, TournamentFormat, TournamentSummary } from "@shared/schema";
+import { useAccess } from "@/hooks/useAccess";
+import { useToast } from "@/hooks/use-toast";
+import { useQuestionBankSummary } from "@/hooks/useQuestions";
+import { useTournaments } from "@/hooks/useTournaments";
+import RoomConfigForm from "@/components/RoomConfigForm";
+import { FORMAT_LABELS } from "@/components/TournamentBracket";
+
+const STATUS_LABELS: Record<TournamentSummary["status"], string> = {
+  registering: "Open",
+  running: "Running",
+  finished: "Finished",
+};
+
+export default function TournamentLobby() {
+  const { status, isLoading } = useAccess();
+  if (isLoading) return null;
+  // Home shows the access gate
+  return status?.granted ? <Lobby /> : <Redirect to="/" />;
+}
+
+function Lobby() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<TournamentFormat>("single_elimination");
+  const [maxPlayers, setMaxPlayers] = useState(16);
+  // 0 = derived from the number of players
+  const [swissRounds, setSwissRounds] = useState(0);
+
+  const { tournaments, isLoading, createMutation } = useTournaments();
+  const summary = useQuestionBankSummary();
+  const modules = useMemo(() => Object.keys(summary?.byModule ?? {}), [summary]);
+
+  const handleCreate = (config: RoomConfig) => {
+    if (!name.trim()) return;
+    createMutation.mutate(
+      {
+        name: name.trim(),
+        format,
+        config,
+        maxPlayers: Math.min(64, Math.max(2, Math.round(maxPlayers) || 2)),
+        swissRounds: format === "swiss" && swissRounds > 0 ? swissRounds : undefined,
+      },
+      {
+        onSuccess: (created) => navigate(`/tournaments/${created.id}`),
+        onError: (error) =>
+          toast({ title: "Could not create tournament", description: error.message, variant: "destructive" }),
+      },
+    );
+  };
+
+  return (
+    <div className="min-h-screen p-6 home-container">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Trophy className="w-8 h-8 neon-text" />
+          <h1 className="text-3xl font-bold neon-heading flex-1">Tournaments</h1>
+          <Button variant="outline" onClick={() => navigate("/")} data-testid="button-back-to-game">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to game
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+          <Card className="neon-container terminal-panel">
+            <CardHeader>
+              <CardTitle className="text-lg neon-heading">All tournaments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading && <Loader2 className="h-5 w-5 animate-spin neon-text" />}
+              <ul className="divide-y divide-zinc-800" data-testid="list-tournaments">
+                {!isLoading && tournaments.length === 0 && (
+                  <li className="py-2 text-sm text-muted-foreground">No tournaments yet. Host the first one!</li>
+                )}
+                {tournaments.map((tournament) => (
+                  <li key={tournament.id}>
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-3 py-2 text-left"
+                      onClick={() => navigate(`/tournaments/${tournament.id}`)}
+                      data-testid={`button-tournament-${tournament.id}`}
+                    >
+                      <span className="flex-1 truncate">
+                        <span className="font-semibold neon-heading">{tournament.name}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {FORMAT_LABELS[tournament.format]} · {tournament.playerCount}/{tournament.maxPlayers} players
+                          {tournament.hostName && ` · hosted by ${tournament.hostName}`}
+                          {tournament.winnerName && ` · won by ${tournament.winnerName}`}
+                        </span>
+                      </span>
+                      <Badge variant={tournament.status === "registering" ? "default" : "outline"}>
+                        {STATUS_LABELS[tournament.status]}
+                      </Badge>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card className="neon-container terminal-panel">
+            <CardHeader>
+              <CardTitle className="text-lg neon-heading">Host a tournament</CardTitle>
+              <CardDescription className="muted">Every match is a duel with these rules</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RoomConfigForm
+                modules={modules}
+                submitLabel="Create tournament"
+                onSubmit={handleCreate}
+                disabled={!name.trim() || createMutation.isPending}
+                showPlayers={false}
+              >
+                <Input
+                  data-testid="input-tournament-name"
+                  placeholder="Tournament name"
+                  maxLength={60}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <label className="text-muted-foreground">
+                    Format
+                    <select
+                      value={format}
+                      onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+                      className="block w-full rounded-md border px-2 py-2"
+                      data-testid="select-tournament-format"
+                    >
+                      {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-muted-foreground">
+                    Max players
+                    <Input
+                      type="number"
+                      min={2}
+                      max={64}
+                      value={maxPlayers}
+                      onChange={(e) => setMaxPlayers(Number(e.target.value))}
+                      data-testid="input-tournament-players"
+                    />
+                  </label>
+                  {format === "swiss" && (
+                    <label className="text-muted-foreground">
+                      Rounds (0 = automatic)
+                      <Input
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={swissRounds}
+                        onChange={(e) => setSwissRounds(Number(e.target.value))}
+                        data-testid="input-tournament-rounds"
+                      />
+                    </label>
+                  )}
+                </div>
+              </RoomConfigForm>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+/*
+  TournamentView.tsx
+
+  One tournament (`/tournaments/:id`). While registering it lists the
+  players with Join/Leave buttons, and the host can start it once two
+  have joined. Afterwards it shows the bracket (`TournamentBracket`),
+  refreshed every few seconds, and the champion once it is finished.
+
+  Match rooms are created by the server as pairings become ready. Play
+  opens the player's room in `Home` with a room link (`roomPath`), the
+  same way the teacher dashboard starts a preset; the game over screen
+  of a tournament match links back here.
+*/
+import { useMemo } from "react";
+import { Redirect, useLocation, useParams } from "wouter";
+import { ArrowLeft, Crown, Loader2, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TournamentMatch } from "@shared/schema";
+import { defaultSwissRounds } from "@shared/brackets";
+import { useAuth } from "@/hooks/use-auth";
+import { useAccess } from "@/hooks/useAccess";
+import { useToast } from "@/hooks/use-toast";
+import { useTournament } from "@/hooks/useTournaments";
+import { roomPath } from "@/lib/activeRoom";
+import PlayerAvatar from "@/components/PlayerAvatar";
+import TournamentBracket, { FORMAT_LABELS } from "@/components/TournamentBracket";
+
+export default function TournamentView() {
+  const { status, isLoading } = useAccess();
+  if (isLoading) return null;
+  // Home shows the access gate
+  return status?.granted ? <TournamentPage /> : <Redirect to="/" />;
+}
+
+function TournamentPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { tournament, isLoading, error, joinMutation, leaveMutation, startMutation } = useTournament(id);
+
+  const ownMatch = useMemo(
+    () =>
+      tournament?.matches.find(
+        (match) => match.status === "playing" && match.roomId && match.players.includes(user!.id),
+      ),
+    [tournament, user],
+  );
+
+  const onError = (title: string) => ({
+    onError: (err: Error) => toast({ title, description: err.message, variant: "destructive" }),
+  });
+
+  const handlePlay = (match: TournamentMatch) => {
+    if (!match.roomId) return;
+    // Home joins the linked room; the room only admits this match's pair
+    navigate(roomPath(match.roomId));
+  };
+
+  const header = (
+    <div className="flex items-center gap-3">
+      <Trophy className="w-8 h-8 neon-text" />
+      <h1 className="text-3xl font-bold neon-heading flex-1 truncate" data-testid="text-tournament-name">
+        {tournament?.name ?? "Tournament"}
+      </h1>
+      <Button variant="outline" onClick={() => navigate("/tournaments")} data-testid="button-back-to-tournaments">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        All tournaments
+      </Button>
+    </div>
+  );
+
+  if (isLoading || !tournament) {
+    return (
+      <div className="min-h-screen p-6 home-container">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {header}
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin neon-text" />
+          ) : (
+            <p className="text-muted-foreground" data-testid="text-tournament-error">
+              {error?.message.startsWith("404") ? "This tournament no longer exists." : "Could not load the tournament."}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const isHost = tournament.hostId === user!.id;
+  const hasJoined = tournament.players.includes(user!.id);
+  const isFull = tournament.players.length >= tournament.maxPlayers;
+  const champion = tournament.winnerId ? tournament.profiles[tournament.winnerId] : undefined;
+  const rounds =
+    tournament.format === "swiss"
+      ? `, ${tournament.swissRounds ?? defaultSwissRounds(tournament.players.length)} rounds`
+      : "";
+
+  return (
+    <div className="min-h-screen p-6 home-container">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {header}
+
+        <Card className="neon-container terminal-panel">
+          <CardHeader>
+            <CardTitle className="text-lg neon-heading flex items-center gap-2">
+              {FORMAT_LABELS[tournament.format]}
+              <Badge variant="outline" className="capitalize">
+                {tournament.status === "registering" ? "open" : tournament.status}
+              </Badge>
+            </CardTitle>
+            <CardDescription className="muted">
+              {tournament.players.length}/{tournament.maxPlayers} players{rounds} · {tournament.config.numQuestions}{" "}
+              questions per match · hosted by {tournament.profiles[tournament.hostId]?.displayName ?? "a player"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {tournament.status === "finished" && (
+              <div className="flex items-center gap-3 text-xl font-bold neon-text" data-testid="text-champion">
+                <Crown className="w-6 h-6" />
+                {champion ? `${champion.displayName} wins the tournament!` : "The tournament ended without a champion."}
+              </div>
+            )}
+
+            {ownMatch && (
+              <div className="flex items-center gap-3 rounded-md border border-primary/40 p-3">
+                <span className="flex-1">Your match {ownMatch.id} is ready.</span>
+                <Button onClick={() => handlePlay(ownMatch)} data-testid="button-play-own-match">
+                  Play now
+                </Button>
+              </div>
+            )}
+
+            {tournament.status === "registering" && (
+              <>
+                <ul className="flex flex-wrap gap-3" data-testid="list-tournament-players">
+                  {tournament.players.length === 0 && (
+                    <li className="text-sm text-muted-foreground">Nobody has joined yet.</li>
+                  )}
+                  {tournament.players.map((playerId) => (
+                    <li key={playerId} className="flex items-center gap-2 rounded-md border border-zinc-800 px-2 py-1">
+                      <PlayerAvatar seed={tournament.profiles[playerId]?.avatar} size={24} />
+                      <span>{tournament.profiles[playerId]?.displayName ?? "Player"}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  {hasJoined ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => leaveMutation.mutate(undefined, onError("Could not leave"))}
+                      disabled={leaveMutation.isPending}
+                      data-testid="button-leave-tournament"
+                    >
+                      Leave
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => joinMutation.mutate(undefined, onError("Could not join"))}
+                      disabled={isFull || joinMutation.isPending}
+                      data-testid="button-join-tournament"
+                    >
+                      {isFull ? "Full" : "Join"}
+                    </Button>
+                  )}
+                  {isHost && (
+                    <Button
+                      onClick={() => startMutation.mutate(undefined, onError("Could not start"))}
+                      disabled={tournament.players.length < 2 || startMutation.isPending}
+                      data-testid="button-start-tournament"
+                    >
+                      Start tournament
+                    </Button>
+                  )}
+                </div>
+                {isHost && (
+                  <p className="text-xs text-muted-foreground">
+                    Players are seeded by rating when you start. Share this page so others can join.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {tournament.status !== "registering" && (
+          <Card className="neon-container terminal-panel">
+            <CardContent className="p-6">
+              <TournamentBracket tournament={tournament} currentUserId={user!.id} onPlay={handlePlay} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
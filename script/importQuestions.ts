@@ -0,0 +1,76 @@
+/*
+  importQuestions.ts
+
+  CLI for bringing a raw question dump into the bank:
+
+    npm run questions:import -- <raw.json> [--out shared/questions.json] [--report question-import-report.json]
+
+  Every item is normalized and validated against `questionSchema` (see
+  `shared/questionImport.ts`). Accepted questions are written to `--out`
+  keyed by id; the report lists each rejected item and every patch
+  applied to an accepted one, with reasons. Exits non-zero when the
+  input can't be read or contains no usable questions.
+*/
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { importQuestionBank, type RawQuestion } from "../shared/questionImport";
+
+const USAGE = "usage: importQuestions <raw.json> [--out <bank.json>] [--report <report.json>]";
+
+function parseArgs(argv: string[]) {
+  const args = { input: "", out: "shared/questions.json", report: "question-import-report.json" };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--out" || arg === "--report") {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a path\n${USAGE}`);
+      args[arg === "--out" ? "out" : "report"] = value;
+    } else if (!args.input) {
+      args.input = arg;
+    } else {
+      throw new Error(`unexpected argument "${arg}"\n${USAGE}`);
+    }
+  }
+  if (!args.input) throw new Error(USAGE);
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const raw = JSON.parse(await readFile(args.input, "utf8"));
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${args.input}: expected an object of questions keyed by id`);
+  }
+
+  const { questions, issues } = importQuestionBank(raw as Record<string, RawQuestion>);
+  const rejected = issues.filter((issue) => issue.status === "rejected");
+  const patched = issues.filter((issue) => issue.status === "patched");
+  if (questions.length === 0) {
+    throw new Error(`${args.input}: no usable questions (${rejected.length} rejected)`);
+  }
+
+  const bank = Object.fromEntries(questions.map((question) => [question.id, question]));
+  await writeFile(args.out, JSON.stringify(bank, null, 2) + "\n");
+
+  const report = {
+    input: path.resolve(args.input),
+    generatedAt: new Date().toISOString(),
+    total: Object.keys(raw).length,
+    accepted: questions.length,
+    patched: patched.length,
+    rejected: rejected.length,
+    issues,
+  };
+  await writeFile(args.report, JSON.stringify(report, null, 2) + "\n");
+
+  console.log(
+    `imported ${questions.length}/${report.total} questions into ${args.out} ` +
+      `(${patched.length} patched, ${rejected.length} rejected); report in ${args.report}`,
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+/*
+  access.ts
+
+  Access gate for the game. Admins (see `isAdmin` in `auth.ts`) issue
+  access codes, typically one per class per day, each with an expiry and
+  an optional usage limit. A signed-in player redeems a code once per
+  session; the grant is kept in the session cookie until the code's
+  expiry, and every game endpoint checks it with `requireAccess`. Admins
+  are never gated.
+
+  Signing in starts a fresh session, so a code is redeemed after signing
+  in. Codes issued for a class (see `classes.ts`) also enroll whoever
+  redeems them in that class. Revoking a code stops further redemptions;
+  sessions that already redeemed it keep access until it would have
+  expired.
+
+  Routes (registered in `routes.ts`):
+  - GET    /api/access            -> this session's `AccessStatus`
+  - POST   /api/access            -> redeem a code
+  - GET    /api/access/codes      -> every code, newest first (admin)
+  - POST   /api/access/codes      -> issue a code (admin)
+  - DELETE /api/access/codes/:id  -> revoke a code (admin)
+*/
+import type { NextFunction, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import type { AccessCode, AccessStatus, CreateAccessCodeRequest, User } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { RoomError } from "./rooms";
+import { isAdmin } from "./auth";
+import { classRoster, type ClassRoster } from "./classes";
+
+declare module "express-session" {
+  interface SessionData {
+    access?: { codeId: string; code: string; label: string; expiresAt: number };
+  }
+}
+
+const GENERATED_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const GENERATED_CODE_LENGTH = 6;
+const GENERATE_ATTEMPTS = 10;
+
+function generateCode(): string {
+  return Array.from(randomBytes(GENERATED_CODE_LENGTH), (byte) => GENERATED_CODE_ALPHABET[byte % GENERATED_CODE_ALPHABET.length]).join("");
+}
+
+export class AccessGate {
+  constructor(
+    private store: IStorage = storage,
+    private roster: ClassRoster = classRoster,
+  ) {}
+
+  status(req: Request, now = Date.now()): AccessStatus {
+    if (req.user && isAdmin(req.user)) return { granted: true, admin: true };
+
+    const access = req.session.access;
+    if (!access) return { granted: false };
+    if (access.expiresAt <= now) {
+      delete req.session.access;
+      return { granted: false };
+    }
+    return { granted: true, admin: false, label: access.label, expiresAt: access.expiresAt };
+  }
+
+  async redeem(req: Request, code: string, now = new Date()): Promise<AccessStatus> {
+    // Entering the same code again doesn't use it up twice
+    const current = this.status(req, now.getTime());
+    if (current.granted && (current.admin || req.session.access?.code === code)) return current;
+
+    const accessCode = await this.store.redeemAccessCode(code, now);
+    if (!accessCode) {
+      throw new RoomError(403, "This access code is invalid, expired or used up");
+    }
+    if (accessCode.classId && req.user) {
+      await this.store.addClassMember(accessCode.classId, req.user.id);
+    }
+    req.session.access = {
+      codeId: accessCode.id,
+      code: accessCode.code,
+      label: accessCode.label,
+      expiresAt: accessCode.expiresAt.getTime(),
+    };
+    return this.status(req, now.getTime());
+  }
+
+  async issue(admin: User, request: CreateAccessCodeRequest, now = new Date()): Promise<AccessCode> {
+    if (request.expiresAt <= now) {
+      throw new RoomError(400, "Expiry must be in the future");
+    }
+    if (request.classId) await this.roster.owned(admin, request.classId);
+
+    let code = request.code;
+    if (code) {
+      if (await this.store.getAccessCodeByCode(code)) throw new RoomError(409, "Access code already exists");
+    } else {
+      for (let attempt = 0; attempt < GENERATE_ATTEMPTS && !code; attempt++) {
+        const candidate = generateCode();
+        if (!(await this.store.getAccessCodeByCode(candidate))) code = candidate;
+      }
+      if (!code) throw new RoomError(503, "Could not generate a free access code, try again");
+    }
+
+    return this.store.createAccessCode({
+      code,
+      label: request.label,
+      expiresAt: request.expiresAt,
+      maxUses: request.maxUses ?? null,
+      createdBy: admin.id,
+      classId: request.classId ?? null,
+    });
+  }
+
+  list(): Promise<AccessCode[]> {
+    return this.store.listAccessCodes();
+  }
+
+  async revoke(id: string): Promise<AccessCode> {
+    const accessCode = await this.store.revokeAccessCode(id);
+    if (!accessCode) throw new RoomError(404, "Access code not found");
+    return accessCode;
+  }
+}
+
+export const accessGate = new AccessGate();
+
+// Route guard for game endpoints: 401 when signed out, 403 until the
+// session has redeemed a live access code (admins pass)
+export function requireAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: "Not signed in" });
+    return;
+  }
+  if (!accessGate.status(req).granted) {
+    res.status(403).json({ message: "Enter an access code to play" });
+    return;
+  }
+  next();
+}
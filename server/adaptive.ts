@@ -0,0 +1,196 @@
+/*
+  adaptive.ts
+
+  Adaptive question selection for rooms created with `config.adaptive`.
+
+  - Weak skills first: each player's past accuracy per `skill_desc` is
+    computed from their saved matches. Questions are drawn with weights
+    that grow as accuracy drops (averaged over the room's players), so
+    weak skills come up more often while strong ones still appear.
+  - Difficulty follows the room: after every resolved round the next
+    question is swapped for one of an easier or harder difficulty
+    (within `config.difficulties`) when recent rounds were mostly wrong
+    or mostly right.
+
+  Weights are refreshed in the background whenever the players of an
+  adaptive room change, so swapping the next question stays synchronous
+  and happens before any client can advance.
+*/
+import type { GameRoom, Match, Question, RoomConfig } from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { matchesRoomConfig } from "@shared/gameRules";
+import { storage, type IStorage } from "./storage";
+import { rooms, type RoomManager } from "./rooms";
+import { log } from "./vite";
+
+// How many past matches per player feed the skill accuracy
+const HISTORY_MATCHES = 50;
+// Weight of a skill the player never gets right, relative to 1 for a mastered one
+const WEAKNESS_BOOST = 3;
+// Rounds considered when deciding whether to step difficulty up or down
+const RECENT_ROUNDS = 2;
+const STEP_UP_AT = 0.75;
+const STEP_DOWN_AT = 0.35;
+
+const DIFFICULTY_ORDER: Question["difficulty"][] = ["E", "M", "H"];
+const NO_SKILL = "";
+
+export type SkillWeights = Map<string, number>;
+
+export type SkillTally = Map<string, { correct: number; attempts: number }>;
+
+// Rounds answered and answered correctly per `skill_desc` for one player;
+// questions without a skill count under ""
+export function skillTallyFromMatches(
+  playerId: string,
+  matches: Match[],
+  questionsById: Map<string, Question>,
+): SkillTally {
+  const tally: SkillTally = new Map();
+  for (const match of matches) {
+    for (const round of match.rounds) {
+      const skill = questionsById.get(round.questionId)?.skill_desc ?? NO_SKILL;
+      if (!(playerId in round.correct)) continue;
+      const entry = tally.get(skill) ?? { correct: 0, attempts: 0 };
+      entry.attempts += 1;
+      if (round.correct[playerId]) entry.correct += 1;
+      tally.set(skill, entry);
+    }
+  }
+  return tally;
+}
+
+// Per-skill weights for one player from their match history
+export function skillWeightsFromMatches(
+  playerId: string,
+  matches: Match[],
+  questionsById: Map<string, Question>,
+): SkillWeights {
+  const weights: SkillWeights = new Map();
+  skillTallyFromMatches(playerId, matches, questionsById).forEach(({ correct, attempts }, skill) => {
+    // Laplace smoothing: one lucky answer doesn't make a skill "mastered"
+    const accuracy = (correct + 1) / (attempts + 2);
+    weights.set(skill, 1 + WEAKNESS_BOOST * (1 - accuracy));
+  });
+  return weights;
+}
+
+// Skills nobody has history for sit in the middle (accuracy 0.5)
+function weightOf(question: Question, weights: SkillWeights) {
+  return weights.get(question.skill_desc ?? NO_SKILL) ?? 1 + WEAKNESS_BOOST * 0.5;
+}
+
+// Weighted draw without replacement (Efraimidis-Spirakis)
+export function weightedDraw(pool: Question[], count: number, weights: SkillWeights): Question[] {
+  return pool
+    .map((question) => ({ question, key: Math.random() ** (1 / weightOf(question, weights)) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ question }) => question);
+}
+
+// Difficulty for the question after the latest resolved round
+export function nextDifficulty(room: GameRoom, current: Question["difficulty"]): Question["difficulty"] {
+  const recent = (room.rounds ?? []).slice(-RECENT_ROUNDS);
+  const results = recent.flatMap((round) => Object.values(round.correct));
+  if (results.length === 0) return current;
+
+  const rate = results.filter(Boolean).length / results.length;
+  const allowed = DIFFICULTY_ORDER.filter((d) => room.config.difficulties.includes(d));
+  const index = allowed.indexOf(current);
+  if (index === -1) return allowed[0] ?? current;
+  if (rate >= STEP_UP_AT) return allowed[Math.min(allowed.length - 1, index + 1)];
+  if (rate <= STEP_DOWN_AT) return allowed[Math.max(0, index - 1)];
+  return current;
+}
+
+export class AdaptiveSelector {
+  private questionsById: Map<string, Question>;
+  // roomId -> weights for its current players, and which players they cover
+  private roomWeights: Map<string, { players: string; weights: SkillWeights }>;
+
+  constructor(
+    private store: IStorage = storage,
+    private manager: RoomManager = rooms,
+    private bank: Question[] = satQuestions,
+  ) {
+    this.questionsById = new Map(bank.map((q) => [q.id, q]));
+    this.roomWeights = new Map();
+  }
+
+  // Average of every player's weights; players without history count as neutral
+  async weightsFor(playerIds: string[]): Promise<SkillWeights> {
+    const perPlayer = await Promise.all(
+      playerIds.map(async (id) =>
+        skillWeightsFromMatches(id, await this.store.getMatchesForPlayer(id, HISTORY_MATCHES), this.questionsById),
+      ),
+    );
+
+    const skills = new Set(perPlayer.flatMap((weights) => Array.from(weights.keys())));
+    const neutral = 1 + WEAKNESS_BOOST * 0.5;
+    const combined: SkillWeights = new Map();
+    skills.forEach((skill) => {
+      const total = perPlayer.reduce((sum, weights) => sum + (weights.get(skill) ?? neutral), 0);
+      combined.set(skill, total / Math.max(1, perPlayer.length));
+    });
+    return combined;
+  }
+
+  // Initial question list for a new adaptive room; rematches pass the
+  // questions the room hasn't played yet as `bank`
+  async draw(config: RoomConfig, playerIds: string[], bank: Question[] = this.bank): Promise<Question[]> {
+    const weights = await this.weightsFor(playerIds);
+    const pool = bank.filter((q) => matchesRoomConfig(q, config));
+    return weightedDraw(pool, config.numQuestions, weights);
+  }
+
+  attach() {
+    this.manager.on("update", (room: GameRoom) => {
+      if (!room.config.adaptive) return;
+      this.refreshWeights(room);
+      if (room.roundResults) this.adjustUpcoming(room);
+    });
+    this.manager.on("delete", (roomId: string) => this.roomWeights.delete(roomId));
+  }
+
+  private refreshWeights(room: GameRoom) {
+    const players = room.players.slice().sort().join(",");
+    if (this.roomWeights.get(room.roomId)?.players === players) return;
+
+    // Keep the previous weights until the new ones are in
+    const previous = this.roomWeights.get(room.roomId)?.weights ?? new Map();
+    this.roomWeights.set(room.roomId, { players, weights: previous });
+    this.weightsFor(room.players)
+      .then((weights) => {
+        if (this.roomWeights.get(room.roomId)?.players === players) {
+          this.roomWeights.set(room.roomId, { players, weights });
+        }
+      })
+      .catch((err) => log(`failed to load skill history for room ${room.roomId}: ${err}`, "adaptive"));
+  }
+
+  // Swap the next question for one at the difficulty the room should face next
+  private adjustUpcoming(room: GameRoom) {
+    const nextIndex = room.currentQuestion + 1;
+    if (nextIndex >= room.questions.length) return;
+
+    const current = this.questionsById.get(room.questions[room.currentQuestion]);
+    const planned = this.questionsById.get(room.questions[nextIndex]);
+    if (!current || !planned) return;
+
+    const target = nextDifficulty(room, current.difficulty);
+    if (planned.difficulty === target) return;
+
+    const used = new Set([
+      ...(room.playedQuestions ?? []),
+      ...room.questions.filter((_, index) => index !== nextIndex),
+    ]);
+    const pool = this.bank.filter(
+      (q) => q.difficulty === target && matchesRoomConfig(q, room.config) && !used.has(q.id),
+    );
+    const [replacement] = weightedDraw(pool, 1, this.roomWeights.get(room.roomId)?.weights ?? new Map());
+    if (replacement) this.manager.replaceUpcomingQuestion(room, nextIndex, replacement.id);
+  }
+}
+
+export const adaptive = new AdaptiveSelector();
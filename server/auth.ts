@@ -0,0 +1,225 @@
+/*
+  auth.ts
+
+  Username/password accounts using passport-local and express-session.
+  Sessions are kept in a `memorystore` store (pruned daily) and the
+  session cookie identifies the player for every room endpoint, so
+  clients can no longer act as someone else by sending a different id.
+
+  Routes:
+  - POST /api/register -> create an account and sign in
+  - POST /api/login    -> sign in
+  - POST /api/logout   -> sign out
+  - GET  /api/user     -> the signed-in user (401 when signed out)
+  - PATCH /api/user/profile -> set display name and avatar seed
+
+  Passwords are stored as scrypt hashes with a per-user salt and are
+  never included in responses (see `toPublicUser`).
+
+  Admins are the accounts listed in `ADMIN_USERNAMES` (comma separated);
+  `requireAdmin` guards the endpoints only they may use.
+*/
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertUserSchema,
+  playerProfileSchema,
+  type User as SelectUser,
+  type PublicUser,
+  type PlayerProfile,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const MemoryStore = createMemoryStore(session);
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function isAdmin(user: Pick<SelectUser, "username">): boolean {
+  const admins = (process.env.ADMIN_USERNAMES ?? "").split(",").map((name) => name.trim().toLowerCase());
+  return admins.includes(user.username.toLowerCase());
+}
+
+export function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return { ...user, isAdmin: isAdmin(user) };
+}
+
+// The profile copied into rooms; undefined until the profile step is done
+export function toPlayerProfile(user: SelectUser): PlayerProfile | undefined {
+  if (!user.displayName || !user.avatar) return undefined;
+  return { displayName: user.displayName, avatar: user.avatar };
+}
+
+// Route guard: answers 401 unless a user is signed in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: "Not signed in" });
+    return;
+  }
+  next();
+}
+
+// Route guard: answers 403 unless the signed-in user is an admin
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: "Not signed in" });
+    return;
+  }
+  if (!isAdmin(req.user!)) {
+    res.status(403).json({ message: "Admins only" });
+    return;
+  }
+  next();
+}
+
+// Returns the session middleware so the room channel can identify the
+// player behind a WebSocket upgrade (see `realtime.ts`)
+export function setupAuth(app: Express): RequestHandler {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (app.get("env") === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    // Development only: sessions won't survive a restart
+    secret = randomBytes(32).toString("hex");
+    log("SESSION_SECRET not set, using a random secret", "auth");
+  }
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      maxAge: SESSION_MAX_AGE_MS,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    const result = insertUserSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ message: fromZodError(result.error).message });
+      return;
+    }
+
+    try {
+      if (await storage.getUserByUsername(result.data.username)) {
+        res.status(409).json({ message: "Username already exists" });
+        return;
+      }
+
+      const user = await storage.createUser({
+        ...result.data,
+        password: await hashPassword(result.data.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        res.status(401).json({ message: "Invalid username or password" });
+        return;
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  app.patch("/api/user/profile", requireAuth, async (req, res, next) => {
+    const result = playerProfileSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ message: fromZodError(result.error).message });
+      return;
+    }
+
+    try {
+      const user = await storage.updateProfile(req.user!.id, result.data);
+      if (!user) {
+        res.status(404).json({ message: "User not found" });
+        return;
+      }
+      res.json(toPublicUser(user));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return sessionMiddleware;
+}
@@ -0,0 +1,218 @@
+/*
+  bots.ts
+
+  Computer opponents for rooms whose friends didn't show up. A bot is a
+  regular player of the room (id prefixed with `BOT_ID_PREFIX`) that
+  answers through `RoomManager.submitAnswer` exactly like a human, so
+  round resolution, scoring and the clients need no special cases.
+
+  Each level has an accuracy and a response-time range per question
+  difficulty (`E`/`M`/`H`). When a question becomes active the bot picks
+  the correct option with that probability (otherwise a random wrong
+  one) and answers after a random delay from the range, kept inside the
+  time limit of timed rooms.
+
+  Bots leave as soon as no human is left, so abandoned rooms are still
+  deleted. Ranked rooms don't accept bots.
+*/
+import { randomUUID } from "crypto";
+import {
+  BOT_ID_PREFIX,
+  type AnswerValue,
+  type BotLevel,
+  type GameRoom,
+  type PlayerProfile,
+  type Question,
+} from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { isCorrectAnswer } from "@shared/gameRules";
+import { isGridIn, parseAcceptedValue, parseGridInValue } from "@shared/gridIn";
+import { rooms, RoomError, type RoomManager } from "./rooms";
+import { log } from "./vite";
+
+type Difficulty = Question["difficulty"];
+
+export interface BotBehavior {
+  // Chance of answering correctly
+  accuracy: Record<Difficulty, number>;
+  // Response time range in ms, [min, max]
+  delayMs: Record<Difficulty, [number, number]>;
+}
+
+export const BOT_LEVELS: Record<BotLevel, BotBehavior> = {
+  easy: {
+    accuracy: { E: 0.7, M: 0.45, H: 0.25 },
+    delayMs: { E: [6000, 14000], M: [9000, 20000], H: [12000, 26000] },
+  },
+  medium: {
+    accuracy: { E: 0.85, M: 0.65, H: 0.45 },
+    delayMs: { E: [4000, 10000], M: [6000, 15000], H: [9000, 20000] },
+  },
+  hard: {
+    accuracy: { E: 0.95, M: 0.85, H: 0.7 },
+    delayMs: { E: [2500, 7000], M: [4000, 10000], H: [6000, 14000] },
+  },
+};
+
+const BOT_NAMES: Record<BotLevel, string> = {
+  easy: "Rookie Bot",
+  medium: "Study Bot",
+  hard: "Ace Bot",
+};
+
+// Leave a bit of the time limit so bot answers never race the deadline
+const TIME_LIMIT_SHARE = 0.9;
+
+export function isBotId(playerId: string) {
+  return playerId.startsWith(BOT_ID_PREFIX);
+}
+
+export class BotController {
+  // roomId -> botId -> level
+  private bots: Map<string, Map<string, BotLevel>>;
+  // `${roomId}:${questionIndex}:${botId}` -> pending answer
+  private timers: Map<string, ReturnType<typeof setTimeout>>;
+  private questionsById: Map<string, Question>;
+
+  constructor(
+    private manager: RoomManager = rooms,
+    private levels: Record<BotLevel, BotBehavior> = BOT_LEVELS,
+    bank: Question[] = satQuestions,
+  ) {
+    this.bots = new Map();
+    this.timers = new Map();
+    this.questionsById = new Map(bank.map((q) => [q.id, q]));
+  }
+
+  // Adds a bot on behalf of the host. Duels start as soon as it joins.
+  addBot(roomId: string, hostId: string, level: BotLevel): GameRoom {
+    const room = this.manager.getRoom(roomId);
+    if (!room) {
+      throw new RoomError(404, "Room not found");
+    }
+    if (room.players[0] !== hostId) {
+      throw new RoomError(403, "Only the host can add bots");
+    }
+    if (room.config.ranked) {
+      throw new RoomError(409, "Bots can't play ranked games");
+    }
+
+    const botId = `${BOT_ID_PREFIX}${randomUUID()}`;
+    const profile: PlayerProfile = {
+      displayName: BOT_NAMES[level],
+      avatar: Math.random().toString(36).slice(2, 10),
+    };
+
+    // Register first: joining a duel starts it and emits "update" right away
+    if (!this.bots.has(roomId)) this.bots.set(roomId, new Map());
+    this.bots.get(roomId)!.set(botId, level);
+    try {
+      return this.manager.joinRoom(roomId, botId, profile);
+    } catch (err) {
+      this.forget(roomId, botId);
+      throw err;
+    }
+  }
+
+  attach() {
+    this.manager.on("update", (room: GameRoom) => this.onUpdate(room));
+    this.manager.on("delete", (roomId: string) => this.forgetRoom(roomId));
+  }
+
+  private onUpdate(room: GameRoom) {
+    const bots = this.bots.get(room.roomId);
+    if (!bots) return;
+
+    // Nobody left to play against: the bots leave too. Forget each bot
+    // before it leaves, since leaving emits "update" again.
+    if (!room.players.some((id) => !isBotId(id))) {
+      for (const botId of Array.from(bots.keys())) {
+        this.forget(room.roomId, botId);
+        this.manager.leaveRoom(room.roomId, botId);
+      }
+      return;
+    }
+
+    if (!room.started || room.finished || room.roundResults) return;
+
+    for (const [botId, level] of Array.from(bots.entries())) {
+      if (!room.players.includes(botId)) {
+        this.forget(room.roomId, botId);
+        continue;
+      }
+      this.scheduleAnswer(room, botId, level);
+    }
+  }
+
+  private scheduleAnswer(room: GameRoom, botId: string, level: BotLevel) {
+    const questionIndex = room.currentQuestion;
+    const key = `${room.roomId}:${questionIndex}:${botId}`;
+    if (this.timers.has(key) || room.answers?.[botId] !== undefined) return;
+
+    const question = this.questionsById.get(room.questions[questionIndex]);
+    if (!question) return;
+
+    const behavior = this.levels[level];
+    const [min, max] = behavior.delayMs[question.difficulty];
+    let delay = min + Math.random() * (max - min);
+    if (room.config.timeLimitSeconds) {
+      delay = Math.min(delay, room.config.timeLimitSeconds * 1000 * TIME_LIMIT_SHARE);
+    }
+
+    const roomId = room.roomId;
+    const timer = setTimeout(() => {
+      this.timers.delete(key);
+      const answer = this.pickAnswer(question, behavior.accuracy[question.difficulty]);
+      try {
+        this.manager.submitAnswer(roomId, botId, questionIndex, answer);
+      } catch (err) {
+        // The round was resolved (or the room closed) before the bot answered
+        if (!(err instanceof RoomError)) log(`bot ${botId} failed to answer: ${err}`, "bots");
+      }
+    }, delay);
+    this.timers.set(key, timer);
+  }
+
+  private pickAnswer(question: Question, accuracy: number): AnswerValue {
+    if (isGridIn(question)) return this.pickGridIn(question, accuracy);
+
+    const options = question.content.answerOptions.map((_, index) => index);
+    const correct = options.filter((index) => isCorrectAnswer(question, index));
+    const wrong = options.filter((index) => !isCorrectAnswer(question, index));
+    const pool = Math.random() < accuracy || wrong.length === 0 ? correct : wrong;
+    return pool[Math.floor(Math.random() * pool.length)];
+  }
+
+  // Types an accepted form, or misses by a small whole number
+  private pickGridIn(question: Question, accuracy: number): AnswerValue {
+    const accepted = question.content.correct_answer.find((answer) => parseGridInValue(answer) !== null) ?? "0";
+    if (Math.random() < accuracy) return accepted;
+
+    const value = parseAcceptedValue(accepted) ?? 0;
+    const miss = Math.round(value) + (Math.random() < 0.5 ? -1 : 1) * (1 + Math.floor(Math.random() * 3));
+    return String(miss);
+  }
+
+  private forget(roomId: string, botId: string) {
+    const bots = this.bots.get(roomId);
+    bots?.delete(botId);
+    if (bots && bots.size === 0) this.bots.delete(roomId);
+    this.clearTimers((key) => key.startsWith(`${roomId}:`) && key.endsWith(`:${botId}`));
+  }
+
+  private forgetRoom(roomId: string) {
+    this.bots.delete(roomId);
+    this.clearTimers((key) => key.startsWith(`${roomId}:`));
+  }
+
+  private clearTimers(matches: (key: string) => boolean) {
+    for (const [key, timer] of Array.from(this.timers.entries())) {
+      if (matches(key)) {
+        clearTimeout(timer);
+        this.timers.delete(key);
+      }
+    }
+  }
+}
+
+export const bots = new BotController();
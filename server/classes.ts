@@ -0,0 +1,144 @@
+/*
+  classes.ts
+
+  Classes for the teacher dashboard. Any admin (see `isAdmin` in
+  `auth.ts`) is a teacher: they create classes, issue access codes for
+  a class (see `access.ts`; redeeming one enrolls the student) and save
+  room presets the dashboard starts class rooms from. Teachers only see
+  their own classes; another teacher's class answers 404.
+
+  A class's progress covers each student's latest `HISTORY_MATCHES`
+  saved matches: win count, overall and per-skill accuracy, and a short
+  list of recent games.
+
+  Routes (registered in `routes.ts`, admin only):
+  - GET /api/classes                    -> the teacher's classes, newest first
+  - POST /api/classes                   -> create a class
+  - GET /api/classes/:classId           -> the class with every student's progress
+  - PUT /api/classes/:classId/presets   -> replace the class's room presets
+*/
+import type {
+  ClassProgress,
+  ClassSummary,
+  Match,
+  Question,
+  RoomPreset,
+  SchoolClass,
+  SkillAccuracy,
+  StudentMatchSummary,
+  StudentProgress,
+  User,
+} from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { storage, type IStorage } from "./storage";
+import { RoomError } from "./rooms";
+import { skillTallyFromMatches } from "./adaptive";
+
+// How many past matches per student the progress covers
+const HISTORY_MATCHES = 50;
+const RECENT_MATCHES = 10;
+
+function summarizeMatch(playerId: string, match: Match): StudentMatchSummary {
+  const score = match.scores[playerId] ?? 0;
+  const rounds = match.rounds.filter((round) => playerId in round.correct);
+  return {
+    matchId: match.id,
+    roomId: match.roomId,
+    finishedAt: match.finishedAt.getTime(),
+    playerCount: match.players.length,
+    score,
+    rank: 1 + match.players.filter((id) => (match.scores[id] ?? 0) > score).length,
+    correct: rounds.filter((round) => round.correct[playerId]).length,
+    questions: match.questionIds.length,
+    ranked: Boolean(match.config.ranked),
+  };
+}
+
+export class ClassRoster {
+  private questionsById: Map<string, Question>;
+
+  constructor(
+    private store: IStorage = storage,
+    bank: Question[] = satQuestions,
+  ) {
+    this.questionsById = new Map(bank.map((q) => [q.id, q]));
+  }
+
+  async list(teacher: User): Promise<ClassSummary[]> {
+    const owned = await this.store.listClassesForTeacher(teacher.id);
+    return Promise.all(owned.map((schoolClass) => this.summarize(schoolClass)));
+  }
+
+  async create(teacher: User, name: string): Promise<ClassSummary> {
+    return this.summarize(await this.store.createClass({ name, teacherId: teacher.id }));
+  }
+
+  async progress(teacher: User, classId: string): Promise<ClassProgress> {
+    const schoolClass = await this.owned(teacher, classId);
+    const members = await this.store.listClassMembers(classId);
+    const students = await Promise.all(
+      members.map(async (member) => {
+        const user = await this.store.getUser(member.userId);
+        return user ? this.studentProgress(user, member.joinedAt) : undefined;
+      }),
+    );
+    return {
+      ...(await this.summarize(schoolClass, members.length)),
+      students: students.filter((student): student is StudentProgress => student !== undefined),
+    };
+  }
+
+  async updatePresets(teacher: User, classId: string, presets: RoomPreset[]): Promise<ClassSummary> {
+    await this.owned(teacher, classId);
+    const updated = await this.store.updateClassPresets(classId, presets);
+    if (!updated) throw new RoomError(404, "Class not found");
+    return this.summarize(updated);
+  }
+
+  // The class, if it exists and belongs to this teacher
+  async owned(teacher: User, classId: string): Promise<SchoolClass> {
+    const schoolClass = await this.store.getClass(classId);
+    if (!schoolClass || schoolClass.teacherId !== teacher.id) {
+      throw new RoomError(404, "Class not found");
+    }
+    return schoolClass;
+  }
+
+  private async summarize(schoolClass: SchoolClass, studentCount?: number): Promise<ClassSummary> {
+    return {
+      id: schoolClass.id,
+      name: schoolClass.name,
+      presets: schoolClass.presets,
+      createdAt: schoolClass.createdAt.getTime(),
+      studentCount: studentCount ?? (await this.store.listClassMembers(schoolClass.id)).length,
+    };
+  }
+
+  private async studentProgress(user: User, joinedAt: Date): Promise<StudentProgress> {
+    const history = await this.store.getMatchesForPlayer(user.id, HISTORY_MATCHES);
+    const skills: SkillAccuracy[] = [];
+    skillTallyFromMatches(user.id, history, this.questionsById).forEach(({ correct, attempts }, skill) =>
+      skills.push({ skill, correct, attempts }),
+    );
+    skills.sort((a, b) => a.correct / a.attempts - b.correct / b.attempts);
+
+    const summaries = history.map((match) => summarizeMatch(user.id, match));
+    return {
+      userId: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      avatar: user.avatar,
+      rating: user.rating,
+      joinedAt: joinedAt.getTime(),
+      matchesPlayed: summaries.length,
+      // Shared first place counts; solo games (everyone else left) don't
+      wins: summaries.filter((match) => match.rank === 1 && match.playerCount > 1).length,
+      correct: skills.reduce((sum, entry) => sum + entry.correct, 0),
+      attempts: skills.reduce((sum, entry) => sum + entry.attempts, 0),
+      skills,
+      recentMatches: summaries.slice(0, RECENT_MATCHES),
+    };
+  }
+}
+
+export const classRoster = new ClassRoster();
@@ -0,0 +1,22 @@
+/*
+  db.ts
+
+  Drizzle connection to the Postgres database named by `DATABASE_URL`
+  (Neon serverless driver over WebSockets). When the variable is not set
+  `db` is null and `storage.ts` falls back to in-memory storage, so the
+  app still runs locally without a database.
+*/
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle({ client: pool, schema }) : null;
+
+export type Database = NonNullable<typeof db>;
@@ -0,0 +1,60 @@
+/*
+  matches.ts
+
+  Saves finished rooms as matches (see the `matches` table in
+  `shared/schema.ts`). The recorder listens for the `RoomManager`'s
+  "finished" event, so every game that reaches its last question is
+  written without any client involvement; `POST /api/matches` goes
+  through the same `record` call and returns the saved match.
+
+  Recording is idempotent per room: repeated calls for the same finished
+  room share one write. Rooms recreated under the same code are new
+  objects and are recorded separately.
+*/
+import type { GameRoom, InsertMatch, Match } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { rooms, RoomError, type RoomManager } from "./rooms";
+import { log } from "./vite";
+
+export function matchFromRoom(room: GameRoom): InsertMatch {
+  return {
+    roomId: room.roomId,
+    config: room.config,
+    questionIds: room.questions,
+    players: room.players,
+    profiles: room.profiles ?? {},
+    rounds: room.rounds ?? [],
+    scores: room.scores,
+  };
+}
+
+export class MatchRecorder {
+  private saved: WeakMap<GameRoom, Promise<Match>>;
+
+  constructor(private store: IStorage = storage) {
+    this.saved = new WeakMap();
+  }
+
+  record(room: GameRoom): Promise<Match> {
+    if (!room.finished) {
+      return Promise.reject(new RoomError(409, "Game is not finished"));
+    }
+
+    let pending = this.saved.get(room);
+    if (!pending) {
+      pending = this.store.createMatch(matchFromRoom(room));
+      this.saved.set(room, pending);
+      // Let a later call retry if the write failed
+      pending.catch(() => this.saved.delete(room));
+    }
+    return pending;
+  }
+
+  attach(manager: RoomManager = rooms) {
+    manager.on("finished", (room: GameRoom) => {
+      this.record(room).catch((err) => log(`failed to record match for room ${room.roomId}: ${err}`, "matches"));
+    });
+  }
+}
+
+export const matchRecorder = new MatchRecorder();
@@ -0,0 +1,143 @@
+/*
+  matchmaking.ts
+
+  Ranked matchmaking queue. Signed-in players enter the queue with their
+  current rating and are paired with the waiting player whose rating is
+  closest, as long as the gap fits both players' search windows. A
+  window starts at `BASE_WINDOW` rating points and widens the longer a
+  player waits, so nobody waits forever just because nobody close to
+  their rating is online.
+
+  There are no timers: pairing is retried whenever someone enters the
+  queue or polls their status, which clients do every couple of seconds.
+
+  A pair is put into a new ranked duel (`RANKED_CONFIG`) created through
+  the `RoomManager` under a code from `roomCodes.ts`; joining the second player starts it right away.
+  Both players then see `{ status: "matched", roomId }` until they leave
+  that room or queue again.
+*/
+import {
+  roomConfigSchema,
+  type MatchmakingStatus,
+  type PlayerProfile,
+  type Question,
+  type RoomConfig,
+  type User,
+} from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { rooms, type RoomManager } from "./rooms";
+import { roomCodes as defaultRoomCodes, type RoomCodeAllocator } from "./roomCodes";
+import { toPlayerProfile } from "./auth";
+
+const BASE_WINDOW = 100;
+const WINDOW_GROWTH_PER_SECOND = 10;
+const MAX_WINDOW = 800;
+
+interface QueueEntry {
+  userId: string;
+  rating: number;
+  profile?: PlayerProfile;
+  queuedAt: number;
+}
+
+// Every ranked duel uses the same rules so ratings stay comparable
+export function rankedConfig(bank: Question[]): RoomConfig {
+  const modules = Array.from(new Set(bank.map((q) => q.module.toLowerCase())));
+  return roomConfigSchema.parse({
+    modules,
+    difficulties: ["E", "M", "H"],
+    numQuestions: 10,
+    maxPlayers: 2,
+    timeLimitSeconds: 90,
+    ranked: true,
+  });
+}
+
+export class MatchmakingQueue {
+  // Insertion order = queue order
+  private queue: Map<string, QueueEntry>;
+  // userId -> ranked room they were put in
+  private matched: Map<string, string>;
+  private config: RoomConfig;
+
+  constructor(
+    private manager: RoomManager = rooms,
+    bank: Question[] = satQuestions,
+    private roomCodes: RoomCodeAllocator = defaultRoomCodes,
+  ) {
+    this.queue = new Map();
+    this.matched = new Map();
+    this.config = rankedConfig(bank);
+  }
+
+  enqueue(user: User, now = Date.now()): MatchmakingStatus {
+    this.matched.delete(user.id);
+    const existing = this.queue.get(user.id);
+    this.queue.set(user.id, {
+      userId: user.id,
+      rating: user.rating,
+      profile: toPlayerProfile(user),
+      queuedAt: existing?.queuedAt ?? now,
+    });
+    return this.status(user.id, now);
+  }
+
+  status(userId: string, now = Date.now()): MatchmakingStatus {
+    if (this.queue.has(userId)) this.tryMatch(userId, now);
+
+    const entry = this.queue.get(userId);
+    if (entry) {
+      return { status: "queued", rating: entry.rating, queuedAt: entry.queuedAt };
+    }
+
+    const roomId = this.matched.get(userId);
+    if (roomId && this.manager.getRoom(roomId)?.players.includes(userId)) {
+      return { status: "matched", roomId };
+    }
+    this.matched.delete(userId);
+    return { status: "idle" };
+  }
+
+  leave(userId: string) {
+    this.queue.delete(userId);
+    this.matched.delete(userId);
+  }
+
+  private windowOf(entry: QueueEntry, now: number) {
+    const waitedSeconds = Math.max(0, now - entry.queuedAt) / 1000;
+    return Math.min(MAX_WINDOW, BASE_WINDOW + WINDOW_GROWTH_PER_SECOND * waitedSeconds);
+  }
+
+  private tryMatch(userId: string, now: number) {
+    const player = this.queue.get(userId)!;
+    let best: QueueEntry | undefined;
+
+    for (const other of Array.from(this.queue.values())) {
+      if (other.userId === userId) continue;
+      const gap = Math.abs(other.rating - player.rating);
+      if (gap > Math.min(this.windowOf(player, now), this.windowOf(other, now))) continue;
+      if (!best || gap < Math.abs(best.rating - player.rating)) best = other;
+    }
+
+    if (best) this.startDuel(best, player);
+  }
+
+  private startDuel(a: QueueEntry, b: QueueEntry) {
+    // The player who queued first hosts
+    const [host, guest] = a.queuedAt <= b.queuedAt ? [a, b] : [b, a];
+    const roomId = this.roomCodes.reserve();
+    try {
+      this.manager.createRoom(roomId, host.userId, this.config, host.profile);
+      this.manager.joinRoom(roomId, guest.userId, guest.profile);
+    } finally {
+      this.roomCodes.release(roomId);
+    }
+
+    for (const entry of [host, guest]) {
+      this.queue.delete(entry.userId);
+      this.matched.set(entry.userId, roomId);
+    }
+  }
+}
+
+export const matchmaking = new MatchmakingQueue();
@@ -0,0 +1,66 @@
+/*
+  practice.ts
+
+  Server side of solo practice. Practice has no room, but the answer key
+  still stays on the server: `start` draws questions for the config and
+  hands them out redacted, and `answer` checks one answer and reveals
+  that question's key and rationale. Only questions from the player's
+  latest draw can be checked, each once, and never while the question is
+  still to be revealed in any unfinished room: drawing practice sessions
+  until a live question comes up doesn't give away its key, whether the
+  caller plays in that room, watches it or helps someone who does.
+*/
+import type { AnswerValue, GameRoom, PracticeAnswerResult, Question, RedactedQuestion, RoomConfig } from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { isCorrectAnswer, redactQuestion, revealQuestion, selectQuestions } from "@shared/gameRules";
+import { RoomError, rooms, type RoomManager } from "./rooms";
+
+// Whether the question has yet to be revealed in the room: the current
+// question until its round resolves, and every later one
+function awaitsReveal(room: GameRoom, questionId: string) {
+  if (room.finished) return false;
+  const firstHidden = room.roundResults ? room.currentQuestion + 1 : room.currentQuestion;
+  return room.questions.slice(firstHidden).includes(questionId);
+}
+
+export class PracticeSessions {
+  // playerId -> ids from their latest draw that haven't been answered
+  private pending = new Map<string, Set<string>>();
+  private byId: Map<string, Question>;
+
+  constructor(
+    private bank: Question[] = satQuestions,
+    private manager: RoomManager = rooms,
+  ) {
+    this.byId = new Map(bank.map((question) => [question.id, question]));
+  }
+
+  // Starts a new session, replacing any previous one
+  start(playerId: string, config: RoomConfig): RedactedQuestion[] {
+    const questions = selectQuestions(config, this.bank);
+    if (questions.length === 0) {
+      throw new RoomError(422, "No questions available for selected criteria");
+    }
+    this.pending.set(playerId, new Set(questions.map((q) => q.id)));
+    return questions.map(redactQuestion);
+  }
+
+  answer(playerId: string, questionId: string, answer: AnswerValue): PracticeAnswerResult {
+    const pending = this.pending.get(playerId);
+    const question = this.byId.get(questionId);
+    if (!pending?.has(questionId) || !question) {
+      throw new RoomError(404, "Question is not waiting for an answer in your practice session");
+    }
+    // Any live room: a second account or a spectator could otherwise
+    // look up the key for someone else's game
+    if (this.manager.listRooms().some((room) => awaitsReveal(room, questionId))) {
+      throw new RoomError(409, "This question is still in play in a live room");
+    }
+
+    pending.delete(questionId);
+    if (pending.size === 0) this.pending.delete(playerId);
+    return { correct: isCorrectAnswer(question, answer), reveal: revealQuestion(question) };
+  }
+}
+
+export const practice = new PracticeSessions();
@@ -0,0 +1,96 @@
+/*
+  presence.ts
+
+  Tracks which players are connected to their room through the room
+  channel (`realtime.ts`). A player counts as online while at least one
+  of their sockets is subscribed to the room, so a second tab or a quick
+  reconnect never flickers their status.
+
+  When the last socket closes the player is marked disconnected in the
+  room (`disconnectedAt`) and a grace timer starts. Reconnecting within
+  `FORFEIT_GRACE_MS` clears the mark; otherwise `RoomManager.forfeit`
+  ends a started duel in the opponent's favour or removes the player
+  from any other room. Bots never connect and are never tracked, and
+  neither are spectators: only sockets of players who are in the room
+  when they subscribe count.
+*/
+import type { GameRoom } from "@shared/schema";
+import { FORFEIT_GRACE_MS } from "@shared/gameRules";
+import { rooms, type RoomManager } from "./rooms";
+
+function presenceKey(roomId: string, playerId: string) {
+  return `${roomId}:${playerId}`;
+}
+
+export class PresenceTracker {
+  // Open sockets per room member, keyed by `presenceKey`
+  private connections: Map<string, number>;
+  private graceTimers: Map<string, ReturnType<typeof setTimeout>>;
+
+  constructor(
+    private manager: RoomManager = rooms,
+    private graceMs: number = FORFEIT_GRACE_MS,
+  ) {
+    this.connections = new Map();
+    this.graceTimers = new Map();
+  }
+
+  isOnline(roomId: string, playerId: string): boolean {
+    return (this.connections.get(presenceKey(roomId, playerId)) ?? 0) > 0;
+  }
+
+  // Returns whether the socket is tracked; only then must `disconnected`
+  // be called for it
+  connected(roomId: string, playerId: string): boolean {
+    if (!this.manager.getRoom(roomId)?.players.includes(playerId)) return false;
+    const key = presenceKey(roomId, playerId);
+    this.connections.set(key, (this.connections.get(key) ?? 0) + 1);
+    this.clearGrace(key);
+    this.manager.markConnected(roomId, playerId);
+    return true;
+  }
+
+  disconnected(roomId: string, playerId: string) {
+    const key = presenceKey(roomId, playerId);
+    const remaining = (this.connections.get(key) ?? 0) - 1;
+    if (remaining > 0) {
+      this.connections.set(key, remaining);
+      return;
+    }
+    this.connections.delete(key);
+
+    const room = this.manager.markDisconnected(roomId, playerId);
+    if (!room?.disconnectedAt?.[playerId]) return;
+
+    this.clearGrace(key);
+    this.graceTimers.set(
+      key,
+      setTimeout(() => {
+        this.graceTimers.delete(key);
+        if (this.manager.getRoom(roomId)?.disconnectedAt?.[playerId] !== undefined) {
+          this.manager.forfeit(roomId, playerId);
+        }
+      }, this.graceMs),
+    );
+  }
+
+  attach() {
+    // Nothing is left to forfeit once a room is over or gone
+    this.manager.on("finished", (room: GameRoom) => this.clearRoom(room.roomId));
+    this.manager.on("delete", (roomId: string) => this.clearRoom(roomId));
+  }
+
+  private clearRoom(roomId: string) {
+    Array.from(this.graceTimers.keys())
+      .filter((key) => key.startsWith(`${roomId}:`))
+      .forEach((key) => this.clearGrace(key));
+  }
+
+  private clearGrace(key: string) {
+    const timer = this.graceTimers.get(key);
+    if (timer) clearTimeout(timer);
+    this.graceTimers.delete(key);
+  }
+}
+
+export const presence = new PresenceTracker();
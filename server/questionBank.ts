@@ -0,0 +1,95 @@
+/*
+  questionBank.ts
+
+  Read access to the question bank for `GET /api/questions`, so clients
+  fetch the questions they need instead of bundling the whole bank.
+  Filters match `matchesRoomConfig` (modules are case-insensitive,
+  skills compare against `skill_desc`) and results keep bank order so
+  pagination is stable. Questions are redacted (no answer key or
+  rationale) unless the caller asks for answers and may have them
+  (`mayLoadAnswerKeys`).
+
+  Server config:
+  - SERVE_ANSWER_KEYS=true lets every signed-in player load answer keys.
+    Only set it for deployments whose rooms run on the Firebase transport
+    (`VITE_ROOM_TRANSPORT=firebase` in the client build), which scores
+    rounds on the client; otherwise only admins get them, so the keys of
+    server-run rooms stay on the server.
+*/
+import type {
+  Question,
+  QuestionBankSummary,
+  QuestionPage,
+  QuestionQuery,
+  RedactedQuestion,
+} from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { redactQuestion } from "@shared/gameRules";
+import { isAdmin } from "./auth";
+
+export function mayLoadAnswerKeys(user: Parameters<typeof isAdmin>[0]): boolean {
+  return isAdmin(user) || process.env.SERVE_ANSWER_KEYS === "true";
+}
+
+export class QuestionBank {
+  private byId: Map<string, Question>;
+
+  constructor(private bank: Question[] = satQuestions) {
+    this.byId = new Map(bank.map((question) => [question.id, question]));
+  }
+
+  get(id: string): Question | undefined {
+    return this.byId.get(id);
+  }
+
+  query(
+    { module, difficulty, skill, ids, limit, offset }: QuestionQuery,
+    includeAnswers = false,
+  ): QuestionPage<RedactedQuestion | Question> {
+    const modules = module?.map((m) => m.toLowerCase());
+    const idSet = ids ? new Set(ids) : undefined;
+
+    const matching = this.bank.filter(
+      (q) =>
+        (!modules || modules.includes(q.module.toLowerCase())) &&
+        (!difficulty || difficulty.includes(q.difficulty)) &&
+        (!skill || (q.skill_desc !== undefined && skill.includes(q.skill_desc))) &&
+        (!idSet || idSet.has(q.id)),
+    );
+
+    const page = matching.slice(offset, offset + limit);
+    return {
+      questions: includeAnswers ? page : page.map(redactQuestion),
+      total: matching.length,
+      limit,
+      offset,
+    };
+  }
+
+  summary(): QuestionBankSummary {
+    const summary: QuestionBankSummary = {
+      total: this.bank.length,
+      byModule: {},
+      byDifficulty: { E: 0, M: 0, H: 0 },
+      bySkill: {},
+      skillsByModule: {},
+    };
+    const skills: Record<string, Set<string>> = {};
+
+    for (const q of this.bank) {
+      const module = (q.module || "unknown").toLowerCase();
+      summary.byModule[module] = (summary.byModule[module] || 0) + 1;
+      summary.byDifficulty[q.difficulty] += 1;
+      if (q.skill_desc) {
+        summary.bySkill[q.skill_desc] = (summary.bySkill[q.skill_desc] || 0) + 1;
+        (skills[module] ??= new Set()).add(q.skill_desc);
+      }
+    }
+    for (const [module, set] of Object.entries(skills)) {
+      summary.skillsByModule[module] = Array.from(set).sort();
+    }
+    return summary;
+  }
+}
+
+export const questionBank = new QuestionBank();
@@ -0,0 +1,80 @@
+/*
+  ratings.ts
+
+  Elo ratings for ranked duels. When a ranked room finishes with both
+  players still in it, the final `scores` decide the result (higher score
+  wins, equal scores draw; a player who forfeited loses regardless of
+  the score), both players' ratings are updated in storage
+  and the before/after values are written to the room's `ratingChanges`
+  so `GameOver` can show them. Duels that expired unfinished are not
+  rated.
+
+  New players move faster: the K-factor is higher for their first
+  `PROVISIONAL_GAMES` rated games.
+*/
+import type { GameRoom } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { rooms, type RoomManager } from "./rooms";
+import { log } from "./vite";
+
+export const INITIAL_RATING = 1200;
+
+const PROVISIONAL_GAMES = 10;
+const K_PROVISIONAL = 40;
+const K_ESTABLISHED = 24;
+
+// Probability-like expected score of a player against an opponent
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// `score` is 1 for a win, 0.5 for a draw and 0 for a loss
+export function ratingAfter(rating: number, opponentRating: number, score: number, ratedGames: number): number {
+  const k = ratedGames < PROVISIONAL_GAMES ? K_PROVISIONAL : K_ESTABLISHED;
+  return Math.round(rating + k * (score - expectedScore(rating, opponentRating)));
+}
+
+export class RatingUpdater {
+  private rated: WeakSet<GameRoom>;
+
+  constructor(
+    private store: IStorage = storage,
+    private manager: RoomManager = rooms,
+  ) {
+    this.rated = new WeakSet();
+  }
+
+  // Rate a finished ranked duel once; later calls for the same room do nothing
+  async rate(room: GameRoom) {
+    if (!room.config.ranked || !room.finished || room.players.length !== 2 || this.rated.has(room)) return;
+    // Abandoned games that expired mid-duel don't count
+    if (room.expiredAt !== undefined) return;
+    this.rated.add(room);
+
+    const [a, b] = await Promise.all(room.players.map((id) => this.store.getUser(id)));
+    if (!a || !b) return;
+
+    const scoreA = room.scores[a.id] ?? 0;
+    const scoreB = room.scores[b.id] ?? 0;
+    const resultA = room.forfeitedBy
+      ? room.forfeitedBy === a.id ? 0 : 1
+      : scoreA > scoreB ? 1 : scoreA < scoreB ? 0 : 0.5;
+
+    const afterA = ratingAfter(a.rating, b.rating, resultA, a.ratedGames);
+    const afterB = ratingAfter(b.rating, a.rating, 1 - resultA, b.ratedGames);
+    await Promise.all([this.store.updateRating(a.id, afterA), this.store.updateRating(b.id, afterB)]);
+
+    this.manager.setRatingChanges(room, {
+      [a.id]: { before: a.rating, after: afterA },
+      [b.id]: { before: b.rating, after: afterB },
+    });
+  }
+
+  attach() {
+    this.manager.on("finished", (room: GameRoom) => {
+      this.rate(room).catch((err) => log(`failed to rate room ${room.roomId}: ${err}`, "ratings"));
+    });
+  }
+}
+
+export const ratingUpdater = new RatingUpdater();
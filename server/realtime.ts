@@ -0,0 +1,123 @@
+/*
+  realtime.ts
+
+  WebSocket room channel attached to the HTTP server created in
+  `registerRoutes`. Clients connect to `ROOM_CHANNEL_PATH`, send a
+  `subscribe` message for one room and receive the room state whenever
+  the `RoomManager` reports a change (plus once immediately on
+  subscribe). Writes still go through the REST endpoints; this channel
+  only fans state out.
+
+  Upgrades are handled manually (`noServer`) so requests for other paths,
+  such as Vite's HMR socket in development, are left untouched. Each
+  upgrade runs the session middleware so a signed-in player's
+  subscription also counts as their presence in that room (see
+  `presence.ts`). Anyone may subscribe to any room: spectators and
+  anonymous sockets receive the same updates without counting as
+  present, and every write is checked against the room's players.
+
+  Every subscriber, players included, gets the room through
+  `redactRoom`, the same view as the REST responses: while a round is
+  open it shows who has locked in but not what they picked, so nobody
+  can relay a pick to a player before the reveal, in ranked and
+  tournament rooms included.
+*/
+import { type IncomingMessage, type Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  ROOM_CHANNEL_PATH,
+  roomChannelClientMessageSchema,
+  type GameRoom,
+  type RoomChannelServerMessage,
+} from "@shared/schema";
+import { redactRoom } from "@shared/gameRules";
+import { rooms, type RoomManager } from "./rooms";
+import { presence as defaultPresence, type PresenceTracker } from "./presence";
+import { log } from "./vite";
+
+// passport keeps the signed-in user's id on the session
+function sessionUserId(req: IncomingMessage): string | undefined {
+  const session = (req as Request).session as { passport?: { user?: string } } | undefined;
+  return session?.passport?.user;
+}
+
+export function attachRoomChannel(
+  httpServer: Server,
+  sessionMiddleware?: RequestHandler,
+  manager: RoomManager = rooms,
+  presence: PresenceTracker = defaultPresence,
+) {
+  const wss = new WebSocketServer({ noServer: true });
+  const subscribers = new Map<string, Set<WebSocket>>();
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const pathname = (req.url || "").split("?")[0];
+    if (pathname !== ROOM_CHANNEL_PATH) return;
+    const upgrade = () => wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+    if (!sessionMiddleware) return upgrade();
+    sessionMiddleware(req as Request, {} as Response, upgrade);
+  });
+
+  const send = (ws: WebSocket, message: RoomChannelServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const broadcast = (roomId: string, room: GameRoom | null) => {
+    const visible = room && redactRoom(room);
+    subscribers.get(roomId)?.forEach((ws) => send(ws, { type: "room", roomId, room: visible, serverTime: Date.now() }));
+  };
+
+  const unsubscribe = (ws: WebSocket, roomId: string | null) => {
+    if (!roomId) return;
+    const set = subscribers.get(roomId);
+    set?.delete(ws);
+    if (set && set.size === 0) subscribers.delete(roomId);
+  };
+
+  wss.on("connection", (ws, req: IncomingMessage) => {
+    const playerId = sessionUserId(req);
+    let roomId: string | null = null;
+    // Whether this socket counts as the player's presence in `roomId`
+    let present = false;
+
+    const leave = () => {
+      if (roomId && playerId && present) presence.disconnected(roomId, playerId);
+      unsubscribe(ws, roomId);
+      roomId = null;
+      present = false;
+    };
+
+    ws.on("message", (data) => {
+      let parsed;
+      try {
+        parsed = roomChannelClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        parsed = undefined;
+      }
+      if (!parsed?.success) {
+        log("ignoring malformed room channel message", "realtime");
+        return;
+      }
+
+      const message = parsed.data;
+      leave();
+
+      if (message.type === "subscribe") {
+        roomId = message.roomId;
+        if (!subscribers.has(roomId)) subscribers.set(roomId, new Set());
+        subscribers.get(roomId)!.add(ws);
+        present = playerId !== undefined && presence.connected(roomId, playerId);
+        const room = manager.getRoom(roomId);
+        send(ws, { type: "room", roomId, room: room ? redactRoom(room) : null, serverTime: Date.now() });
+      }
+    });
+
+    ws.on("close", leave);
+  });
+
+  manager.on("update", (room: GameRoom) => broadcast(room.roomId, room));
+  manager.on("delete", (roomId: string) => broadcast(roomId, null));
+
+  return wss;
+}
@@ -0,0 +1,66 @@
+/*
+  roomCodes.ts
+
+  Hands out room codes. Clients no longer pick codes themselves: every
+  room created through `POST /api/rooms` or matchmaking gets its code
+  from `reserve`, which only returns codes that are neither in use by a
+  room (expired rooms included, until the sweeper removes them) nor
+  reserved by another pending create.
+
+  A reservation covers the gap between picking a code and creating the
+  room, e.g. while an adaptive room looks up skill history. Callers
+  release it once the room exists (or creation failed); reservations
+  that are never released lapse after `RESERVATION_TTL_MS`.
+
+  Codes come from the first tier in `ROOM_CODE_TIERS` that is less than
+  `LOAD_FACTOR` full, so four-digit codes are used until a lot of rooms
+  are open at once.
+*/
+import { ROOM_CODE_TIERS, randomRoomCode, tierCapacity } from "@shared/roomCodes";
+import { rooms, RoomError, type RoomManager } from "./rooms";
+
+const LOAD_FACTOR = 0.5;
+const ATTEMPTS_PER_TIER = 20;
+const RESERVATION_TTL_MS = 60 * 1000;
+
+export class RoomCodeAllocator {
+  // code -> when the reservation lapses
+  private reserved: Map<string, number>;
+
+  constructor(private manager: RoomManager = rooms) {
+    this.reserved = new Map();
+  }
+
+  isTaken(code: string, now = Date.now()): boolean {
+    const lapsesAt = this.reserved.get(code);
+    return (lapsesAt !== undefined && lapsesAt > now) || this.manager.getRoom(code) !== undefined;
+  }
+
+  reserve(now = Date.now()): string {
+    this.pruneReservations(now);
+    const occupied = this.manager.listRooms().length + this.reserved.size;
+
+    for (const tier of ROOM_CODE_TIERS) {
+      if (occupied >= tierCapacity(tier) * LOAD_FACTOR) continue;
+      for (let attempt = 0; attempt < ATTEMPTS_PER_TIER; attempt++) {
+        const code = randomRoomCode(tier);
+        if (this.isTaken(code, now)) continue;
+        this.reserved.set(code, now + RESERVATION_TTL_MS);
+        return code;
+      }
+    }
+    throw new RoomError(503, "No free room codes, try again shortly");
+  }
+
+  release(code: string) {
+    this.reserved.delete(code);
+  }
+
+  private pruneReservations(now: number) {
+    this.reserved.forEach((lapsesAt, code) => {
+      if (lapsesAt <= now) this.reserved.delete(code);
+    });
+  }
+}
+
+export const roomCodes = new RoomCodeAllocator();
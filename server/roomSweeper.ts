@@ -0,0 +1,47 @@
+/*
+  roomSweeper.ts
+
+  Garbage collection for rooms nobody finishes or leaves (closed tabs,
+  crashed clients, duels where both players wandered off). Every
+  `SWEEP_INTERVAL_MS` the sweeper:
+  - expires rooms that have been idle past their TTL (`roomTtlMs` in
+    `shared/gameRules.ts`). Games still in progress are finished as they
+    stand, so the match recorder saves them like any finished game
+  - removes rooms that expired more than `EXPIRED_RETENTION_MS` ago. The
+    delay lets subscribed clients see `expiredAt` and tell the player
+    before the room disappears
+*/
+import { isRoomExpired } from "@shared/gameRules";
+import { rooms, type RoomManager } from "./rooms";
+import { log } from "./vite";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const EXPIRED_RETENTION_MS = 5 * 60 * 1000;
+
+export class RoomSweeper {
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(private manager: RoomManager = rooms) {}
+
+  sweep(now = Date.now()) {
+    this.manager.listRooms().forEach((room) => {
+      if (room.expiredAt !== undefined) {
+        if (now - room.expiredAt > EXPIRED_RETENTION_MS) this.manager.deleteRoom(room.roomId);
+        return;
+      }
+      if (isRoomExpired(room, now)) {
+        log(`room ${room.roomId} expired after being idle`, "rooms");
+        this.manager.expireRoom(room.roomId, now);
+      }
+    });
+  }
+
+  attach() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+}
+
+export const roomSweeper = new RoomSweeper();
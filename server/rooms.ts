@@ -0,0 +1,287 @@
+/*
+  rooms.ts
+
+  Server-authoritative room engine. The server owns every `GameRoom`
+  (see `shared/schema.ts`) and is the only place where questions are
+  drawn, answers are checked against `satQuestions` and scores change.
+  Clients only send intents (create/join/answer/advance/leave) through
+  the routes in `server/routes.ts` and render whatever state comes back.
+
+  The rules themselves live in `shared/gameRules.ts`; this class holds
+  the rooms in memory, runs a timer for each timed question so rounds
+  resolve at the deadline even if nobody answers, and emits an event
+  after every change so the realtime channel (`server/realtime.ts`) can
+  push updates:
+  - "update" (room)   -> a room was created or changed
+  - "finished" (room) -> the room just moved past its last question, a
+                          duel ended by forfeit or a game in progress
+                          expired
+  - "delete" (roomId) -> the last player left or an expired room was
+                          removed, and the room is gone
+
+  Every change stamps `lastActivityAt`; `roomSweeper.ts` uses it to expire
+  idle rooms. Expired rooms stay readable (so subscribers see `expiredAt`)
+  but reject intents with 410 until the sweeper removes them.
+*/
+import { EventEmitter } from "events";
+import { type AnswerValue, type GameRoom, type PlayerProfile, type Question, type RoomConfig } from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import {
+  RoomError,
+  selectQuestions,
+  createRoomState,
+  applyJoin,
+  applyStart,
+  applyAnswer,
+  resolveRoundIfReady,
+  applyTimeout,
+  applyAdvance,
+  applyLeave,
+  applyDisconnect,
+  applyReconnect,
+  applyForfeit,
+  applyExpire,
+  applyRematchRequest,
+  rematchPool,
+  createRematchState,
+} from "@shared/gameRules";
+
+export { RoomError };
+
+export class RoomManager extends EventEmitter {
+  private rooms: Map<string, GameRoom>;
+  private questionsById: Map<string, Question>;
+  // One pending timeout per timed room, keyed by room id
+  private deadlineTimers: Map<string, { deadline: number; timer: ReturnType<typeof setTimeout> }>;
+
+  constructor(bank: Question[] = satQuestions) {
+    super();
+    this.rooms = new Map();
+    this.questionsById = new Map(bank.map((q) => [q.id, q]));
+    this.deadlineTimers = new Map();
+  }
+
+  getRoom(roomId: string): GameRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  listRooms(): GameRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  // `questions` overrides the random draw (e.g. adaptive selection)
+  createRoom(
+    roomId: string,
+    playerId: string,
+    config: RoomConfig,
+    profile?: PlayerProfile,
+    questions: Question[] = selectQuestions(config, Array.from(this.questionsById.values())),
+  ): GameRoom {
+    const existing = this.rooms.get(roomId);
+    if (existing && existing.expiredAt === undefined) {
+      throw new RoomError(409, "Room already exists");
+    }
+    // An expired room's code is free again
+    if (existing) this.deleteRoom(roomId);
+
+    const room = createRoomState(roomId, playerId, config, questions, profile);
+    this.rooms.set(roomId, room);
+    return this.changed(room);
+  }
+
+  joinRoom(roomId: string, playerId: string, profile?: PlayerProfile): GameRoom {
+    const room = this.requireRoom(roomId);
+    applyJoin(room, playerId, Date.now(), profile);
+    return this.changed(room);
+  }
+
+  startGame(roomId: string, playerId: string): GameRoom {
+    const room = this.requireRoom(roomId);
+    applyStart(room, playerId);
+    return this.changed(room);
+  }
+
+  submitAnswer(roomId: string, playerId: string, questionIndex: number, answer: AnswerValue): GameRoom {
+    const room = this.requireRoom(roomId);
+    applyAnswer(room, playerId, questionIndex, answer, this.currentQuestion(room));
+    return this.changed(room);
+  }
+
+  advance(roomId: string, playerId: string, questionIndex: number): GameRoom {
+    const room = this.requireRoom(roomId);
+    const wasFinished = room.finished;
+    applyAdvance(room, playerId, questionIndex);
+    this.changed(room);
+    if (room.finished && !wasFinished) this.emit("finished", room);
+    return room;
+  }
+
+  // Records the player's rematch request; `ready` once every player has
+  // asked and the caller should draw questions for `startRematch`
+  requestRematch(roomId: string, playerId: string): { room: GameRoom; ready: boolean } {
+    const room = this.requireRoom(roomId);
+    const ready = applyRematchRequest(room, playerId);
+    this.changed(room);
+    return { room, ready };
+  }
+
+  // The part of the bank a rematch of `room` draws from
+  rematchPool(room: GameRoom): Question[] {
+    return rematchPool(room, Array.from(this.questionsById.values()));
+  }
+
+  // Replaces a finished room with its rematch. The new game is a new
+  // object, so match records treat it as a game of its own.
+  // If the room already moved on (e.g. both players' requests drew
+  // questions at once), the current room is returned unchanged.
+  startRematch(previous: GameRoom, questions: Question[] = selectQuestions(previous.config, this.rematchPool(previous))): GameRoom {
+    const current = this.rooms.get(previous.roomId);
+    if (!current) {
+      throw new RoomError(404, "Room not found");
+    }
+    if (current !== previous || !current.finished) return current;
+
+    const room = createRematchState(current, questions);
+    this.rooms.set(room.roomId, room);
+    return this.changed(room);
+  }
+
+  // Swap a question that hasn't been shown yet (see `adaptive.ts`). Clients
+  // pick up the new id with the next broadcast.
+  replaceUpcomingQuestion(room: GameRoom, index: number, questionId: string) {
+    if (index <= room.currentQuestion || index >= room.questions.length) {
+      throw new RoomError(409, "Question has already been shown");
+    }
+    if (!this.questionsById.has(questionId)) {
+      throw new RoomError(400, "Unknown question");
+    }
+    room.questions[index] = questionId;
+  }
+
+  // Attach rating results to a ranked room (see `ratings.ts`)
+  setRatingChanges(room: GameRoom, changes: NonNullable<GameRoom["ratingChanges"]>) {
+    room.ratingChanges = changes;
+    if (this.rooms.get(room.roomId) === room) this.changed(room);
+  }
+
+  // Reserve a new room for a tournament pairing (see `tournaments.ts`)
+  reserveForTournament(room: GameRoom, tournament: NonNullable<GameRoom["tournament"]>) {
+    room.tournament = tournament;
+    this.changed(room);
+  }
+
+  // Removes the player; the room is deleted once the last player leaves.
+  // Leaving a duel in progress forfeits it instead: the player stays in
+  // the finished room so it is rated and recorded. Returns the remaining
+  // room, or undefined when it was deleted.
+  leaveRoom(roomId: string, playerId: string): GameRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    if (applyForfeit(room, playerId)) {
+      this.changed(room);
+      this.emit("finished", room);
+      return room;
+    }
+    if (applyLeave(room, playerId)) {
+      this.deleteRoom(roomId);
+      return undefined;
+    }
+    // The players still in the room may already make up the quorum
+    resolveRoundIfReady(room, this.currentQuestion(room));
+    return this.changed(room);
+  }
+
+  // Presence reported by `presence.ts`; unknown rooms are ignored
+  markDisconnected(roomId: string, playerId: string): GameRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (room && applyDisconnect(room, playerId)) this.changed(room);
+    return room;
+  }
+
+  markConnected(roomId: string, playerId: string): GameRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (room && applyReconnect(room, playerId)) this.changed(room);
+    return room;
+  }
+
+  // The player stayed away past the grace period: a started duel ends in
+  // the opponent's favour, any other room just loses the player
+  forfeit(roomId: string, playerId: string): GameRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room || room.finished || !room.players.includes(playerId)) return room;
+    return this.leaveRoom(roomId, playerId);
+  }
+
+  // Expire an idle room (see `roomSweeper.ts`); a game in progress is
+  // finished as it stands
+  expireRoom(roomId: string, now = Date.now()): GameRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room || room.expiredAt !== undefined) return room;
+
+    const finalized = applyExpire(room, now);
+    this.changed(room);
+    if (finalized) this.emit("finished", room);
+    return room;
+  }
+
+  deleteRoom(roomId: string) {
+    if (!this.rooms.delete(roomId)) return;
+    this.clearDeadline(roomId);
+    this.emit("delete", roomId);
+  }
+
+  private changed(room: GameRoom): GameRoom {
+    room.lastActivityAt = Date.now();
+    this.scheduleDeadline(room);
+    this.emit("update", room);
+    return room;
+  }
+
+  // Keep exactly one timer per room matching its current deadline
+  private scheduleDeadline(room: GameRoom) {
+    const deadline = room.roundResults || room.finished ? undefined : room.questionDeadline;
+    const pending = this.deadlineTimers.get(room.roomId);
+    if (pending?.deadline === deadline) return;
+
+    this.clearDeadline(room.roomId);
+    if (deadline === undefined) return;
+
+    const questionIndex = room.currentQuestion;
+    const timer = setTimeout(() => {
+      this.deadlineTimers.delete(room.roomId);
+      const current = this.rooms.get(room.roomId);
+      if (current && applyTimeout(current, questionIndex, this.currentQuestion(current))) {
+        this.changed(current);
+      }
+    }, Math.max(0, deadline - Date.now()));
+    this.deadlineTimers.set(room.roomId, { deadline, timer });
+  }
+
+  private clearDeadline(roomId: string) {
+    const pending = this.deadlineTimers.get(roomId);
+    if (pending) clearTimeout(pending.timer);
+    this.deadlineTimers.delete(roomId);
+  }
+
+  private currentQuestion(room: GameRoom): Question {
+    const question = this.questionsById.get(room.questions[room.currentQuestion]);
+    if (!question) {
+      throw new RoomError(500, "Question not found");
+    }
+    return question;
+  }
+
+  private requireRoom(roomId: string): GameRoom {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      throw new RoomError(404, "Room not found");
+    }
+    if (room.expiredAt !== undefined) {
+      throw new RoomError(410, "Room has expired");
+    }
+    return room;
+  }
+}
+
+export const rooms = new RoomManager();
@@ -1,27 +1,508 @@
 /*
   routes.ts
 
-  Central place to register API routes for the server. This file is
-  intentionally small in the starter project; add application endpoints
-  here (mount them on `/api`) so the rest of the server startup code
-  remains environment-agnostic.
-
-  Examples of routes you might add here:
-  - GET /api/questions -> return shared/questions.json
-  - POST /api/score -> persist a finished game result
+  Central place to register API routes for the server. All endpoints are
+  mounted on `/api` so the rest of the server startup code remains
+  environment-agnostic.
+
+  Account endpoints are registered by `setupAuth` (see `auth.ts`).
+
+  Access gate (see `access.ts`), signed-in only. The question bank,
+  practice, room and matchmaking endpoints below also require a redeemed
+  access code (admins are exempt) and answer 403 without one:
+  - GET    /api/access            -> whether this session may play
+  - POST   /api/access            -> redeem an access code
+  - GET    /api/access/codes      -> all access codes (admin)
+  - POST   /api/access/codes      -> issue an access code (admin)
+  - DELETE /api/access/codes/:id  -> revoke an access code (admin)
+
+  Teacher dashboard (see `classes.ts`), admin only. Access codes issued
+  with a `classId` enroll whoever redeems them in that class:
+  - GET /api/classes                    -> the admin's classes
+  - POST /api/classes                   -> create a class
+  - GET /api/classes/:classId           -> the class with each student's match
+                                           history and per-skill accuracy
+  - PUT /api/classes/:classId/presets   -> replace the class's room presets
+
+  Question bank (see `questionBank.ts`), signed-in only:
+  - GET /api/questions          -> matching questions, redacted (?module, ?difficulty,
+                                   ?skill, ?ids, each repeatable; ?limit, ?offset;
+                                   ?answers=true for admins, or for everyone when the
+                                   server sets SERVE_ANSWER_KEYS for Firebase rooms)
+  - GET /api/questions/summary  -> counts by module, difficulty and skill
+
+  Solo practice (see `practice.ts`), signed-in only:
+  - POST /api/practice          -> draw redacted questions for a config
+  - POST /api/practice/answer   -> check one answer and reveal its key and rationale
+                                   (409 while it is still to be revealed in any
+                                   unfinished room)
+
+  Room endpoints (state lives in the `RoomManager` from `rooms.ts`). All
+  require a signed-in user, who is the acting player:
+  - GET  /api/rooms/:roomId          -> current room state
+  - POST /api/rooms                  -> create a room under a newly allocated code
+                                        (see `roomCodes.ts`) and draw its questions
+  - POST /api/rooms/:roomId/join     -> join a room that hasn't started
+  - POST /api/rooms/:roomId/start    -> host starts a classroom room
+  - POST /api/rooms/:roomId/answer   -> lock in an answer for the current question
+  - POST /api/rooms/:roomId/advance  -> move to the next question (idempotent)
+  - POST /api/rooms/:roomId/leave    -> leave the room (forfeits a duel in progress)
+  - POST /api/rooms/:roomId/bots     -> host adds a bot player (see `bots.ts`)
+  - POST /api/rooms/:roomId/rematch  -> ask to replay a finished room; once every
+                                        player has, a new game with unplayed
+                                        questions replaces it under the same code
+                                        (409 for ranked duels and tournament matches)
+
+  Every mutating endpoint responds with the updated room, which like GET
+  and the room channel goes through `redactRoom`: until a round resolves
+  it lists who has answered, never their choices. Subscribed
+  clients also receive every change over the WebSocket room channel that
+  is attached to the returned HTTP server (see `realtime.ts`). The
+  channel also reports who is connected; players who drop out of a room
+  for longer than the grace period forfeit (see `presence.ts`).
+
+  Idle rooms expire (see `roomSweeper.ts`): they keep answering GET with
+  `expiredAt` set until they are removed, and every intent on them
+  responds 410.
+
+  Ranked matchmaking (see `matchmaking.ts` and `ratings.ts`), signed-in only:
+  - GET    /api/matchmaking      -> queue status; also retries pairing
+  - POST   /api/matchmaking      -> enter the ranked queue
+  - DELETE /api/matchmaking      -> leave the queue
+
+  Tournaments (see `tournaments.ts`), signed-in only. Each pairing is
+  played in a room reserved for its two players:
+  - GET  /api/tournaments            -> open, running and recent tournaments
+  - POST /api/tournaments            -> create a tournament and host it
+  - GET  /api/tournaments/:id        -> the tournament with its bracket
+  - POST /api/tournaments/:id/join   -> register before it starts
+  - POST /api/tournaments/:id/leave  -> unregister before it starts
+  - POST /api/tournaments/:id/start  -> host seeds the players and starts it
+
+  Match endpoints (finished games, see `matches.ts`), signed-in only:
+  - POST /api/matches            -> save a finished room (idempotent) and return the match
+  - GET  /api/matches            -> the signed-in player's matches, newest first (?limit, ?offset)
+  - GET  /api/matches/:matchId   -> one match the signed-in player took part in
 */
-import type { Express } from "express";
+import type { Express, NextFunction, Response } from "express";
 import { createServer, type Server } from "http";
+import { type z, type ZodTypeAny } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  createRoomRequestSchema,
+  submitAnswerRequestSchema,
+  advanceRoomRequestSchema,
+  addBotRequestSchema,
+  recordMatchRequestSchema,
+  matchHistoryQuerySchema,
+  questionQuerySchema,
+  practiceRequestSchema,
+  practiceAnswerRequestSchema,
+  redeemAccessRequestSchema,
+  createAccessCodeRequestSchema,
+  createClassRequestSchema,
+  updateClassPresetsRequestSchema,
+  createTournamentRequestSchema,
+} from "@shared/schema";
+import { redactRoom } from "@shared/gameRules";
+import { setupAuth, requireAuth, requireAdmin, toPlayerProfile } from "./auth";
+import { accessGate, requireAccess } from "./access";
+import { classRoster } from "./classes";
+import { rooms, RoomError } from "./rooms";
+import { attachRoomChannel } from "./realtime";
+import { presence } from "./presence";
+import { roomSweeper } from "./roomSweeper";
+import { roomCodes } from "./roomCodes";
+import { matchRecorder } from "./matches";
+import { matchmaking } from "./matchmaking";
+import { tournaments } from "./tournaments";
+import { ratingUpdater } from "./ratings";
+import { bots } from "./bots";
+import { adaptive } from "./adaptive";
 import { storage } from "./storage";
+import { questionBank, mayLoadAnswerKeys } from "./questionBank";
+import { practice } from "./practice";
+
+// Parse a request body (or query string), answering 400 with a readable message when invalid
+function parseBody<S extends ZodTypeAny>(schema: S, body: unknown, res: Response): z.infer<S> | undefined {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
+
+// Map engine rule violations to their HTTP status; anything else is a bug
+// and goes to the global error handler.
+function sendRoomError(res: Response, err: unknown) {
+  if (err instanceof RoomError) {
+    res.status(err.status).json({ message: err.message });
+    return;
+  }
+  throw err;
+}
+
+// `.catch` handler for async routes: rule violations become responses,
+// anything else goes to the global error handler
+function sendAsyncRoomError(res: Response, next: NextFunction) {
+  return (err: unknown) => {
+    try {
+      sendRoomError(res, err);
+    } catch (unexpected) {
+      next(unexpected);
+    }
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  const sessionMiddleware = setupAuth(app);
+
+  app.get("/api/access", requireAuth, (req, res) => {
+    res.json(accessGate.status(req));
+  });
+
+  app.post("/api/access", requireAuth, (req, res, next) => {
+    const body = parseBody(redeemAccessRequestSchema, req.body, res);
+    if (!body) return;
+    accessGate
+      .redeem(req, body.code)
+      .then((status) => res.json(status))
+      .catch(sendAsyncRoomError(res, next));
+  });
+
+  app.get("/api/access/codes", requireAdmin, (_req, res, next) => {
+    accessGate
+      .list()
+      .then((codes) => res.json(codes))
+      .catch(next);
+  });
+
+  app.post("/api/access/codes", requireAdmin, (req, res, next) => {
+    const body = parseBody(createAccessCodeRequestSchema, req.body, res);
+    if (!body) return;
+    accessGate
+      .issue(req.user!, body)
+      .then((code) => res.status(201).json(code))
+      .catch(sendAsyncRoomError(res, next));
+  });
+
+  app.delete("/api/access/codes/:id", requireAdmin, (req, res, next) => {
+    accessGate
+      .revoke(req.params.id)
+      .then((code) => res.json(code))
+      .catch(sendAsyncRoomError(res, next));
+  });
+
+  app.get("/api/classes", requireAdmin, (req, res, next) => {
+    classRoster
+      .list(req.user!)
+      .then((classes) => res.json(classes))
+      .catch(next);
+  });
+
+  app.post("/api/classes", requireAdmin, (req, res, next) => {
+    const body = parseBody(createClassRequestSchema, req.body, res);
+    if (!body) return;
+    classRoster
+      .create(req.user!, body.name)
+      .then((schoolClass) => res.status(201).json(schoolClass))
+      .catch(next);
+  });
+
+  app.get("/api/classes/:classId", requireAdmin, (req, res, next) => {
+    classRoster
+      .progress(req.user!, req.params.classId)
+      .then((progress) => res.json(progress))
+      .catch(sendAsyncRoomError(res, next));
+  });
+
+  app.put("/api/classes/:classId/presets", requireAdmin, (req, res, next) => {
+    const body = parseBody(updateClassPresetsRequestSchema, req.body, res);
+    if (!body) return;
+    classRoster
+      .updatePresets(req.user!, req.params.classId, body.presets)
+      .then((schoolClass) => res.json(schoolClass))
+      .catch(sendAsyncRoomError(res, next));
+  });
+
+  // Everything that plays the game is behind the access gate
+  app.use(["/api/questions", "/api/practice", "/api/rooms", "/api/matchmaking", "/api/tournaments"], requireAccess);
+
+  app.get("/api/questions", requireAuth, (req, res) => {
+    const query = parseBody(questionQuerySchema, req.query, res);
+    if (!query) return;
+    // Server-run rooms reveal answers per round; only admins, or every
+    // player where Firebase rooms need them, may load the answer keys
+    if (query.answers && !mayLoadAnswerKeys(req.user!)) {
+      res.status(403).json({ message: "Answer keys are not available" });
+      return;
+    }
+    res.json(questionBank.query(query, query.answers));
+  });
+
+  app.get("/api/questions/summary", requireAuth, (_req, res) => {
+    res.json(questionBank.summary());
+  });
+
+  app.post("/api/practice", requireAuth, (req, res) => {
+    const body = parseBody(practiceRequestSchema, req.body, res);
+    if (!body) return;
+    try {
+      res.json({ questions: practice.start(req.user!.id, body.config) });
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/practice/answer", requireAuth, (req, res) => {
+    const body = parseBody(practiceAnswerRequestSchema, req.body, res);
+    if (!body) return;
+    try {
+      res.json(practice.answer(req.user!.id, body.questionId, body.answer));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.get("/api/rooms/:roomId", requireAuth, (req, res) => {
+    const room = rooms.getRoom(req.params.roomId);
+    if (!room) {
+      res.status(404).json({ message: "Room not found" });
+      return;
+    }
+    res.json(redactRoom(room));
+  });
+
+  app.post("/api/rooms", requireAuth, (req, res, next) => {
+    const body = parseBody(createRoomRequestSchema, req.body, res);
+    if (!body) return;
+    if (body.config.ranked) {
+      res.status(400).json({ message: "Ranked rooms are created by matchmaking" });
+      return;
+    }
+
+    let roomId: string;
+    try {
+      roomId = roomCodes.reserve();
+    } catch (err) {
+      sendRoomError(res, err);
+      return;
+    }
+
+    // Adaptive rooms look up the host's skill history before drawing
+    const draw = body.config.adaptive ? adaptive.draw(body.config, [req.user!.id]) : Promise.resolve(undefined);
+    draw
+      .then((questions) => {
+        try {
+          res.status(201).json(redactRoom(rooms.createRoom(roomId, req.user!.id, body.config, toPlayerProfile(req.user!), questions)));
+        } catch (err) {
+          sendRoomError(res, err);
+        }
+      })
+      .catch(next)
+      .finally(() => roomCodes.release(roomId));
+  });
+
+  app.post("/api/rooms/:roomId/join", requireAuth, (req, res) => {
+    try {
+      res.json(redactRoom(rooms.joinRoom(req.params.roomId, req.user!.id, toPlayerProfile(req.user!))));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/rooms/:roomId/start", requireAuth, (req, res) => {
+    try {
+      res.json(redactRoom(rooms.startGame(req.params.roomId, req.user!.id)));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/rooms/:roomId/answer", requireAuth, (req, res) => {
+    const body = parseBody(submitAnswerRequestSchema, req.body, res);
+    if (!body) return;
+    try {
+      res.json(redactRoom(rooms.submitAnswer(req.params.roomId, req.user!.id, body.questionIndex, body.answer)));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/rooms/:roomId/advance", requireAuth, (req, res) => {
+    const body = parseBody(advanceRoomRequestSchema, req.body, res);
+    if (!body) return;
+    try {
+      res.json(redactRoom(rooms.advance(req.params.roomId, req.user!.id, body.questionIndex)));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/rooms/:roomId/leave", requireAuth, (req, res) => {
+    rooms.leaveRoom(req.params.roomId, req.user!.id);
+    res.status(204).end();
+  });
+
+  app.post("/api/rooms/:roomId/bots", requireAuth, (req, res) => {
+    const body = parseBody(addBotRequestSchema, req.body ?? {}, res);
+    if (!body) return;
+    try {
+      res.json(redactRoom(bots.addBot(req.params.roomId, req.user!.id, body.level)));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/rooms/:roomId/rematch", requireAuth, (req, res, next) => {
+    let request: ReturnType<typeof rooms.requestRematch>;
+    try {
+      request = rooms.requestRematch(req.params.roomId, req.user!.id);
+    } catch (err) {
+      sendRoomError(res, err);
+      return;
+    }
+    const { room, ready } = request;
+    if (!ready) {
+      res.json(redactRoom(room));
+      return;
+    }
+
+    // Adaptive rooms weigh the unplayed questions by the players' history
+    const draw = room.config.adaptive
+      ? adaptive.draw(room.config, room.players, rooms.rematchPool(room))
+      : Promise.resolve(undefined);
+    draw
+      .then((questions) => {
+        try {
+          res.json(redactRoom(rooms.startRematch(room, questions)));
+        } catch (err) {
+          sendRoomError(res, err);
+        }
+      })
+      .catch(next);
+  });
+
+  app.get("/api/matchmaking", requireAuth, (req, res) => {
+    try {
+      res.json(matchmaking.status(req.user!.id));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/matchmaking", requireAuth, (req, res) => {
+    try {
+      res.json(matchmaking.enqueue(req.user!));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.delete("/api/matchmaking", requireAuth, (req, res) => {
+    matchmaking.leave(req.user!.id);
+    res.status(204).end();
+  });
+
+  app.get("/api/tournaments", requireAuth, (_req, res) => {
+    res.json(tournaments.list());
+  });
+
+  app.post("/api/tournaments", requireAuth, (req, res) => {
+    const body = parseBody(createTournamentRequestSchema, req.body, res);
+    if (!body) return;
+    try {
+      res.status(201).json(tournaments.create(req.user!, body));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.get("/api/tournaments/:id", requireAuth, (req, res) => {
+    try {
+      res.json(tournaments.get(req.params.id));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/tournaments/:id/join", requireAuth, (req, res) => {
+    try {
+      res.json(tournaments.join(req.params.id, req.user!));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/tournaments/:id/leave", requireAuth, (req, res) => {
+    try {
+      res.json(tournaments.leave(req.params.id, req.user!.id));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/tournaments/:id/start", requireAuth, (req, res) => {
+    try {
+      res.json(tournaments.start(req.params.id, req.user!.id));
+    } catch (err) {
+      sendRoomError(res, err);
+    }
+  });
+
+  app.post("/api/matches", requireAuth, (req, res, next) => {
+    const body = parseBody(recordMatchRequestSchema, req.body, res);
+    if (!body) return;
+
+    const room = rooms.getRoom(body.roomId);
+    if (!room) {
+      res.status(404).json({ message: "Room not found" });
+      return;
+    }
+    if (!room.players.includes(req.user!.id)) {
+      res.status(403).json({ message: "Player is not in this room" });
+      return;
+    }
+
+    matchRecorder
+      .record(room)
+      .then((match) => res.status(201).json(match))
+      .catch(sendAsyncRoomError(res, next));
+  });
+
+  app.get("/api/matches", requireAuth, (req, res, next) => {
+    const query = parseBody(matchHistoryQuerySchema, req.query, res);
+    if (!query) return;
+
+    storage
+      .getMatchesForPlayer(req.user!.id, query.limit, query.offset)
+      .then((matches) => res.json(matches))
+      .catch(next);
+  });
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  app.get("/api/matches/:matchId", requireAuth, (req, res, next) => {
+    storage
+      .getMatch(req.params.matchId)
+      .then((match) => {
+        if (!match || !match.players.includes(req.user!.id)) {
+          res.status(404).json({ message: "Match not found" });
+          return;
+        }
+        res.json(match);
+      })
+      .catch(next);
+  });
 
   const httpServer = createServer(app);
+  attachRoomChannel(httpServer, sessionMiddleware);
+  presence.attach();
+  roomSweeper.attach();
+  matchRecorder.attach();
+  ratingUpdater.attach();
+  bots.attach();
+  adaptive.attach();
+  tournaments.attach();
 
   return httpServer;
 }
@@ -1,5 +1,24 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  matches,
+  accessCodes,
+  classes,
+  classMembers,
+  type User,
+  type InsertUser,
+  type PlayerProfile,
+  type Match,
+  type InsertMatch,
+  type AccessCode,
+  type InsertAccessCode,
+  type SchoolClass,
+  type InsertSchoolClass,
+  type ClassMember,
+  type RoomPreset,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { eq, asc, desc, arrayContains, sql, and, gt, lt, or, isNull } from "drizzle-orm";
+import { db, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +27,47 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateProfile(id: string, profile: PlayerProfile): Promise<User | undefined>;
+  // Sets the rating after a rated game and counts the game
+  updateRating(id: string, rating: number): Promise<User | undefined>;
+  createMatch(match: InsertMatch): Promise<Match>;
+  getMatch(id: string): Promise<Match | undefined>;
+  // Newest first
+  getMatchesForPlayer(playerId: string, limit: number, offset?: number): Promise<Match[]>;
+  createAccessCode(code: InsertAccessCode): Promise<AccessCode>;
+  getAccessCodeByCode(code: string): Promise<AccessCode | undefined>;
+  // Newest first
+  listAccessCodes(): Promise<AccessCode[]>;
+  // Counts one use if the code is live (not revoked, expired or used up)
+  // and returns it; undefined otherwise. Atomic, so usage limits hold
+  // under concurrent redemptions.
+  redeemAccessCode(code: string, now: Date): Promise<AccessCode | undefined>;
+  revokeAccessCode(id: string): Promise<AccessCode | undefined>;
+  createClass(schoolClass: InsertSchoolClass): Promise<SchoolClass>;
+  getClass(id: string): Promise<SchoolClass | undefined>;
+  // Newest first
+  listClassesForTeacher(teacherId: string): Promise<SchoolClass[]>;
+  updateClassPresets(id: string, presets: RoomPreset[]): Promise<SchoolClass | undefined>;
+  // No-op when the user is already a member
+  addClassMember(classId: string, userId: string): Promise<void>;
+  // Oldest first
+  listClassMembers(classId: string): Promise<ClassMember[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private matches: Map<string, Match>;
+  private accessCodes: Map<string, AccessCode>;
+  private classes: Map<string, SchoolClass>;
+  // classId -> members
+  private classMembers: Map<string, ClassMember[]>;
 
   constructor() {
     this.users = new Map();
+    this.matches = new Map();
+    this.accessCodes = new Map();
+    this.classes = new Map();
+    this.classMembers = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -29,10 +82,248 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, displayName: null, avatar: null, rating: 1200, ratedGames: 0 };
     this.users.set(id, user);
     return user;
   }
+
+  async updateProfile(id: string, profile: PlayerProfile): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...profile };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async updateRating(id: string, rating: number): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, rating, ratedGames: user.ratedGames + 1 };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const id = randomUUID();
+    const match: Match = { ...insertMatch, id, finishedAt: insertMatch.finishedAt ?? new Date() };
+    this.matches.set(id, match);
+    return match;
+  }
+
+  async getMatch(id: string): Promise<Match | undefined> {
+    return this.matches.get(id);
+  }
+
+  async getMatchesForPlayer(playerId: string, limit: number, offset = 0): Promise<Match[]> {
+    return Array.from(this.matches.values())
+      .filter((match) => match.players.includes(playerId))
+      .sort((a, b) => b.finishedAt.getTime() - a.finishedAt.getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async createAccessCode(insertCode: InsertAccessCode): Promise<AccessCode> {
+    const id = randomUUID();
+    const accessCode: AccessCode = {
+      ...insertCode,
+      id,
+      maxUses: insertCode.maxUses ?? null,
+      uses: insertCode.uses ?? 0,
+      revoked: insertCode.revoked ?? false,
+      createdAt: insertCode.createdAt ?? new Date(),
+      classId: insertCode.classId ?? null,
+    };
+    this.accessCodes.set(id, accessCode);
+    return accessCode;
+  }
+
+  async getAccessCodeByCode(code: string): Promise<AccessCode | undefined> {
+    return Array.from(this.accessCodes.values()).find((accessCode) => accessCode.code === code);
+  }
+
+  async listAccessCodes(): Promise<AccessCode[]> {
+    return Array.from(this.accessCodes.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async redeemAccessCode(code: string, now: Date): Promise<AccessCode | undefined> {
+    const accessCode = await this.getAccessCodeByCode(code);
+    if (!accessCode || accessCode.revoked || accessCode.expiresAt <= now) return undefined;
+    if (accessCode.maxUses !== null && accessCode.uses >= accessCode.maxUses) return undefined;
+    const updated = { ...accessCode, uses: accessCode.uses + 1 };
+    this.accessCodes.set(accessCode.id, updated);
+    return updated;
+  }
+
+  async revokeAccessCode(id: string): Promise<AccessCode | undefined> {
+    const accessCode = this.accessCodes.get(id);
+    if (!accessCode) return undefined;
+    const updated = { ...accessCode, revoked: true };
+    this.accessCodes.set(id, updated);
+    return updated;
+  }
+
+  async createClass(insertClass: InsertSchoolClass): Promise<SchoolClass> {
+    const id = randomUUID();
+    const schoolClass: SchoolClass = {
+      ...insertClass,
+      id,
+      presets: insertClass.presets ?? [],
+      createdAt: insertClass.createdAt ?? new Date(),
+    };
+    this.classes.set(id, schoolClass);
+    return schoolClass;
+  }
+
+  async getClass(id: string): Promise<SchoolClass | undefined> {
+    return this.classes.get(id);
+  }
+
+  async listClassesForTeacher(teacherId: string): Promise<SchoolClass[]> {
+    return Array.from(this.classes.values())
+      .filter((schoolClass) => schoolClass.teacherId === teacherId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateClassPresets(id: string, presets: RoomPreset[]): Promise<SchoolClass | undefined> {
+    const schoolClass = this.classes.get(id);
+    if (!schoolClass) return undefined;
+    const updated = { ...schoolClass, presets };
+    this.classes.set(id, updated);
+    return updated;
+  }
+
+  async addClassMember(classId: string, userId: string): Promise<void> {
+    const members = this.classMembers.get(classId) ?? [];
+    if (members.some((member) => member.userId === userId)) return;
+    this.classMembers.set(classId, [...members, { classId, userId, joinedAt: new Date() }]);
+  }
+
+  async listClassMembers(classId: string): Promise<ClassMember[]> {
+    return this.classMembers.get(classId) ?? [];
+  }
+}
+
+// Postgres-backed storage used whenever DATABASE_URL is configured
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateProfile(id: string, profile: PlayerProfile): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(profile).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateRating(id: string, rating: number): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ rating, ratedGames: sql`${users.ratedGames} + 1` })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const [match] = await this.db.insert(matches).values(insertMatch).returning();
+    return match;
+  }
+
+  async getMatch(id: string): Promise<Match | undefined> {
+    const [match] = await this.db.select().from(matches).where(eq(matches.id, id));
+    return match;
+  }
+
+  async getMatchesForPlayer(playerId: string, limit: number, offset = 0): Promise<Match[]> {
+    return this.db
+      .select()
+      .from(matches)
+      .where(arrayContains(matches.players, [playerId]))
+      .orderBy(desc(matches.finishedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async createAccessCode(insertCode: InsertAccessCode): Promise<AccessCode> {
+    const [accessCode] = await this.db.insert(accessCodes).values(insertCode).returning();
+    return accessCode;
+  }
+
+  async getAccessCodeByCode(code: string): Promise<AccessCode | undefined> {
+    const [accessCode] = await this.db.select().from(accessCodes).where(eq(accessCodes.code, code));
+    return accessCode;
+  }
+
+  async listAccessCodes(): Promise<AccessCode[]> {
+    return this.db.select().from(accessCodes).orderBy(desc(accessCodes.createdAt));
+  }
+
+  async redeemAccessCode(code: string, now: Date): Promise<AccessCode | undefined> {
+    const [accessCode] = await this.db
+      .update(accessCodes)
+      .set({ uses: sql`${accessCodes.uses} + 1` })
+      .where(
+        and(
+          eq(accessCodes.code, code),
+          eq(accessCodes.revoked, false),
+          gt(accessCodes.expiresAt, now),
+          or(isNull(accessCodes.maxUses), lt(accessCodes.uses, accessCodes.maxUses)),
+        ),
+      )
+      .returning();
+    return accessCode;
+  }
+
+  async revokeAccessCode(id: string): Promise<AccessCode | undefined> {
+    const [accessCode] = await this.db
+      .update(accessCodes)
+      .set({ revoked: true })
+      .where(eq(accessCodes.id, id))
+      .returning();
+    return accessCode;
+  }
+
+  async createClass(insertClass: InsertSchoolClass): Promise<SchoolClass> {
+    const [schoolClass] = await this.db.insert(classes).values(insertClass).returning();
+    return schoolClass;
+  }
+
+  async getClass(id: string): Promise<SchoolClass | undefined> {
+    const [schoolClass] = await this.db.select().from(classes).where(eq(classes.id, id));
+    return schoolClass;
+  }
+
+  async listClassesForTeacher(teacherId: string): Promise<SchoolClass[]> {
+    return this.db.select().from(classes).where(eq(classes.teacherId, teacherId)).orderBy(desc(classes.createdAt));
+  }
+
+  async updateClassPresets(id: string, presets: RoomPreset[]): Promise<SchoolClass | undefined> {
+    const [schoolClass] = await this.db.update(classes).set({ presets }).where(eq(classes.id, id)).returning();
+    return schoolClass;
+  }
+
+  async addClassMember(classId: string, userId: string): Promise<void> {
+    await this.db.insert(classMembers).values({ classId, userId }).onConflictDoNothing();
+  }
+
+  async listClassMembers(classId: string): Promise<ClassMember[]> {
+    return this.db
+      .select()
+      .from(classMembers)
+      .where(eq(classMembers.classId, classId))
+      .orderBy(asc(classMembers.joinedAt));
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
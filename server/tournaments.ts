@@ -0,0 +1,219 @@
+/*
+  tournaments.ts
+
+  Tournaments: single elimination, double elimination or Swiss brackets
+  of duels (the rules live in `shared/brackets.ts`). Tournaments are held
+  in memory like rooms. Any player with access can host one; players
+  join while it is registering and the host starts it, which seeds the
+  players by rating.
+
+  Every pairing gets its own room automatically, created through the
+  `RoomManager` under a code from `roomCodes.ts` with the tournament's
+  config (always an unranked duel). The better seed is seated in it and
+  the room is reserved for the pair, so opening the room starts the
+  duel. When a room finishes, its final `scores` decide the match and
+  the next pairings get their rooms. If a room expires before the duel
+  started, whoever is seated wins by walkover; if everyone leaves a room
+  before the match is decided, a fresh room replaces it.
+
+  Finished tournaments (and ones that never started) are dropped after
+  `RETENTION_MS`.
+
+  Routes (registered in `routes.ts`, signed-in players with access):
+  - GET  /api/tournaments            -> open, running and recent tournaments
+  - POST /api/tournaments            -> create a tournament (the creator hosts)
+  - GET  /api/tournaments/:id        -> the tournament with its bracket
+  - POST /api/tournaments/:id/join   -> register while it hasn't started
+  - POST /api/tournaments/:id/leave  -> unregister while it hasn't started
+  - POST /api/tournaments/:id/start  -> host starts it
+*/
+import { randomUUID } from "crypto";
+import type {
+  CreateTournamentRequest,
+  GameRoom,
+  Question,
+  Tournament,
+  TournamentMatch,
+  TournamentSummary,
+  User,
+} from "@shared/schema";
+import { satQuestions } from "@shared/questions";
+import { selectQuestions } from "@shared/gameRules";
+import {
+  advanceTournament,
+  applyJoinTournament,
+  applyLeaveTournament,
+  applyMatchResult,
+  applyStartTournament,
+  matchOutcome,
+} from "@shared/brackets";
+import { rooms, RoomError, type RoomManager } from "./rooms";
+import { roomCodes as defaultRoomCodes, type RoomCodeAllocator } from "./roomCodes";
+import { toPlayerProfile } from "./auth";
+import { log } from "./vite";
+
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export class TournamentManager {
+  private tournaments: Map<string, Tournament>;
+  // roomId -> the undecided match it hosts
+  private roomMatches: Map<string, { tournamentId: string; matchId: string }>;
+
+  constructor(
+    private manager: RoomManager = rooms,
+    private roomCodes: RoomCodeAllocator = defaultRoomCodes,
+    private bank: Question[] = satQuestions,
+  ) {
+    this.tournaments = new Map();
+    this.roomMatches = new Map();
+  }
+
+  attach() {
+    this.manager.on("finished", (room: GameRoom) => this.decide(room.roomId, room));
+    this.manager.on("update", (room: GameRoom) => {
+      // Nobody joined the seated player before the room expired
+      if (room.tournament && room.expiredAt !== undefined && !room.started) this.decide(room.roomId, room);
+    });
+    this.manager.on("delete", (roomId: string) => this.replaceRoom(roomId));
+  }
+
+  list(now = Date.now()): TournamentSummary[] {
+    this.prune(now);
+    return Array.from(this.tournaments.values())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((tournament) => ({
+        id: tournament.id,
+        name: tournament.name,
+        format: tournament.format,
+        status: tournament.status,
+        hostId: tournament.hostId,
+        hostName: tournament.profiles[tournament.hostId]?.displayName,
+        playerCount: tournament.players.length,
+        maxPlayers: tournament.maxPlayers,
+        winnerId: tournament.winnerId,
+        winnerName: tournament.winnerId ? tournament.profiles[tournament.winnerId]?.displayName : undefined,
+        createdAt: tournament.createdAt,
+      }));
+  }
+
+  get(id: string): Tournament {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) throw new RoomError(404, "Tournament not found");
+    return tournament;
+  }
+
+  create(host: User, request: CreateTournamentRequest, now = Date.now()): Tournament {
+    this.prune(now);
+    const config = { ...request.config, maxPlayers: 2, answerQuorum: 1, ranked: undefined };
+    if (selectQuestions(config, this.bank).length === 0) {
+      throw new RoomError(422, "No questions available for selected criteria");
+    }
+
+    const profile = toPlayerProfile(host);
+    const tournament: Tournament = {
+      id: randomUUID(),
+      name: request.name,
+      format: request.format,
+      config,
+      hostId: host.id,
+      status: "registering",
+      maxPlayers: request.maxPlayers,
+      players: [],
+      profiles: profile ? { [host.id]: profile } : {},
+      ratings: {},
+      swissRounds: request.format === "swiss" ? request.swissRounds : undefined,
+      matches: [],
+      createdAt: now,
+    };
+    this.tournaments.set(tournament.id, tournament);
+    return tournament;
+  }
+
+  join(id: string, user: User): Tournament {
+    const tournament = this.get(id);
+    applyJoinTournament(tournament, user.id, user.rating, toPlayerProfile(user));
+    return tournament;
+  }
+
+  leave(id: string, playerId: string): Tournament {
+    const tournament = this.get(id);
+    applyLeaveTournament(tournament, playerId);
+    return tournament;
+  }
+
+  start(id: string, playerId: string): Tournament {
+    const tournament = this.get(id);
+    this.openRooms(tournament, applyStartTournament(tournament, playerId));
+    return tournament;
+  }
+
+  // A tournament room finished or expired unplayed: decide its match
+  private decide(roomId: string, room: GameRoom) {
+    const entry = this.roomMatches.get(roomId);
+    if (!entry) return;
+    this.roomMatches.delete(roomId);
+
+    const tournament = this.tournaments.get(entry.tournamentId);
+    const match = tournament?.matches.find((candidate) => candidate.id === entry.matchId);
+    if (!tournament || !match || match.status !== "playing") return;
+    const ready = applyMatchResult(tournament, match.id, matchOutcome(tournament, match, room));
+    this.openRooms(tournament, ready);
+  }
+
+  // Everyone left before the match was decided: play it in a new room
+  private replaceRoom(roomId: string) {
+    const entry = this.roomMatches.get(roomId);
+    if (!entry) return;
+    this.roomMatches.delete(roomId);
+
+    const tournament = this.tournaments.get(entry.tournamentId);
+    const match = tournament?.matches.find((candidate) => candidate.id === entry.matchId);
+    if (!tournament || !match || match.status !== "playing") return;
+    match.status = "pending";
+    delete match.roomId;
+    this.openRooms(tournament, advanceTournament(tournament));
+  }
+
+  private openRooms(tournament: Tournament, ready: TournamentMatch[]) {
+    for (const match of ready) {
+      try {
+        this.openRoom(tournament, match);
+      } catch (err) {
+        // Stays pending; the next change to the tournament tries again
+        if (!(err instanceof RoomError)) throw err;
+        log(`tournament ${tournament.id}: could not open a room for ${match.id}: ${err.message}`);
+      }
+    }
+  }
+
+  private openRoom(tournament: Tournament, match: TournamentMatch) {
+    const [seated, opponent] = match.players;
+    if (!seated || !opponent || match.status !== "pending") return;
+
+    const roomId = this.roomCodes.reserve();
+    try {
+      const room = this.manager.createRoom(roomId, seated, tournament.config, tournament.profiles[seated]);
+      this.manager.reserveForTournament(room, {
+        tournamentId: tournament.id,
+        matchId: match.id,
+        players: [seated, opponent],
+      });
+    } finally {
+      this.roomCodes.release(roomId);
+    }
+    match.status = "playing";
+    match.roomId = roomId;
+    this.roomMatches.set(roomId, { tournamentId: tournament.id, matchId: match.id });
+  }
+
+  private prune(now: number) {
+    this.tournaments.forEach((tournament, id) => {
+      const stale =
+        (tournament.status === "finished" && now - (tournament.finishedAt ?? 0) > RETENTION_MS) ||
+        (tournament.status === "registering" && now - tournament.createdAt > RETENTION_MS);
+      if (stale) this.tournaments.delete(id);
+    });
+  }
+}
+
+export const tournaments = new TournamentManager();
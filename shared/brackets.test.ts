@@ -0,0 +1,136 @@
+/*
+  brackets.test.ts
+
+  Pins the tournament rules from `brackets.ts`: byes for the best seeds
+  in elimination brackets, the double-elimination grand final replay
+  and Swiss byes. Run with `npm test`.
+*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Tournament, TournamentFormat } from "./schema";
+import { applyMatchResult, applyStartTournament, swissStandings } from "./brackets";
+
+// Players p1..pN, rated so that p1 is the top seed
+const startTournament = (format: TournamentFormat, playerCount: number) => {
+  const players = Array.from({ length: playerCount }, (_, i) => `p${i + 1}`);
+  const tournament: Tournament = {
+    id: "t1",
+    name: "Test cup",
+    format,
+    config: { modules: ["Math"], difficulties: ["M"], numQuestions: 5, maxPlayers: 2, answerQuorum: 1, speedBonus: false },
+    hostId: "p1",
+    status: "registering",
+    maxPlayers: 16,
+    players,
+    profiles: {},
+    ratings: Object.fromEntries(players.map((id, i) => [id, 1500 - i * 10])),
+    matches: [],
+    createdAt: 0,
+  };
+  const ready = applyStartTournament(tournament, "p1", 0);
+  return { tournament, ready: ready.map((match) => match.id) };
+};
+
+const match = (tournament: Tournament, matchId: string) => {
+  const found = tournament.matches.find((candidate) => candidate.id === matchId);
+  assert.ok(found, `match ${matchId}`);
+  return found;
+};
+
+// Records a played match won by `winnerId`; returns the ids now ready
+const win = (tournament: Tournament, matchId: string, winnerId: string) => {
+  const loserId = match(tournament, matchId).players.find((id) => id !== winnerId) ?? null;
+  return applyMatchResult(tournament, matchId, { winnerId, loserId, scores: {}, walkover: false }, 0).map(
+    (ready) => ready.id,
+  );
+};
+
+test("single elimination gives the byes to the best seeds", () => {
+  const { tournament, ready } = startTournament("single_elimination", 5);
+
+  // Bracket of 8: seeds 1-3 meet the empty seeds 6-8
+  for (const [matchId, seed] of [
+    ["W1-1", "p1"],
+    ["W1-3", "p2"],
+    ["W1-4", "p3"],
+  ]) {
+    const bye = match(tournament, matchId);
+    assert.equal(bye.status, "finished", matchId);
+    assert.equal(bye.walkover, true, matchId);
+    assert.equal(bye.winnerId, seed, matchId);
+  }
+  // Only 4 v 5 is played in round 1; the two bye winners already meet
+  assert.deepEqual(ready, ["W1-2", "W2-2"]);
+  assert.deepEqual(match(tournament, "W2-2").players, ["p2", "p3"]);
+  assert.deepEqual(match(tournament, "W2-1").players, ["p1", null]);
+
+  assert.deepEqual(win(tournament, "W1-2", "p5"), ["W2-1", "W2-2"]);
+  assert.deepEqual(match(tournament, "W2-1").players, ["p1", "p5"]);
+});
+
+test("single elimination finishes with the final's winner", () => {
+  const { tournament } = startTournament("single_elimination", 3);
+  win(tournament, "W1-2", "p3");
+  assert.equal(tournament.status, "running");
+  win(tournament, "W2-1", "p3");
+  assert.equal(tournament.status, "finished");
+  assert.equal(tournament.winnerId, "p3");
+});
+
+// p1 goes through the winners bracket unbeaten; p2 comes back through the
+// losers bracket to meet them in the grand final
+const reachGrandFinal = () => {
+  const { tournament } = startTournament("double_elimination", 4);
+  win(tournament, "W1-1", "p1");
+  win(tournament, "W1-2", "p2");
+  win(tournament, "L1-1", "p4");
+  win(tournament, "W2-1", "p1");
+  assert.deepEqual(win(tournament, "L2-1", "p2"), ["F1"]);
+  assert.deepEqual(match(tournament, "F1").players, ["p1", "p2"]);
+  return tournament;
+};
+
+test("double elimination ends when the unbeaten player wins the grand final", () => {
+  const tournament = reachGrandFinal();
+  assert.deepEqual(win(tournament, "F1", "p1"), []);
+  assert.equal(tournament.status, "finished");
+  assert.equal(tournament.winnerId, "p1");
+  assert.equal(tournament.matches.some((candidate) => candidate.id === "F2"), false);
+});
+
+test("double elimination replays the grand final when the losers bracket champion wins it", () => {
+  const tournament = reachGrandFinal();
+  assert.deepEqual(win(tournament, "F1", "p2"), ["F2"]);
+  assert.equal(tournament.status, "running");
+  assert.deepEqual(match(tournament, "F2").players, ["p1", "p2"]);
+
+  // Both finalists now have one loss; the replay decides it
+  assert.deepEqual(win(tournament, "F2", "p1"), []);
+  assert.equal(tournament.status, "finished");
+  assert.equal(tournament.winnerId, "p1");
+  assert.equal(tournament.matches.filter((candidate) => candidate.bracket === "final").length, 2);
+});
+
+test("swiss gives the odd player out a bye, counted as a win, at most once each", () => {
+  const { tournament, ready } = startTournament("swiss", 3);
+  assert.equal(tournament.swissRounds, 2);
+  assert.deepEqual(ready, ["S1-1"]);
+  assert.deepEqual(match(tournament, "S1-1").players, ["p1", "p2"]);
+
+  // The lowest seed sits out round 1
+  const firstBye = match(tournament, "S1-2");
+  assert.deepEqual(firstBye.players, ["p3", null]);
+  assert.equal(firstBye.status, "finished");
+  assert.equal(firstBye.winnerId, "p3");
+
+  // p2 is now last; p3 already had a bye, so p2 sits out round 2
+  assert.deepEqual(win(tournament, "S1-1", "p1"), ["S2-1"]);
+  assert.deepEqual(match(tournament, "S2-1").players, ["p1", "p3"]);
+  assert.deepEqual(match(tournament, "S2-2").players, ["p2", null]);
+
+  win(tournament, "S2-1", "p3");
+  assert.equal(tournament.status, "finished");
+  assert.equal(tournament.winnerId, "p3");
+  const [first] = swissStandings(tournament);
+  assert.deepEqual([first.playerId, first.wins, first.points], ["p3", 2, 2]);
+});
@@ -0,0 +1,427 @@
+/*
+  brackets.ts
+
+  Pure tournament rules used by the server (`server/tournaments.ts`) and,
+  for standings, by the bracket page. Like `gameRules.ts`, each `apply*`
+  function validates an intent against a `Tournament` and mutates it in
+  place, throwing `RoomError` when the intent breaks a rule.
+
+  Formats:
+  - Single elimination: players are seeded by rating into a bracket sized
+    to the next power of two; the best seeds get the byes. Each match
+    winner moves on until one player is left.
+  - Double elimination: losers of the winners bracket drop into a losers
+    bracket; a second loss knocks a player out. The grand final is the
+    winners bracket champion against the losers bracket champion, and is
+    replayed once ("F2") if the losers bracket champion wins it, so the
+    champion is never someone with two losses.
+  - Swiss: a fixed number of rounds; each round pairs players with equal
+    or close points who haven't met yet, and an odd player out gets a bye
+    (a win). The most points wins, then Buchholz (opponents' points).
+
+  Match results come from the room's final `scores` (see
+  `matchOutcome`). Elimination matches always produce a winner: a tie
+  goes to the player who answered correctly faster in total, then to the
+  better seed. A player who left the room or forfeited loses; if only one
+  of the pair is still in the room, they win.
+*/
+import type { GameRoom, SwissStanding, Tournament, TournamentMatch, BracketSlotSource } from "./schema";
+import { RoomError } from "./gameRules";
+
+export interface MatchOutcome {
+  winnerId: string | null;
+  loserId: string | null;
+  scores: Record<string, number>;
+  walkover: boolean;
+}
+
+// Bracket positions of seeds 1..size, so that the best seeds meet last
+// (size 4 -> [1, 4, 2, 3])
+export function seedPositions(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap((seed) => [seed, next + 1 - seed]);
+  }
+  return order;
+}
+
+function eliminationMatch(
+  id: string,
+  bracket: TournamentMatch["bracket"],
+  round: number,
+  sources: [BracketSlotSource, BracketSlotSource],
+): TournamentMatch {
+  return { id, bracket, round, players: [null, null], sources, status: "pending" };
+}
+
+const winnerOf = (matchId: string): BracketSlotSource => ({ kind: "winner", matchId });
+const loserOf = (matchId: string): BracketSlotSource => ({ kind: "loser", matchId });
+
+// Every match of an elimination bracket, in an order where each match
+// comes after the matches its players come from
+export function buildEliminationMatches(playerCount: number, double: boolean): TournamentMatch[] {
+  let size = 2;
+  while (size < playerCount) size *= 2;
+  const rounds = Math.log2(size);
+  const positions = seedPositions(size);
+  const matches: TournamentMatch[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let i = 0; i < count; i++) {
+      const sources: [BracketSlotSource, BracketSlotSource] =
+        round === 1
+          ? [
+              { kind: "seed", seed: positions[2 * i] },
+              { kind: "seed", seed: positions[2 * i + 1] },
+            ]
+          : [winnerOf(`W${round - 1}-${2 * i + 1}`), winnerOf(`W${round - 1}-${2 * i + 2}`)];
+      matches.push(eliminationMatch(`W${round}-${i + 1}`, "winners", round, sources));
+    }
+  }
+  if (!double) return matches;
+
+  const winnersFinal = `W${rounds}-1`;
+  if (rounds === 1) {
+    // Two players: the loser of the only match gets a second chance
+    matches.push(eliminationMatch("F1", "final", 1, [winnerOf(winnersFinal), loserOf(winnersFinal)]));
+    return matches;
+  }
+
+  // Losers round 1 pairs the losers of winners round 1. After that, rounds
+  // alternate: survivors meet the players dropping from the next winners
+  // round, then (except at the end) play each other to halve the field.
+  for (let i = 0; i < size / 4; i++) {
+    matches.push(eliminationMatch(`L1-${i + 1}`, "losers", 1, [loserOf(`W1-${2 * i + 1}`), loserOf(`W1-${2 * i + 2}`)]));
+  }
+  let losersRound = 1;
+  for (let round = 2; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    const previous = losersRound;
+    losersRound += 1;
+    for (let i = 0; i < count; i++) {
+      // Drop-ins arrive in reverse order so early rematches are avoided
+      matches.push(
+        eliminationMatch(`L${losersRound}-${i + 1}`, "losers", losersRound, [
+          winnerOf(`L${previous}-${i + 1}`),
+          loserOf(`W${round}-${count - i}`),
+        ]),
+      );
+    }
+    if (round < rounds) {
+      const merged = losersRound;
+      losersRound += 1;
+      for (let i = 0; i < count / 2; i++) {
+        matches.push(
+          eliminationMatch(`L${losersRound}-${i + 1}`, "losers", losersRound, [
+            winnerOf(`L${merged}-${2 * i + 1}`),
+            winnerOf(`L${merged}-${2 * i + 2}`),
+          ]),
+        );
+      }
+    }
+  }
+  matches.push(eliminationMatch("F1", "final", 1, [winnerOf(winnersFinal), winnerOf(`L${losersRound}-1`)]));
+  return matches;
+}
+
+// Default Swiss length: enough rounds to separate a single winner
+export function defaultSwissRounds(playerCount: number): number {
+  return Math.max(1, Math.min(playerCount - 1, Math.ceil(Math.log2(playerCount))));
+}
+
+function findMatch(tournament: Tournament, matchId: string): TournamentMatch {
+  const match = tournament.matches.find((candidate) => candidate.id === matchId);
+  if (!match) throw new RoomError(404, "Match not found");
+  return match;
+}
+
+function seedOf(tournament: Tournament, playerId: string) {
+  const index = tournament.players.indexOf(playerId);
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+// undefined while the source match hasn't finished; null for an empty slot
+function slotPlayer(tournament: Tournament, source: BracketSlotSource): string | null | undefined {
+  if (source.kind === "seed") return tournament.players[source.seed - 1] ?? null;
+  const from = findMatch(tournament, source.matchId);
+  if (from.status !== "finished") return undefined;
+  return (source.kind === "winner" ? from.winnerId : from.loserId) ?? null;
+}
+
+export function applyJoinTournament(
+  tournament: Tournament,
+  playerId: string,
+  rating: number,
+  profile?: Tournament["profiles"][string],
+) {
+  if (tournament.players.includes(playerId)) {
+    if (profile) tournament.profiles[playerId] = profile;
+    return;
+  }
+  if (tournament.status !== "registering") {
+    throw new RoomError(409, "Tournament already started");
+  }
+  if (tournament.players.length >= tournament.maxPlayers) {
+    throw new RoomError(409, "Tournament is full");
+  }
+  tournament.players.push(playerId);
+  tournament.ratings[playerId] = rating;
+  if (profile) tournament.profiles[playerId] = profile;
+}
+
+export function applyLeaveTournament(tournament: Tournament, playerId: string) {
+  if (tournament.status !== "registering") {
+    throw new RoomError(409, "Players can't leave a tournament once it has started");
+  }
+  tournament.players = tournament.players.filter((id) => id !== playerId);
+  delete tournament.ratings[playerId];
+  delete tournament.profiles[playerId];
+}
+
+// Seeds the players by rating (join order breaks ties) and builds the
+// bracket, or the first Swiss round. Returns the matches ready to play.
+export function applyStartTournament(tournament: Tournament, playerId: string, now = Date.now()): TournamentMatch[] {
+  if (tournament.hostId !== playerId) {
+    throw new RoomError(403, "Only the host can start the tournament");
+  }
+  if (tournament.status !== "registering") {
+    throw new RoomError(409, "Tournament already started");
+  }
+  if (tournament.players.length < 2) {
+    throw new RoomError(409, "At least two players are needed to start");
+  }
+
+  const joinOrder = [...tournament.players];
+  tournament.players.sort(
+    (a, b) => tournament.ratings[b] - tournament.ratings[a] || joinOrder.indexOf(a) - joinOrder.indexOf(b),
+  );
+  tournament.status = "running";
+  tournament.startedAt = now;
+
+  if (tournament.format === "swiss") {
+    tournament.swissRounds = Math.min(
+      tournament.swissRounds ?? defaultSwissRounds(tournament.players.length),
+      tournament.players.length - 1,
+    );
+    tournament.matches = [];
+  } else {
+    tournament.matches = buildEliminationMatches(tournament.players.length, tournament.format === "double_elimination");
+  }
+  return advanceTournament(tournament, now);
+}
+
+// Decides a match from its room. `room` is undefined when the room is gone.
+export function matchOutcome(tournament: Tournament, match: TournamentMatch, room?: GameRoom): MatchOutcome {
+  const [a, b] = match.players;
+  if (!a || !b) throw new RoomError(409, "Match has no opponent");
+  const scores = { [a]: room?.scores[a] ?? 0, [b]: room?.scores[b] ?? 0 };
+  const present = [a, b].filter((id) => room?.players.includes(id) && room.forfeitedBy !== id);
+  const walkover = !room?.started;
+
+  if (present.length === 1) {
+    const [winnerId] = present;
+    return { winnerId, loserId: winnerId === a ? b : a, scores, walkover };
+  }
+  if (present.length === 2 && scores[a] !== scores[b]) {
+    const [winnerId, loserId] = scores[a] > scores[b] ? [a, b] : [b, a];
+    return { winnerId, loserId, scores, walkover };
+  }
+  if (tournament.format === "swiss") {
+    return { winnerId: null, loserId: null, scores, walkover };
+  }
+
+  // Elimination needs a winner: fastest total time on correct answers,
+  // then the better seed
+  const correctTime = (playerId: string) =>
+    (room?.rounds ?? []).reduce(
+      (sum, round) => (round.correct[playerId] ? sum + (round.timesMs[playerId] ?? 0) : sum),
+      0,
+    );
+  const ranked = [a, b].sort(
+    (x, y) =>
+      (present.length === 2 ? correctTime(x) - correctTime(y) : 0) || seedOf(tournament, x) - seedOf(tournament, y),
+  );
+  return { winnerId: ranked[0], loserId: ranked[1], scores, walkover };
+}
+
+// Records a finished match and moves the tournament on. Returns the
+// matches that became ready to play.
+export function applyMatchResult(
+  tournament: Tournament,
+  matchId: string,
+  outcome: MatchOutcome,
+  now = Date.now(),
+): TournamentMatch[] {
+  const match = findMatch(tournament, matchId);
+  if (match.status === "finished") return [];
+  finishMatch(match, outcome);
+  return advanceTournament(tournament, now);
+}
+
+function finishMatch(match: TournamentMatch, outcome: MatchOutcome) {
+  match.status = "finished";
+  match.winnerId = outcome.winnerId;
+  match.loserId = outcome.loserId;
+  match.scores = outcome.scores;
+  if (outcome.walkover) match.walkover = true;
+}
+
+// Fills in every slot that can be decided, settles byes and empty
+// pairings, adds the next Swiss round or the grand final replay when due,
+// and finishes the tournament once it has a winner. Returns the pending
+// matches with both players known (ready for a room).
+export function advanceTournament(tournament: Tournament, now = Date.now()): TournamentMatch[] {
+  if (tournament.status !== "running") return [];
+  if (tournament.format === "swiss") {
+    advanceSwiss(tournament, now);
+  } else {
+    settleElimination(tournament, now);
+  }
+  return tournament.matches.filter(
+    (match) => match.status === "pending" && match.players[0] !== null && match.players[1] !== null,
+  );
+}
+
+function settleElimination(tournament: Tournament, now: number) {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const match of tournament.matches) {
+      if (match.status !== "pending" || !match.sources) continue;
+      const [first, second] = match.sources.map((source) => slotPlayer(tournament, source));
+      match.players = [first ?? null, second ?? null];
+      if (first === undefined || second === undefined || (first && second)) continue;
+
+      // A bye or an empty pairing: whoever is there moves on
+      const winnerId = first ?? second ?? null;
+      finishMatch(match, { winnerId, loserId: null, scores: {}, walkover: true });
+      changed = true;
+    }
+  }
+
+  const championId = eliminationChampion(tournament);
+  if (championId !== undefined) {
+    tournament.status = "finished";
+    tournament.finishedAt = now;
+    if (championId) tournament.winnerId = championId;
+  }
+}
+
+// undefined while undecided; adds the grand final replay when it is due
+function eliminationChampion(tournament: Tournament): string | null | undefined {
+  if (tournament.format === "single_elimination") {
+    const final = tournament.matches[tournament.matches.length - 1];
+    return final.status === "finished" ? final.winnerId : undefined;
+  }
+
+  const first = findMatch(tournament, "F1");
+  if (first.status !== "finished") return undefined;
+  // The losers bracket champion beat the unbeaten player: play again
+  const losersChampionWon = first.winnerId !== null && first.winnerId === first.players[1] && first.players[0] !== null;
+  if (!losersChampionWon) return first.winnerId;
+
+  let replay = tournament.matches.find((match) => match.id === "F2");
+  if (!replay) {
+    replay = eliminationMatch("F2", "final", 2, [loserOf("F1"), winnerOf("F1")]);
+    replay.players = [first.loserId ?? null, first.winnerId ?? null];
+    tournament.matches.push(replay);
+  }
+  return replay.status === "finished" ? replay.winnerId : undefined;
+}
+
+function advanceSwiss(tournament: Tournament, now: number) {
+  const rounds = tournament.swissRounds ?? defaultSwissRounds(tournament.players.length);
+  const current = tournament.matches.reduce((max, match) => Math.max(max, match.round), 0);
+  const roundDone = tournament.matches.every((match) => match.status === "finished");
+  if (!roundDone) return;
+
+  if (current >= rounds) {
+    tournament.status = "finished";
+    tournament.finishedAt = now;
+    tournament.winnerId = swissStandings(tournament)[0]?.playerId;
+    return;
+  }
+  tournament.matches.push(...pairSwissRound(tournament, current + 1));
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Pairs players on equal or close points who haven't met yet (falling back
+// to a rematch when nobody else is left); the lowest-ranked player without
+// a bye sits out when the count is odd
+function pairSwissRound(tournament: Tournament, round: number): TournamentMatch[] {
+  const met = new Set<string>();
+  const hadBye = new Set<string>();
+  for (const match of tournament.matches) {
+    const [a, b] = match.players;
+    if (a && b) met.add(pairKey(a, b));
+    else if (a) hadBye.add(a);
+  }
+
+  const queue = swissStandings(tournament).map((standing) => standing.playerId);
+  let byePlayer: string | undefined;
+  if (queue.length % 2 === 1) {
+    const byeIndex = queue.map((playerId) => !hadBye.has(playerId)).lastIndexOf(true);
+    [byePlayer] = queue.splice(byeIndex === -1 ? queue.length - 1 : byeIndex, 1);
+  }
+
+  const pairings: [string, string | null][] = [];
+  while (queue.length > 0) {
+    const player = queue.shift()!;
+    const opponentIndex = queue.findIndex((other) => !met.has(pairKey(player, other)));
+    const [opponent] = queue.splice(Math.max(0, opponentIndex), 1);
+    pairings.push([player, opponent]);
+  }
+  if (byePlayer) pairings.push([byePlayer, null]);
+
+  return pairings.map(([player, opponent], i): TournamentMatch => {
+    const match: TournamentMatch = { id: `S${round}-${i + 1}`, bracket: "swiss", round, players: [player, opponent], status: "pending" };
+    if (!opponent) finishMatch(match, { winnerId: player, loserId: null, scores: {}, walkover: true });
+    return match;
+  });
+}
+
+// Swiss table, best first: points, then Buchholz, then seed
+export function swissStandings(tournament: Tournament): SwissStanding[] {
+  const table = new Map<string, SwissStanding>(
+    tournament.players.map((playerId) => [playerId, { playerId, points: 0, buchholz: 0, wins: 0, draws: 0, losses: 0 }]),
+  );
+  const opponents = new Map<string, string[]>(tournament.players.map((playerId) => [playerId, []]));
+
+  for (const match of tournament.matches) {
+    if (match.status !== "finished") continue;
+    const [a, b] = match.players;
+    if (a && b) {
+      opponents.get(a)?.push(b);
+      opponents.get(b)?.push(a);
+    }
+    if (match.winnerId) {
+      const winner = table.get(match.winnerId);
+      if (winner) {
+        winner.wins += 1;
+        winner.points += 1;
+      }
+      const loser = match.loserId ? table.get(match.loserId) : undefined;
+      if (loser) loser.losses += 1;
+    } else if (a && b) {
+      for (const id of [a, b]) {
+        const entry = table.get(id);
+        if (!entry) continue;
+        entry.draws += 1;
+        entry.points += 0.5;
+      }
+    }
+  }
+
+  table.forEach((entry) => {
+    entry.buchholz = (opponents.get(entry.playerId) ?? []).reduce((sum, id) => sum + (table.get(id)?.points ?? 0), 0);
+  });
+  return Array.from(table.values()).sort(
+    (x, y) =>
+      y.points - x.points ||
+      y.buchholz - x.buchholz ||
+      seedOf(tournament, x.playerId) - seedOf(tournament, y.playerId),
+  );
+}
@@ -0,0 +1,125 @@
+/*
+  gameRules.test.ts
+
+  Pins the round rules from `gameRules.ts`: when the answer quorum
+  resolves a round, what the question deadline does to late players and
+  which questions a rematch draws from. Run with `npm test`.
+*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GameRoom, Question, RoomConfig } from "./schema";
+import {
+  RoomError,
+  applyAnswer,
+  applyJoin,
+  applyStart,
+  applyTimeout,
+  createRematchState,
+  createRoomState,
+  rematchPool,
+} from "./gameRules";
+
+// Multiple choice; option 0 is the right one
+const question = (id: string): Question => ({
+  id,
+  module: "math",
+  difficulty: "M",
+  content: { stem: `Question ${id}`, answerOptions: ["A", "B", "C", "D"], correct_answer: ["A"] },
+});
+
+const bank = Array.from({ length: 10 }, (_, i) => question(`q${i + 1}`));
+
+const config = (overrides: Partial<RoomConfig> = {}): RoomConfig => ({
+  modules: ["Math"],
+  difficulties: ["M"],
+  numQuestions: 3,
+  maxPlayers: 4,
+  answerQuorum: 1,
+  speedBonus: false,
+  ...overrides,
+});
+
+// A started room of host, a, b and c playing the first three questions
+const startRoom = (overrides: Partial<RoomConfig> = {}, now = 0): GameRoom => {
+  const room = createRoomState("ROOM", "host", config(overrides), bank.slice(0, 3));
+  for (const id of ["a", "b", "c"]) applyJoin(room, id, now);
+  applyStart(room, "host", now);
+  return room;
+};
+
+const rejects = (intent: () => void, status: number, message: string) =>
+  assert.throws(intent, (err) => err instanceof RoomError && err.status === status && err.message === message);
+
+test("a round waits for the quorum, then marks everyone else incorrect", () => {
+  const room = startRoom({ answerQuorum: 0.5 });
+
+  applyAnswer(room, "host", 0, 0, bank[0]);
+  assert.equal(room.roundResults, undefined);
+
+  applyAnswer(room, "a", 0, 1, bank[0]);
+  assert.deepEqual(room.roundResults, { host: true, a: false, b: false, c: false });
+  assert.deepEqual(room.scores, { host: 1, a: 0, b: 0, c: 0 });
+  rejects(() => applyAnswer(room, "b", 0, 0, bank[0]), 409, "Round already resolved");
+});
+
+test("a spectating host is left out of the quorum and can't answer", () => {
+  const room = startRoom({ hostSpectates: true });
+
+  rejects(() => applyAnswer(room, "host", 0, 0, bank[0]), 403, "The host only runs this room");
+  applyAnswer(room, "a", 0, 0, bank[0]);
+  applyAnswer(room, "b", 0, 0, bank[0]);
+  assert.equal(room.roundResults, undefined);
+  applyAnswer(room, "c", 0, 0, bank[0]);
+  assert.ok(room.roundResults);
+});
+
+test("the question deadline refuses late answers and resolves the round once", () => {
+  const room = startRoom({ timeLimitSeconds: 30 }, 1_000);
+  assert.equal(room.questionDeadline, 31_000);
+
+  applyAnswer(room, "a", 0, 0, bank[0], 20_000);
+  assert.equal(applyTimeout(room, 0, bank[0], 30_999), false);
+  rejects(() => applyAnswer(room, "b", 0, 0, bank[0], 31_001), 409, "Time is up");
+
+  // Stale timers for another question do nothing
+  assert.equal(applyTimeout(room, 1, bank[0], 31_000), false);
+  assert.equal(applyTimeout(room, 0, bank[0], 31_000), true);
+  assert.deepEqual(room.roundResults, { host: false, a: true, b: false, c: false });
+  assert.equal(applyTimeout(room, 0, bank[0], 32_000), false);
+  assert.equal(room.rounds.length, 1);
+});
+
+test("a rematch draws from the questions the room hasn't played", () => {
+  const room = startRoom();
+  room.playedQuestions = ["q4", "q5"];
+
+  const pool = rematchPool(room, bank).map((q) => q.id);
+  assert.deepEqual(pool, ["q6", "q7", "q8", "q9", "q10"]);
+});
+
+test("a rematch falls back to the whole bank when too few questions are left", () => {
+  const room = startRoom();
+  room.playedQuestions = ["q4", "q5", "q6", "q7", "q8"];
+
+  // Only q9 and q10 are unplayed, fewer than the 3 a game needs
+  assert.equal(rematchPool(room, bank).length, bank.length);
+});
+
+test("a rematch starts over with the same players and remembers the played questions", () => {
+  const room = startRoom({ timeLimitSeconds: 30 });
+  room.playedQuestions = ["q4"];
+  room.scores.a = 3;
+  room.finished = true;
+  room.rematchRequests = ["host", "a", "b", "c"];
+
+  const next = createRematchState(room, bank.slice(5, 8), 5_000);
+  assert.deepEqual(next.players, room.players);
+  assert.deepEqual(next.questions, ["q6", "q7", "q8"]);
+  assert.deepEqual(next.scores, { host: 0, a: 0, b: 0, c: 0 });
+  assert.deepEqual(next.playedQuestions, ["q4", "q1", "q2", "q3"]);
+  assert.equal(next.started, true);
+  assert.equal(next.finished, false);
+  assert.equal(next.rematchRequests, undefined);
+  assert.equal(next.questionDeadline, 35_000);
+  rejects(() => createRematchState(room, []), 422, "No questions available for selected criteria");
+});
@@ -0,0 +1,509 @@
+/*
+  gameRules.ts
+
+  Pure room rules shared by the server engine (`server/rooms.ts`) and the
+  Firebase transport on the client. Each `apply*` function validates an
+  intent against a `GameRoom` and mutates it in place, throwing
+  `RoomError` when the intent breaks a rule. Nothing here touches storage
+  or the network, so the same rules can run against the server's Map or
+  inside a Firebase transaction.
+
+  Rules:
+  - Rooms hold up to `config.maxPlayers` players (2-30). Duels start when
+    the second player joins; larger rooms start when the host (the first
+    player in `players`) starts them, and can't be joined afterwards
+  - A player may answer the current question once; when the answer quorum
+    (`config.answerQuorum` of the players, not counting a host who only
+    runs the room, `config.hostSpectates`) is reached, the round is
+    resolved, `roundResults` / `scores` update, stragglers count as
+    incorrect and the outcome is appended to `rounds`, together with the
+    question's answer key and rationale (the reveal); until then clients
+    only see redacted questions, and only who has answered rather than
+    the choices (`redactRoom`)
+  - Answers are an option index, or the typed entry for grid-in
+    questions (checked by `gridIn.ts`)
+  - In timed rooms each question has a deadline; answers after it are
+    rejected and `applyTimeout` resolves the round with everyone who
+    hasn't answered marked incorrect. With `speedBonus`, correct answers
+    earn up to `SPEED_BONUS_MAX` extra points depending on time left
+  - Advancing only happens when the requested index is exactly one past
+    `currentQuestion`, so two clients racing to advance move the room
+    forward once
+  - Players whose connection drops are marked in `disconnectedAt` until
+    they reconnect. After `FORFEIT_GRACE_MS` away, a player forfeits a
+    started duel (the room finishes with `forfeitedBy` set); in any other
+    room they are removed as if they had left. Leaving a started duel
+    forfeits it the same way, so the game is still rated and recorded
+  - Tournament rooms (`room.tournament`) only admit the pairing's two
+    players
+  - A finished room can be replayed once every player (bots aside) asks
+    for a rematch: a new game with the same players and config starts
+    right away, with scores, answers and rounds reset and questions that
+    weren't played in the room before (as long as the bank has enough).
+    Tournament matches and ranked duels can't be replayed
+  - Rooms expire once idle (no change since `lastActivityAt`) for longer
+    than their stage's TTL in `ROOM_TTL_MS`. An expired game that was
+    still in progress is finished as it stands; it is never rated
+
+  Functions that depend on the clock take `now` (epoch ms) so callers
+  decide whose clock counts.
+*/
+import {
+  BOT_ID_PREFIX,
+  type AnswerValue,
+  type GameRoom,
+  type PlayerProfile,
+  type PlayerStanding,
+  type Question,
+  type QuestionReveal,
+  type RedactedQuestion,
+  type RoomConfig,
+} from "./schema";
+import { isAcceptedGridIn, isGridIn, parseGridInValue } from "./gridIn";
+
+const DUEL_PLAYERS = 2;
+
+export const SPEED_BONUS_MAX = 2;
+
+// How long a disconnected player has to come back before forfeiting
+export const FORFEIT_GRACE_MS = 30_000;
+
+// Idle time after which a room expires, by stage
+export const ROOM_TTL_MS = {
+  waiting: 30 * 60 * 1000,
+  playing: 10 * 60 * 1000,
+  finished: 30 * 60 * 1000,
+};
+
+// Carries an HTTP status so route handlers can map rule violations to
+// responses without knowing about individual rules.
+export class RoomError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "RoomError";
+  }
+}
+
+// Whether a question fits the room's modules, difficulties and skills
+export function matchesRoomConfig(question: Question, config: RoomConfig): boolean {
+  const modules = config.modules.map((m) => m.toLowerCase());
+  if (!modules.includes(question.module.toLowerCase())) return false;
+  if (!config.difficulties.includes(question.difficulty)) return false;
+  if (config.skills?.length && !(question.skill_desc && config.skills.includes(question.skill_desc))) return false;
+  return true;
+}
+
+// Filter the bank by the room config and draw `numQuestions` at random
+export function selectQuestions(config: RoomConfig, bank: Question[]): Question[] {
+  const pool = bank.filter((q) => matchesRoomConfig(q, config));
+
+  // Fisher-Yates so every ordering is equally likely
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool.slice(0, config.numQuestions);
+}
+
+export function createRoomState(
+  roomId: string,
+  playerId: string,
+  config: RoomConfig,
+  questions: Question[],
+  profile?: PlayerProfile,
+): GameRoom {
+  if (questions.length === 0) {
+    throw new RoomError(422, "No questions available for selected criteria");
+  }
+
+  return {
+    roomId,
+    currentQuestion: 0,
+    started: false,
+    players: [playerId],
+    scores: { [playerId]: 0 },
+    answers: {},
+    questions: questions.map((q) => q.id),
+    config,
+    finished: false,
+    rounds: [],
+    profiles: profile ? { [playerId]: profile } : {},
+  };
+}
+
+// Points for one answer: 1 when correct, plus the speed bonus if enabled
+export function pointsForAnswer(config: RoomConfig, correct: boolean, elapsedMs?: number): number {
+  if (!correct) return 0;
+  if (!config.speedBonus || !config.timeLimitSeconds || elapsedMs === undefined) return 1;
+
+  const limitMs = config.timeLimitSeconds * 1000;
+  const remaining = Math.max(0, limitMs - elapsedMs) / limitMs;
+  return 1 + Math.round(SPEED_BONUS_MAX * remaining);
+}
+
+// Highest score reachable in a room, used for "x out of y" displays
+export function maxScore(config: RoomConfig, questionCount: number): number {
+  const perQuestion = config.speedBonus && config.timeLimitSeconds ? 1 + SPEED_BONUS_MAX : 1;
+  return questionCount * perQuestion;
+}
+
+export function isCorrectAnswer(question: Question, answer: AnswerValue | undefined): boolean {
+  if (isGridIn(question)) {
+    return typeof answer === "string" && isAcceptedGridIn(answer, question.content.correct_answer);
+  }
+  const choice = typeof answer === "number" ? question.content.answerOptions[answer] : undefined;
+  return choice !== undefined && question.content.correct_answer.includes(choice);
+}
+
+// Strip the answer key and rationale from a question that is still in play
+export function redactQuestion({ content, ...question }: Question): RedactedQuestion {
+  const { correct_answer: _correct, rationale: _rationale, ...visible } = content;
+  return { ...question, content: visible };
+}
+
+// The room as clients see it. Until the current round resolves, nobody
+// (players and spectators alike) sees the locked-in choices, only who has
+// answered, so an answer can't be copied or relayed before the reveal.
+export function redactRoom(room: GameRoom): GameRoom {
+  if (room.roundResults || room.finished) return room;
+  const { answers, ...rest } = room;
+  return { ...rest, answered: Object.keys(answers ?? {}) };
+}
+
+// Players who locked in an answer to the current question, from either a
+// redacted room or a full one (the Firebase transport)
+export function answeredPlayers(room: GameRoom): string[] {
+  return room.answered ?? Object.keys(room.answers ?? {});
+}
+
+export function revealQuestion(question: Question): QuestionReveal {
+  return {
+    questionId: question.id,
+    correct_answer: question.content.correct_answer,
+    rationale: question.content.rationale,
+  };
+}
+
+export function isDuel(room: GameRoom) {
+  return (room.config.maxPlayers ?? DUEL_PLAYERS) === DUEL_PLAYERS;
+}
+
+// Players who answer questions: everyone except a spectating host
+export function answeringPlayers(room: GameRoom): string[] {
+  return room.config.hostSpectates && !isDuel(room) ? room.players.slice(1) : room.players;
+}
+
+export function applyJoin(room: GameRoom, playerId: string, now = Date.now(), profile?: PlayerProfile) {
+  // Rejoining (e.g. after a page refresh) is allowed and only picks up
+  // profile changes
+  if (room.players.includes(playerId)) {
+    if (profile) (room.profiles ??= {})[playerId] = profile;
+    return;
+  }
+
+  if (room.tournament && !room.tournament.players.includes(playerId)) {
+    throw new RoomError(403, "This room is reserved for a tournament match");
+  }
+  if (room.players.length >= (room.config.maxPlayers ?? DUEL_PLAYERS)) {
+    throw new RoomError(409, "Room is full");
+  }
+  if (room.started) {
+    throw new RoomError(409, "Game already started");
+  }
+
+  room.players.push(playerId);
+  room.scores[playerId] = 0;
+  if (profile) (room.profiles ??= {})[playerId] = profile;
+  if (isDuel(room) && room.players.length === DUEL_PLAYERS) {
+    room.started = true;
+    startQuestionClock(room, now);
+  }
+}
+
+export function applyStart(room: GameRoom, playerId: string, now = Date.now()) {
+  requirePlayer(room, playerId);
+
+  if (room.started) return;
+  if (room.players[0] !== playerId) {
+    throw new RoomError(403, "Only the host can start the game");
+  }
+  if (room.players.length < 2) {
+    throw new RoomError(409, "At least two players are needed to start");
+  }
+  room.started = true;
+  startQuestionClock(room, now);
+}
+
+// `question` must be the question at `room.currentQuestion`
+export function applyAnswer(
+  room: GameRoom,
+  playerId: string,
+  questionIndex: number,
+  answer: AnswerValue,
+  question: Question,
+  now = Date.now(),
+) {
+  requirePlayer(room, playerId);
+
+  if (!room.started || room.finished) {
+    throw new RoomError(409, "Game is not in progress");
+  }
+  if (!answeringPlayers(room).includes(playerId)) {
+    throw new RoomError(403, "The host only runs this room");
+  }
+  if (questionIndex !== room.currentQuestion) {
+    throw new RoomError(409, "Question is no longer active");
+  }
+
+  const answers = (room.answers ??= {});
+  if (answers[playerId] !== undefined) {
+    throw new RoomError(409, "Answer already submitted");
+  }
+  if (room.roundResults) {
+    throw new RoomError(409, "Round already resolved");
+  }
+  if (room.questionDeadline && now > room.questionDeadline) {
+    throw new RoomError(409, "Time is up");
+  }
+  if (isGridIn(question)) {
+    if (typeof answer !== "string" || parseGridInValue(answer) === null) {
+      throw new RoomError(400, "Enter a number, decimal or fraction");
+    }
+  } else if (typeof answer !== "number" || answer >= question.content.answerOptions.length) {
+    throw new RoomError(400, "Answer is out of range");
+  }
+
+  answers[playerId] = answer;
+  (room.answerTimesMs ??= {})[playerId] = Math.max(0, now - (room.questionStartedAt ?? now));
+  resolveRoundIfReady(room, question);
+}
+
+// Resolve the round at `questionIndex` if its deadline has passed.
+// Returns true when the round was resolved by this call.
+export function applyTimeout(room: GameRoom, questionIndex: number, question: Question, now = Date.now()): boolean {
+  if (!room.started || room.finished || room.roundResults) return false;
+  if (questionIndex !== room.currentQuestion) return false;
+  if (!room.questionDeadline || now < room.questionDeadline) return false;
+
+  resolveRound(room, question);
+  return true;
+}
+
+// Resolve the current round once enough players have answered. Also used
+// after a player leaves, since that can complete the quorum.
+export function resolveRoundIfReady(room: GameRoom, question: Question) {
+  const answering = answeringPlayers(room);
+  if (!room.started || room.finished || room.roundResults || answering.length === 0) return;
+
+  const answered = answering.filter((id) => room.answers?.[id] !== undefined).length;
+  const quorum = Math.ceil((room.config.answerQuorum ?? 1) * answering.length);
+  if (answered >= quorum) {
+    resolveRound(room, question);
+  }
+}
+
+export function applyAdvance(room: GameRoom, playerId: string, questionIndex: number, now = Date.now()) {
+  requirePlayer(room, playerId);
+
+  // Someone already advanced past this question (or the request is stale)
+  if (room.finished || questionIndex !== room.currentQuestion + 1) return;
+
+  if (!room.roundResults) {
+    throw new RoomError(409, "Round has not been resolved yet");
+  }
+
+  if (questionIndex >= room.questions.length) {
+    room.finished = true;
+    delete room.questionDeadline;
+    return;
+  }
+
+  room.currentQuestion = questionIndex;
+  room.answers = {};
+  room.answerTimesMs = {};
+  delete room.roundResults;
+  startQuestionClock(room, now);
+}
+
+// Removes the player. Returns true when the room is now empty and should
+// be deleted by the caller.
+export function applyLeave(room: GameRoom, playerId: string): boolean {
+  room.players = room.players.filter((id) => id !== playerId);
+  room.rematchRequests = room.rematchRequests?.filter((id) => id !== playerId);
+  delete room.scores[playerId];
+  if (room.answers) delete room.answers[playerId];
+  if (room.profiles) delete room.profiles[playerId];
+  if (room.disconnectedAt) delete room.disconnectedAt[playerId];
+  return room.players.length === 0;
+}
+
+// Presence changes. Both return true when the room changed; finished rooms
+// and non-members are ignored.
+export function applyDisconnect(room: GameRoom, playerId: string, now = Date.now()): boolean {
+  if (room.finished || !room.players.includes(playerId)) return false;
+  if (room.disconnectedAt?.[playerId] !== undefined) return false;
+  (room.disconnectedAt ??= {})[playerId] = now;
+  return true;
+}
+
+export function applyReconnect(room: GameRoom, playerId: string): boolean {
+  if (room.disconnectedAt?.[playerId] === undefined) return false;
+  delete room.disconnectedAt[playerId];
+  return true;
+}
+
+// Ends a started duel in favour of the player who stayed. Returns false
+// when there is nothing to forfeit; callers remove the player instead.
+export function applyForfeit(room: GameRoom, playerId: string): boolean {
+  if (!isDuel(room) || !room.started || room.finished || !room.players.includes(playerId)) return false;
+  room.finished = true;
+  room.forfeitedBy = playerId;
+  delete room.questionDeadline;
+  delete room.disconnectedAt;
+  return true;
+}
+
+// Records the player's request for a rematch of a finished room. Returns
+// true once every player other than bots has asked; the caller then
+// replaces the room with `createRematchState`.
+export function applyRematchRequest(room: GameRoom, playerId: string): boolean {
+  requirePlayer(room, playerId);
+
+  if (!room.finished) {
+    throw new RoomError(409, "Game is not finished");
+  }
+  if (room.tournament) {
+    throw new RoomError(409, "Tournament matches can't be replayed");
+  }
+  // Ranked pairings come from matchmaking; replaying one would let two
+  // accounts trade rating between themselves
+  if (room.config.ranked) {
+    throw new RoomError(409, "Ranked duels can't be replayed");
+  }
+  if (room.players.length < 2) {
+    throw new RoomError(409, "Everyone else has left the room");
+  }
+
+  const requests = (room.rematchRequests ??= []);
+  if (!requests.includes(playerId)) requests.push(playerId);
+  return room.players.every((id) => id.startsWith(BOT_ID_PREFIX) || requests.includes(id));
+}
+
+// Every question shown in the room so far, this game included
+export function playedQuestionIds(room: GameRoom): string[] {
+  return Array.from(new Set([...(room.playedQuestions ?? []), ...room.questions]));
+}
+
+// The part of the bank a rematch draws from: everything not yet played in
+// the room, unless that leaves too few matching questions for a game
+export function rematchPool(room: GameRoom, bank: Question[]): Question[] {
+  const played = new Set(playedQuestionIds(room));
+  const unseen = bank.filter((q) => !played.has(q.id));
+  const available = unseen.filter((q) => matchesRoomConfig(q, room.config)).length;
+  return available >= room.config.numQuestions ? unseen : bank;
+}
+
+// The new game that replaces a finished room once everyone asked for a
+// rematch: same code, players, profiles and config, started right away.
+// Everything else (scores, answers, rounds, ratings, forfeits, requests)
+// starts over.
+export function createRematchState(room: GameRoom, questions: Question[], now = Date.now()): GameRoom {
+  if (questions.length === 0) {
+    throw new RoomError(422, "No questions available for selected criteria");
+  }
+
+  const next: GameRoom = {
+    roomId: room.roomId,
+    currentQuestion: 0,
+    started: true,
+    players: [...room.players],
+    scores: Object.fromEntries(room.players.map((id) => [id, 0])),
+    answers: {},
+    questions: questions.map((q) => q.id),
+    config: room.config,
+    finished: false,
+    rounds: [],
+    profiles: { ...room.profiles },
+    playedQuestions: playedQuestionIds(room),
+  };
+  startQuestionClock(next, now);
+  return next;
+}
+
+export function roomTtlMs(room: GameRoom): number {
+  if (room.finished) return ROOM_TTL_MS.finished;
+  return room.started ? ROOM_TTL_MS.playing : ROOM_TTL_MS.waiting;
+}
+
+// Rooms without an activity stamp predate expiry and count as idle
+export function isRoomExpired(room: GameRoom, now = Date.now()): boolean {
+  if (room.expiredAt !== undefined) return true;
+  return now - (room.lastActivityAt ?? 0) > roomTtlMs(room);
+}
+
+// Marks the room expired. Returns true when this ended a game that was in
+// progress, which callers treat like any other finished game.
+export function applyExpire(room: GameRoom, now = Date.now()): boolean {
+  if (room.expiredAt !== undefined) return false;
+  room.expiredAt = now;
+  delete room.disconnectedAt;
+  if (!room.started || room.finished) return false;
+
+  room.finished = true;
+  delete room.questionDeadline;
+  return true;
+}
+
+// Rank the answering players (see `answeringPlayers`) by score, best
+// first; tied scores share a rank
+export function getStandings(room: GameRoom): PlayerStanding[] {
+  const sorted = answeringPlayers(room)
+    .map((playerId) => ({
+      playerId,
+      score: room.scores[playerId] || 0,
+      displayName: room.profiles?.[playerId]?.displayName,
+      avatar: room.profiles?.[playerId]?.avatar,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return sorted.map((entry) => ({
+    ...entry,
+    rank: sorted.findIndex((other) => other.score === entry.score) + 1,
+  }));
+}
+
+function startQuestionClock(room: GameRoom, now: number) {
+  room.questionStartedAt = now;
+  if (room.config.timeLimitSeconds) {
+    room.questionDeadline = now + room.config.timeLimitSeconds * 1000;
+  } else {
+    delete room.questionDeadline;
+  }
+}
+
+function resolveRound(room: GameRoom, question: Question) {
+  const results: Record<string, boolean> = {};
+  const points: Record<string, number> = {};
+  for (const id of room.players) {
+    const correct = isCorrectAnswer(question, room.answers?.[id]);
+    results[id] = correct;
+    points[id] = pointsForAnswer(room.config, correct, room.answerTimesMs?.[id]);
+    room.scores[id] = (room.scores[id] || 0) + points[id];
+  }
+  room.roundResults = results;
+  (room.rounds ??= []).push({
+    questionId: question.id,
+    answers: { ...room.answers },
+    correct: results,
+    timesMs: { ...room.answerTimesMs },
+    points,
+    reveal: revealQuestion(question),
+  });
+}
+
+function requirePlayer(room: GameRoom, playerId: string) {
+  if (!room.players.includes(playerId)) {
+    throw new RoomError(403, "Player is not in this room");
+  }
+}
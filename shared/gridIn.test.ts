@@ -0,0 +1,58 @@
+/*
+  gridIn.test.ts
+
+  Pins the grid-in answer rules from `gridIn.ts`: exact matches in any
+  form, and approximations only for answers whose decimal doesn't fit
+  the grid. Run with `npm test`.
+*/
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isAcceptedGridIn } from "./gridIn";
+
+const accepts = (entry: string, key: string) => assert.equal(isAcceptedGridIn(entry, [key]), true, `${entry} for ${key}`);
+const rejects = (entry: string, key: string) => assert.equal(isAcceptedGridIn(entry, [key]), false, `${entry} for ${key}`);
+
+test("accepts the exact value in any form", () => {
+  accepts("2", "2");
+  accepts("2.0", "2");
+  accepts("3/4", ".75");
+  accepts("0.75", "3/4");
+  accepts("-1.5", "-3/2");
+  accepts("2/3", "2/3");
+  accepts("4/6", "2/3");
+});
+
+test("rejects near misses when the answer fits the grid", () => {
+  rejects("2.001", "2");
+  rejects("1.999", "2");
+  rejects("3.999", "4");
+  rejects("1.499", "1.5");
+  rejects("1.501", "1.5");
+  rejects("1.5001", "1.5");
+});
+
+test("accepts only truncated or rounded forms of a repeating answer", () => {
+  accepts(".6666", "2/3");
+  accepts(".6667", "2/3");
+  accepts("0.666", "2/3");
+  accepts("0.667", "2/3");
+  accepts("-.6666", "-2/3");
+  accepts("-.6667", "-2/3");
+  rejects(".66", "2/3");
+  rejects("0.67", "2/3");
+  rejects(".6668", "2/3");
+  rejects(".6665", "2/3");
+});
+
+test("approximates long exact decimals the same way", () => {
+  accepts(".1234", "0.123456");
+  accepts(".1235", "0.123456");
+  rejects(".1236", "0.123456");
+  rejects(".1234", "0.12345");
+});
+
+test("rejects entries that aren't numbers", () => {
+  rejects("abc", "2");
+  rejects("1/0", "2");
+  rejects("", "2");
+});
@@ -0,0 +1,150 @@
+/*
+  gridIn.ts
+
+  Answer checking for student-produced response ("grid-in") questions,
+  where players type a number instead of picking an option. Entries may
+  be integers, decimals or fractions ("3/4", ".75", "-1.5"); an entry is
+  correct when it equals one of the question's accepted answers.
+
+  Following the SAT's gridding rules, a decimal that fills the grid also
+  counts when the exact value doesn't fit as a decimal: for an accepted
+  2/3 the entries .6666, .6667, 0.666 and 0.667 are all correct, but .66,
+  0.67 and .6668 are not. Only the key truncated or rounded to the
+  entry's decimal places is accepted, and an answer that fits (such as 2
+  or 1.5) must be entered exactly, so 2.001 and 1.5001 are wrong.
+  Comparisons use exact fractions, never floating point.
+*/
+import { GRID_IN_MAX_LENGTH, type Question } from "./schema";
+
+// Fewest decimal places an approximation needs before it is accepted
+const MIN_APPROXIMATION_PLACES = 3;
+
+// numerator / denominator, with a positive denominator
+interface Rational {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)$/;
+const FRACTION_PATTERN = /^-?\d+\/\d+$/;
+
+export function isGridIn(question: Pick<Question, "type">) {
+  return question.type === "grid_in";
+}
+
+// Strip whitespace so " 3 / 4 " and "3/4" are the same entry
+export function normalizeGridInEntry(entry: string) {
+  return entry.replace(/\s+/g, "");
+}
+
+function parseNumber(text: string): number | null {
+  if (FRACTION_PATTERN.test(text)) {
+    const [numerator, denominator] = text.split("/").map(Number);
+    return denominator === 0 ? null : numerator / denominator;
+  }
+  return NUMBER_PATTERN.test(text) ? Number(text) : null;
+}
+
+// Numeric value of an entry, or null when it isn't a valid grid-in number
+export function parseGridInValue(entry: string): number | null {
+  const text = normalizeGridInEntry(entry);
+  if (!text || text.length > GRID_IN_MAX_LENGTH) return null;
+  return parseNumber(text);
+}
+
+// Numeric value of an accepted answer; unlike entries these may be longer
+// than the grid (e.g. an exact "0.66666")
+export function parseAcceptedValue(answer: string): number | null {
+  return parseNumber(normalizeGridInEntry(answer));
+}
+
+function decimalPlaces(text: string) {
+  const point = text.indexOf(".");
+  return point === -1 ? 0 : text.length - point - 1;
+}
+
+function pow10(places: number) {
+  return BigInt(`1${"0".repeat(places)}`);
+}
+
+function parseRational(text: string): Rational | null {
+  if (FRACTION_PATTERN.test(text)) {
+    const [numerator, denominator] = text.split("/").map((part) => BigInt(part));
+    return denominator === BigInt(0) ? null : { numerator, denominator };
+  }
+  if (!NUMBER_PATTERN.test(text)) return null;
+
+  const negative = text.startsWith("-");
+  const [whole, fraction = ""] = text.replace("-", "").split(".");
+  const digits = BigInt((whole || "0") + fraction);
+  return { numerator: negative ? -digits : digits, denominator: pow10(fraction.length) };
+}
+
+function sameValue(a: Rational, b: Rational) {
+  return a.numerator * b.denominator === b.numerator * a.denominator;
+}
+
+function abs(value: bigint) {
+  return value < BigInt(0) ? -value : value;
+}
+
+// Length of the shortest decimal for the value ("0.75" as ".75", sign
+// included), or Infinity when it repeats
+function decimalLength({ numerator, denominator }: Rational): number {
+  let rest = denominator;
+  let twos = 0;
+  let fives = 0;
+  while (rest % BigInt(2) === BigInt(0)) {
+    rest /= BigInt(2);
+    twos++;
+  }
+  while (rest % BigInt(5) === BigInt(0)) {
+    rest /= BigInt(5);
+    fives++;
+  }
+  // Only factors the numerator cancels may be left
+  if (abs(numerator) % rest !== BigInt(0)) return Infinity;
+
+  let places = Math.max(twos, fives);
+  let scaled = abs(numerator) * pow10(places) / denominator;
+  while (places > 0 && scaled % BigInt(10) === BigInt(0)) {
+    scaled /= BigInt(10);
+    places--;
+  }
+
+  const whole = scaled / pow10(places);
+  const wholeLength = whole === BigInt(0) && places > 0 ? 0 : whole.toString().length;
+  return (numerator < BigInt(0) ? 1 : 0) + wholeLength + (places > 0 ? places + 1 : 0);
+}
+
+// The value truncated and rounded (half away from zero) to `places`
+// decimals, each as an integer count of 10^-places
+function approximations({ numerator, denominator }: Rational, places: number): bigint[] {
+  const scaled = abs(numerator) * pow10(places);
+  const sign = numerator < BigInt(0) ? BigInt(-1) : BigInt(1);
+  const truncated = scaled / denominator;
+  const rounded = (scaled * BigInt(2) + denominator) / (denominator * BigInt(2));
+  return [sign * truncated, sign * rounded];
+}
+
+// Whether `entry` matches any of the accepted answers
+export function isAcceptedGridIn(entry: string, accepted: string[]): boolean {
+  if (parseGridInValue(entry) === null) return false;
+
+  const text = normalizeGridInEntry(entry);
+  const value = parseRational(text);
+  if (!value) return false;
+  const places = FRACTION_PATTERN.test(text) ? 0 : decimalPlaces(text);
+
+  return accepted.some((answer) => {
+    const target = parseRational(normalizeGridInEntry(answer));
+    if (!target) return normalizeGridInEntry(answer) === text;
+    if (sameValue(value, target)) return true;
+
+    // Truncated or rounded decimals that fill the grid, only for answers
+    // whose exact decimal doesn't fit. A decimal entry's numerator counts
+    // units of 10^-places.
+    if (places < MIN_APPROXIMATION_PLACES || decimalLength(target) <= GRID_IN_MAX_LENGTH) return false;
+    return approximations(target, places).includes(value.numerator);
+  });
+}
@@ -0,0 +1,199 @@
+/*
+  questionImport.ts
+
+  Normalizes raw question bank items (the shape scraped into
+  `shared/questions.json`) into `Question` objects and records why each
+  item was rejected or patched. Free-response items with numeric answers
+  become grid-in questions. `shared/questions.ts` uses it at load
+  time and keeps only accepted items; `script/importQuestions.ts` runs
+  the same pass ahead of time and writes the issues to a report so
+  content errors are visible instead of silently dropped.
+
+  Normalizing an already-normalized bank changes nothing, so the import
+  output can be fed back in as raw input.
+*/
+import { fromZodError } from "zod-validation-error";
+import { questionSchema, type Question } from "./schema";
+import { parseAcceptedValue } from "./gridIn";
+
+export interface RawQuestion {
+  content?: {
+    stem?: string;
+    // Many source items use `prompt`, `body`, or `stimulus_reference` to hold
+    // passage/context content. Include them to allow extraction.
+    prompt?: string;
+    body?: string;
+    stimulus_reference?: string;
+    stimulus?: string;
+    answerOptions?: unknown[];
+    correct_answer?: string[];
+    keys?: string[];
+    rationale?: string;
+  };
+  module?: string;
+  difficulty?: string;
+  skill_desc?: string;
+  [k: string]: any;
+}
+
+export interface QuestionImportIssue {
+  id: string;
+  status: "rejected" | "patched";
+  reasons: string[];
+}
+
+export interface QuestionImportResult {
+  question: Question | null;
+  // Patches applied, or why the item was rejected; empty when clean
+  reasons: string[];
+}
+
+export interface QuestionBankImport {
+  questions: Question[];
+  issues: QuestionImportIssue[];
+}
+
+const OPTION_COUNT = 4;
+const DIFFICULTIES = ["E", "M", "H"] as const;
+
+function optionText(option: unknown): string {
+  // Some items store options as objects {id, content}; keep the content HTML
+  if (option && typeof option === "object" && "content" in option) {
+    return String((option as { content: unknown }).content ?? "");
+  }
+  return String(option);
+}
+
+export function normalizeQuestion(id: string, raw: RawQuestion): QuestionImportResult {
+  const patches: string[] = [];
+  const reject = (reason: string): QuestionImportResult => ({ question: null, reasons: [reason] });
+
+  const content = raw?.content;
+  if (!content) return reject("missing content");
+
+  // Accept `stem`, `prompt`, or `body` as the question stem; prefer `stem` when present.
+  const stemHtml = content.stem || content.prompt || content.body || "";
+  if (!stemHtml) return reject("missing stem");
+  if (!content.stem) patches.push(`stem taken from \`${content.prompt ? "prompt" : "body"}\``);
+
+  let module = raw.module?.toLowerCase();
+  if (!module) {
+    module = "math";
+    patches.push("missing module, defaulted to math");
+  }
+
+  let difficulty = raw.difficulty as Question["difficulty"] | undefined;
+  if (!difficulty || !DIFFICULTIES.includes(difficulty)) {
+    patches.push(difficulty ? `unknown difficulty "${difficulty}", defaulted to M` : "missing difficulty, defaulted to M");
+    difficulty = "M";
+  }
+
+  const rawOptions = content.answerOptions ?? [];
+  if (rawOptions.length === 0) return normalizeGridIn(id, raw, { module, difficulty, stem: String(stemHtml), patches });
+  if (rawOptions.length !== OPTION_COUNT) {
+    return reject(`expected ${OPTION_COUNT} answer options, found ${rawOptions.length}`);
+  }
+
+  if (rawOptions.some((option) => typeof option === "object")) {
+    patches.push("answer options unwrapped from {id, content} objects");
+  }
+  const answerOptions = rawOptions.map((option) => {
+    const text = optionText(option);
+    // Remove leading single-letter labels like "B\n<p>...</p>"
+    return text.replace(/^\s*[A-Da-d](?:\.|\)|:)?\s*[\r\n]+/, "").trim();
+  });
+  if (answerOptions.some((text, i) => text !== optionText(rawOptions[i]))) {
+    patches.push("letter labels stripped from answer options");
+  }
+  if (answerOptions.some((text) => !text)) return reject("empty answer option");
+
+  let correctAnswer = content.correct_answer?.length ? content.correct_answer : content.keys ?? [];
+  if (correctAnswer.length === 0) return reject("missing correct answer");
+  if (!content.correct_answer?.length) patches.push("correct answer taken from `keys`");
+
+  // Letter labels like "A".."D" are mapped to the option content they name
+  if (correctAnswer.every((label) => /^[A-D]$/i.test(label.trim()))) {
+    correctAnswer = correctAnswer.map(
+      (label) => answerOptions[label.trim().toUpperCase().charCodeAt(0) - "A".charCodeAt(0)],
+    );
+    patches.push("correct answer letters mapped to option content");
+  }
+  const unmatched = correctAnswer.filter((answer) => !answerOptions.includes(answer));
+  if (unmatched.length > 0) return reject("correct answer does not match any option");
+
+  return validate(id, raw, { module, difficulty, stem: String(stemHtml), patches }, answerOptions, correctAnswer);
+}
+
+interface NormalizedFields {
+  module: string;
+  difficulty: Question["difficulty"];
+  stem: string;
+  patches: string[];
+}
+
+// Free-response items: kept as grid-in when the answers are numeric
+function normalizeGridIn(id: string, raw: RawQuestion, fields: NormalizedFields): QuestionImportResult {
+  const content = raw.content!;
+  const accepted = (content.correct_answer?.length ? content.correct_answer : content.keys ?? [])
+    .map((answer) => String(answer).trim())
+    .filter(Boolean);
+  if (accepted.length === 0) return { question: null, reasons: ["free-response item without answers"] };
+  if (!content.correct_answer?.length) fields.patches.push("accepted answers taken from `keys`");
+
+  const numeric = accepted.filter((answer) => parseAcceptedValue(answer) !== null);
+  if (numeric.length === 0) return { question: null, reasons: ["free-response answers are not numeric"] };
+  if (numeric.length < accepted.length) {
+    fields.patches.push(`dropped non-numeric accepted answers: ${accepted.filter((a) => !numeric.includes(a)).join(", ")}`);
+  }
+
+  return validate(id, raw, fields, [], numeric, "grid_in");
+}
+
+function validate(
+  id: string,
+  raw: RawQuestion,
+  { module, difficulty, stem, patches }: NormalizedFields,
+  answerOptions: string[],
+  correctAnswer: string[],
+  type?: Question["type"],
+): QuestionImportResult {
+  const content = raw.content!;
+  // Extract stimulus (passage/figure/table) if present so the UI can show it before the stem.
+  const stimulusHtml = content.stimulus ?? content.body ?? content.stimulus_reference ?? null;
+
+  const parsed = questionSchema.safeParse({
+    id,
+    module,
+    difficulty,
+    skill_desc: raw.skill_desc || "",
+    ...(type ? { type } : {}),
+    content: {
+      stem,
+      stimulus: stimulusHtml ? String(stimulusHtml) : undefined,
+      answerOptions,
+      correct_answer: correctAnswer,
+      rationale: content.rationale || "",
+    },
+  });
+  if (!parsed.success) return { question: null, reasons: [fromZodError(parsed.error).message] };
+
+  return { question: parsed.data, reasons: patches };
+}
+
+// Normalize a whole bank keyed by question id
+export function importQuestionBank(raw: Record<string, RawQuestion>): QuestionBankImport {
+  const questions: Question[] = [];
+  const issues: QuestionImportIssue[] = [];
+
+  Object.entries(raw).forEach(([id, item]) => {
+    const { question, reasons } = normalizeQuestion(id, item);
+    if (!question) {
+      issues.push({ id, status: "rejected", reasons });
+      return;
+    }
+    questions.push(question);
+    if (reasons.length > 0) issues.push({ id, status: "patched", reasons });
+  });
+
+  return { questions, issues };
+}
@@ -0,0 +1,44 @@
+/*
+  roomCodes.ts
+
+  Room code format shared by the server's allocator (`server/roomCodes.ts`)
+  and the Firebase transport. Codes start out as four digits; once enough
+  rooms are open that random picks would keep colliding, allocators move
+  on to longer alphanumeric tiers. The alphanumeric alphabet leaves out
+  characters that are easy to misread (0/O, 1/I/L), and codes are always
+  upper case so players can type them in any case.
+*/
+const DIGITS = "0123456789";
+const ALPHANUMERIC = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export interface RoomCodeTier {
+  alphabet: string;
+  length: number;
+}
+
+// Smallest first; allocators try them in order
+export const ROOM_CODE_TIERS: RoomCodeTier[] = [
+  { alphabet: DIGITS, length: 4 },
+  { alphabet: ALPHANUMERIC, length: 5 },
+  { alphabet: ALPHANUMERIC, length: 6 },
+  { alphabet: ALPHANUMERIC, length: 8 },
+];
+
+// Anything an allocator can produce (and nothing longer)
+export const ROOM_CODE_PATTERN = /^[0-9A-Z]{4,8}$/;
+
+export function tierCapacity({ alphabet, length }: RoomCodeTier): number {
+  return alphabet.length ** length;
+}
+
+export function randomRoomCode({ alphabet, length }: RoomCodeTier): string {
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return code;
+}
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase();
+}
@@ -4,20 +4,64 @@
   Zod-based schemas and TypeScript types used throughout the project.
   This file centralizes shapes for Questions, GameRooms, PlayerAnswers,
   and the game state enum so both server and client can share common
-  expectations about the data.
+  expectations about the data. Database tables (Drizzle) live here too
+  so `drizzle-kit push` and the storage layer use the same definitions.
 
   If you add new fields to `shared/questions.json` (for example a
   `hint` or `difficulty` property), update the `questionSchema` here
   to keep types aligned.
 */
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, jsonb, timestamp, integer, boolean, primaryKey } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Registered players. `id` is used as the playerId in rooms.
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  // scrypt hash and salt ("hash.salt"), never sent to clients
+  password: text("password").notNull(),
+  // Profile shown to other players; null until the profile step is done
+  displayName: text("display_name"),
+  avatar: text("avatar"),
+  // Elo rating for ranked duels (see `server/ratings.ts`)
+  rating: integer("rating").notNull().default(1200),
+  ratedGames: integer("rated_games").notNull().default(0),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3).max(32).regex(/^[A-Za-z0-9_]+$/, "Use letters, numbers and underscores only"),
+  password: (schema) => schema.min(6).max(128),
+}).pick({
+  username: true,
+  password: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// `isAdmin` comes from `ADMIN_USERNAMES` on the server, not the table
+export type PublicUser = Omit<User, "password"> & { isAdmin: boolean };
+
+// Name and avatar seed shown to other players. The avatar is generated
+// client-side from the seed (see `client/src/lib/avatar.ts`).
+export const playerProfileSchema = z.object({
+  displayName: z.string().trim().min(1).max(24),
+  avatar: z.string().regex(/^[a-z0-9]{1,32}$/, "Invalid avatar"),
+});
+
+export type PlayerProfile = z.infer<typeof playerProfileSchema>;
+
 // Question schema for SAT Duel
 export const questionSchema = z.object({
   id: z.string(),
   module: z.string(), // Normalized to lowercase in the transformer
   difficulty: z.enum(["E", "M", "H"]), // Easy, Medium, Hard (defaults to M)
   skill_desc: z.string().optional(),
+  // "grid_in" questions (student-produced responses) have no options:
+  // players type a number and `correct_answer` lists the accepted forms.
+  // Missing means multiple choice.
+  type: z.enum(["multiple_choice", "grid_in"]).optional(),
   content: z.object({
     stem: z.string(),
     // Optional stimulus/passages/images that should be shown before the stem
@@ -30,14 +74,83 @@ export const questionSchema = z.object({
 
 export type Question = z.infer<typeof questionSchema>;
 
+// What clients get while a question can still be answered: everything
+// except the answer key and rationale (see `redactQuestion`)
+export const redactedQuestionSchema = questionSchema.extend({
+  content: questionSchema.shape.content.omit({ correct_answer: true, rationale: true }),
+});
+
+export type RedactedQuestion = z.infer<typeof redactedQuestionSchema>;
+
+// The withheld part of a question, sent once answering is over
+export const questionRevealSchema = z.object({
+  questionId: z.string(),
+  correct_answer: z.array(z.string()),
+  rationale: z.string().optional(),
+});
+
+export type QuestionReveal = z.infer<typeof questionRevealSchema>;
+
+// Longest grid-in entry, sign included ("-3/4" or "0.6667")
+export const GRID_IN_MAX_LENGTH = 6;
+
+// A chosen option index for multiple choice, or the typed entry for grid-in
+export const answerValueSchema = z.union([
+  z.number().int().min(0),
+  z.string().trim().min(1).max(GRID_IN_MAX_LENGTH),
+]);
+
+export type AnswerValue = z.infer<typeof answerValueSchema>;
+
 export const roomConfigSchema = z.object({
   modules: z.array(z.string()).min(1),
   difficulties: z.array(z.enum(["E", "M", "H"])).min(1),
-  numQuestions: z.number().min(1).max(50).default(10),
+  numQuestions: z.number().int().min(1).max(50).default(10),
+  // Only draw questions whose `skill_desc` is listed; empty or missing
+  // means every skill
+  skills: z.array(z.string()).optional(),
+  // 2 = head-to-head duel that starts as soon as the opponent joins;
+  // larger rooms (classroom battles) start when the host says so
+  maxPlayers: z.number().int().min(2).max(30).default(2),
+  // Fraction of players that must answer before a round resolves;
+  // anyone who hasn't answered by then is marked incorrect
+  answerQuorum: z.number().gt(0).max(1).default(1),
+  // Per-question countdown; unanswered players are marked incorrect when
+  // it runs out. Omit for untimed rooms.
+  timeLimitSeconds: z.number().int().min(5).max(300).optional(),
+  // Award extra points for fast correct answers (timed rooms only)
+  speedBonus: z.boolean().default(false),
+  // Weight the draw toward the players' weak skills and adjust difficulty
+  // to running correctness (server transport only, see `server/adaptive.ts`)
+  adaptive: z.boolean().optional(),
+  // Set on rooms created by the matchmaking queue; finishing one updates
+  // both players' ratings
+  ranked: z.boolean().optional(),
+  // Classroom rooms run by a teacher (presets from the dashboard): the
+  // host starts and follows the room but doesn't answer, so rounds never
+  // wait for them
+  hostSpectates: z.boolean().optional(),
 });
 
 export type RoomConfig = z.infer<typeof roomConfigSchema>;
 
+// Outcome of one resolved question, kept in the room so the whole game
+// can be saved as a match and reviewed afterwards
+export const roundRecordSchema = z.object({
+  questionId: z.string(),
+  // playerId -> chosen option index or grid-in entry; players who didn't
+  // answer are absent
+  answers: z.record(z.string(), answerValueSchema),
+  correct: z.record(z.string(), z.boolean()),
+  timesMs: z.record(z.string(), z.number()),
+  points: z.record(z.string(), z.number()),
+  // The answer key, revealed once the round resolved (missing in matches
+  // saved before reveals existed)
+  reveal: questionRevealSchema.optional(),
+});
+
+export type RoundRecord = z.infer<typeof roundRecordSchema>;
+
 // Game room schema
 export const gameRoomSchema = z.object({
   roomId: z.string(),
@@ -45,29 +158,463 @@ export const gameRoomSchema = z.object({
   started: z.boolean(),
   players: z.array(z.string()),
   scores: z.record(z.string(), z.number()),
-  answers: z.record(z.string(), z.number()).optional(),
+  answers: z.record(z.string(), answerValueSchema).optional(),
+  // Sent to clients instead of `answers` until the current round resolves:
+  // the players who locked in, without their choices (see `redactRoom`)
+  answered: z.array(z.string()).optional(),
   questions: z.array(z.string()),
   config: roomConfigSchema,
+  // Filled in by the server once every player has answered `currentQuestion`
+  // (playerId -> answered correctly). Cleared again when the room advances.
+  roundResults: z.record(z.string(), z.boolean()).optional(),
+  finished: z.boolean(),
+  // Server clock (epoch ms) when `currentQuestion` was shown, and when it
+  // times out in timed rooms
+  questionStartedAt: z.number().optional(),
+  questionDeadline: z.number().optional(),
+  // Milliseconds each player took to answer `currentQuestion`
+  answerTimesMs: z.record(z.string(), z.number()).optional(),
+  // Name and avatar of each player, copied from their profile on join
+  profiles: z.record(z.string(), playerProfileSchema).optional(),
+  // One entry per resolved question, in order
+  rounds: z.array(roundRecordSchema).optional(),
+  // Ranked rooms only: each player's rating before and after the match,
+  // filled in shortly after the room finishes
+  ratingChanges: z.record(z.string(), z.object({ before: z.number(), after: z.number() })).optional(),
+  // Server clock (epoch ms) when each disconnected player lost their last
+  // room channel connection; players missing here are online
+  disconnectedAt: z.record(z.string(), z.number()).optional(),
+  // Duels only: the player who stayed away past the grace period, ending
+  // the room early
+  forfeitedBy: z.string().optional(),
+  // Room clock (epoch ms) of the last change; rooms idle for longer than
+  // their TTL expire (see `roomTtlMs` in `gameRules.ts`)
+  lastActivityAt: z.number().optional(),
+  // Set when the room expired. Expired rooms reject every intent and are
+  // removed shortly after, so clients have time to notice.
+  expiredAt: z.number().optional(),
+  // Finished rooms: players who asked for a rematch. Once every player
+  // (bots aside) has, a new game replaces the room under the same code
+  rematchRequests: z.array(z.string()).optional(),
+  // Questions played in earlier games of this room, which rematches avoid
+  playedQuestions: z.array(z.string()).optional(),
+  // Tournament matches only (see `server/tournaments.ts`): the room is
+  // reserved for the pairing's two players
+  tournament: z
+    .object({ tournamentId: z.string(), matchId: z.string(), players: z.array(z.string()) })
+    .optional(),
 });
 
 export type GameRoom = z.infer<typeof gameRoomSchema>;
 
+// Finished games, written by the server when a room finishes (see
+// `server/matches.ts`). `players` are the ids still in the room at the end.
+export const matches = pgTable("matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomId: text("room_id").notNull(),
+  config: jsonb("config").$type<RoomConfig>().notNull(),
+  questionIds: jsonb("question_ids").$type<string[]>().notNull(),
+  players: text("players").array().notNull(),
+  profiles: jsonb("profiles").$type<Record<string, PlayerProfile>>().notNull(),
+  rounds: jsonb("rounds").$type<RoundRecord[]>().notNull(),
+  scores: jsonb("scores").$type<Record<string, number>>().notNull(),
+  finishedAt: timestamp("finished_at").defaultNow().notNull(),
+});
+
+export type Match = typeof matches.$inferSelect;
+export type InsertMatch = typeof matches.$inferInsert;
+
+// Codes admins hand out (e.g. one per class per day) that unlock the game
+// for a session (see `server/access.ts`). `code` is stored upper case.
+export const accessCodes = pgTable("access_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(),
+  // Who the code is for, e.g. a class name
+  label: text("label").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Null means unlimited redemptions
+  maxUses: integer("max_uses"),
+  uses: integer("uses").notNull().default(0),
+  revoked: boolean("revoked").notNull().default(false),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Redeeming a code issued for a class also enrolls the player in it
+  classId: varchar("class_id"),
+});
+
+export type AccessCode = typeof accessCodes.$inferSelect;
+export type InsertAccessCode = typeof accessCodes.$inferInsert;
+
+// A named room config a teacher starts class rooms from
+export const roomPresetSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  config: roomConfigSchema,
+});
+
+export type RoomPreset = z.infer<typeof roomPresetSchema>;
+
+// Classes run by a teacher (any admin, see `server/classes.ts`).
+// Students join by redeeming one of the class's access codes.
+export const classes = pgTable("classes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  teacherId: varchar("teacher_id").notNull(),
+  presets: jsonb("presets").$type<RoomPreset[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SchoolClass = typeof classes.$inferSelect;
+export type InsertSchoolClass = typeof classes.$inferInsert;
+
+export const classMembers = pgTable(
+  "class_members",
+  {
+    classId: varchar("class_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.classId, table.userId] })],
+);
+
+export type ClassMember = typeof classMembers.$inferSelect;
+
+export const ACCESS_CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+
+const accessCodeValueSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(ACCESS_CODE_PATTERN, "Access codes are 4-16 letters or digits");
+
+// `POST /api/access`
+export const redeemAccessRequestSchema = z.object({
+  code: accessCodeValueSchema,
+});
+
+// `POST /api/access/codes`; the code is generated when omitted
+export const createAccessCodeRequestSchema = z.object({
+  code: accessCodeValueSchema.optional(),
+  label: z.string().trim().min(1).max(60),
+  expiresAt: z.coerce.date(),
+  maxUses: z.number().int().min(1).optional(),
+  // Enroll whoever redeems the code in this class (one of the admin's own)
+  classId: z.string().min(1).optional(),
+});
+
+export type CreateAccessCodeRequest = z.infer<typeof createAccessCodeRequestSchema>;
+
+// `GET /api/access`: whether this session may play, and until when
+export type AccessStatus =
+  | { granted: false }
+  | { granted: true; admin: true }
+  | { granted: true; admin: false; label: string; expiresAt: number };
+
+// `POST /api/classes`
+export const createClassRequestSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
+// `PUT /api/classes/:classId/presets` replaces the whole list
+export const updateClassPresetsRequestSchema = z.object({
+  presets: z.array(roomPresetSchema).max(20),
+});
+
+// `GET /api/classes`. Times are epoch ms.
+export interface ClassSummary {
+  id: string;
+  name: string;
+  presets: RoomPreset[];
+  createdAt: number;
+  studentCount: number;
+}
+
+// Rounds a student answered for one `skill_desc` ("" for questions without one)
+export interface SkillAccuracy {
+  skill: string;
+  correct: number;
+  attempts: number;
+}
+
+// One finished game from a student's point of view
+export interface StudentMatchSummary {
+  matchId: string;
+  roomId: string;
+  finishedAt: number;
+  // Players in the match, the student included
+  playerCount: number;
+  score: number;
+  // 1 = best score; tied scores share a rank
+  rank: number;
+  correct: number;
+  questions: number;
+  ranked: boolean;
+}
+
+// A student's recent history, as shown on the teacher dashboard
+export interface StudentProgress {
+  userId: string;
+  username: string;
+  displayName: string | null;
+  avatar: string | null;
+  rating: number;
+  joinedAt: number;
+  // Over the matches the summary covers (the latest ones only)
+  matchesPlayed: number;
+  wins: number;
+  correct: number;
+  attempts: number;
+  // Weakest first
+  skills: SkillAccuracy[];
+  // Newest first
+  recentMatches: StudentMatchSummary[];
+}
+
+// `GET /api/classes/:classId`
+export interface ClassProgress extends ClassSummary {
+  students: StudentProgress[];
+}
+
+// Tournaments: brackets of duels (see `shared/brackets.ts` and
+// `server/tournaments.ts`)
+export const tournamentFormatSchema = z.enum(["single_elimination", "double_elimination", "swiss"]);
+
+export type TournamentFormat = z.infer<typeof tournamentFormatSchema>;
+
+// `POST /api/tournaments`
+export const createTournamentRequestSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  format: tournamentFormatSchema,
+  // Rules for every match; matches are always unranked duels
+  config: roomConfigSchema,
+  maxPlayers: z.number().int().min(2).max(64).default(32),
+  // Swiss only; defaults to enough rounds to separate the field
+  swissRounds: z.number().int().min(1).max(10).optional(),
+});
+
+export type CreateTournamentRequest = z.infer<typeof createTournamentRequestSchema>;
+
+// Where an elimination match slot's player comes from. Seeds are 1-based;
+// seeds past the number of players are byes.
+export type BracketSlotSource = { kind: "seed"; seed: number } | { kind: "winner" | "loser"; matchId: string };
+
+export interface TournamentMatch {
+  // "W2-1" = winners bracket round 2, first match; "L", "F" and "S" for
+  // the losers bracket, grand final and Swiss rounds
+  id: string;
+  bracket: "winners" | "losers" | "final" | "swiss";
+  round: number;
+  // null while a slot is undecided or empty (a bye)
+  players: [string | null, string | null];
+  // Elimination only
+  sources?: [BracketSlotSource, BracketSlotSource];
+  // pending -> playing (a room exists) -> finished
+  status: "pending" | "playing" | "finished";
+  roomId?: string;
+  scores?: Record<string, number>;
+  // Set once finished; null when nobody won (a Swiss draw or an empty pairing)
+  winnerId?: string | null;
+  loserId?: string | null;
+  // Decided without a game: a bye, or the opponent never joined
+  walkover?: boolean;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  config: RoomConfig;
+  hostId: string;
+  status: "registering" | "running" | "finished";
+  maxPlayers: number;
+  // Join order while registering, seed order (best first) once started
+  players: string[];
+  profiles: Record<string, PlayerProfile>;
+  // Ratings when each player joined; used for seeding
+  ratings: Record<string, number>;
+  // Swiss only: how many rounds are played
+  swissRounds?: number;
+  matches: TournamentMatch[];
+  winnerId?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+// `GET /api/tournaments`
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: Tournament["status"];
+  hostId: string;
+  hostName?: string;
+  playerCount: number;
+  maxPlayers: number;
+  winnerId?: string;
+  winnerName?: string;
+  createdAt: number;
+}
+
+export interface SwissStanding {
+  playerId: string;
+  // 1 per win (byes included), 0.5 per draw
+  points: number;
+  // Sum of the opponents' points, the first tiebreak
+  buchholz: number;
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+// Request bodies for the room endpoints in `server/routes.ts`. The
+// acting player is always the signed-in user, never part of the body.
+// The server allocates the room code (see `server/roomCodes.ts`)
+export const createRoomRequestSchema = z.object({
+  config: roomConfigSchema,
+});
+
+export const submitAnswerRequestSchema = z.object({
+  questionIndex: z.number().int().min(0),
+  answer: answerValueSchema,
+});
+
+export const advanceRoomRequestSchema = z.object({
+  // The index the client wants to move to; the server only advances when this
+  // is exactly one past `currentQuestion`, so duplicate calls are no-ops.
+  questionIndex: z.number().int().min(0),
+});
+
+// Computer opponents added with `POST /api/rooms/:roomId/bots`
+export const botLevelSchema = z.enum(["easy", "medium", "hard"]);
+
+export type BotLevel = z.infer<typeof botLevelSchema>;
+
+export const addBotRequestSchema = z.object({
+  level: botLevelSchema.default("medium"),
+});
+
+// Bot player ids carry this prefix so they never collide with user ids
+export const BOT_ID_PREFIX = "bot:";
+
+export const recordMatchRequestSchema = z.object({
+  roomId: z.string().min(1),
+});
+
+// Query string of `GET /api/matches`
+export const matchHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Query string filters may be repeated (`?module=math&module=reading`)
+const queryListSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .union([item, z.array(item)])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : ([] as z.infer<T>[]).concat(value)));
+
+// Query string of `GET /api/questions`
+export const questionQuerySchema = z.object({
+  module: queryListSchema(z.string()),
+  difficulty: queryListSchema(z.enum(["E", "M", "H"])),
+  skill: queryListSchema(z.string()),
+  ids: queryListSchema(z.string()),
+  // Include answer keys; only honoured when rooms run on the Firebase
+  // transport, whose clients score rounds themselves
+  answers: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type QuestionQuery = z.infer<typeof questionQuerySchema>;
+
+// One page of `GET /api/questions`; `total` counts every match. Questions
+// are redacted unless full questions were requested (Firebase transport)
+export interface QuestionPage<Q extends RedactedQuestion = RedactedQuestion> {
+  questions: Q[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Counts behind the lobby's filters and dashboard (`GET /api/questions/summary`)
+export interface QuestionBankSummary {
+  total: number;
+  byModule: Record<string, number>;
+  byDifficulty: Record<Question["difficulty"], number>;
+  bySkill: Record<string, number>;
+  // Module -> its skills, sorted
+  skillsByModule: Record<string, string[]>;
+}
+
+// Solo practice (`POST /api/practice` and `POST /api/practice/answer`)
+export const practiceRequestSchema = z.object({
+  config: roomConfigSchema,
+});
+
+export const practiceAnswerRequestSchema = z.object({
+  questionId: z.string().min(1),
+  answer: answerValueSchema,
+});
+
+export interface PracticeAnswerResult {
+  correct: boolean;
+  reveal: QuestionReveal;
+}
+
+export type CreateRoomRequest = z.infer<typeof createRoomRequestSchema>;
+
 // Player answer schema
 export const playerAnswerSchema = z.object({
   playerId: z.string(),
   questionId: z.string(),
-  answer: z.number(),
+  answer: answerValueSchema,
   correct: z.boolean(),
 });
 
 export type PlayerAnswer = z.infer<typeof playerAnswerSchema>;
 
 // Game state
-export type GameState = "lobby" | "waiting" | "playing" | "gameover";
+export type GameState = "lobby" | "practice" | "matchmaking" | "waiting" | "playing" | "gameover" | "spectating";
+
+// `GET /api/matchmaking` response: where the signed-in player stands in
+// the ranked queue
+export type MatchmakingStatus =
+  | { status: "idle" }
+  | { status: "queued"; rating: number; queuedAt: number }
+  | { status: "matched"; roomId: string };
 
 // Score tracking
 export interface PlayerScore {
   playerId: string;
   score: number;
   displayName?: string;
+  avatar?: string;
+}
+
+// A player's place in a room; tied scores share a rank
+export interface PlayerStanding extends PlayerScore {
+  rank: number;
 }
+
+// Realtime room channel (WebSocket) served by `server/realtime.ts`
+export const ROOM_CHANNEL_PATH = "/ws/rooms";
+
+export const roomChannelClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), roomId: z.string().min(1) }),
+  z.object({ type: z.literal("unsubscribe") }),
+]);
+
+export type RoomChannelClientMessage = z.infer<typeof roomChannelClientMessageSchema>;
+
+// `room: null` means the room does not exist (never created or deleted).
+// `serverTime` lets clients correct for clock skew when showing deadlines.
+export type RoomChannelServerMessage = {
+  type: "room";
+  roomId: string;
+  room: GameRoom | null;
+  serverTime: number;
+};